@@ -5,11 +5,18 @@ import { Route, Switch } from "wouter";
 import ErrorBoundary from "./components/ErrorBoundary";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import Home from "./pages/Home";
+import Articles from "./pages/Articles";
+import ArticleEditor from "./pages/ArticleEditor";
+import Assistant from "./pages/Assistant";
 
 function Router() {
   return (
     <Switch>
       <Route path={"/"} component={Home} />
+      <Route path={"/articles"} component={Articles} />
+      <Route path={"/editor"} component={ArticleEditor} />
+      <Route path={"/editor/:filename"} component={ArticleEditor} />
+      <Route path={"/assistant"} component={Assistant} />
       <Route path={"/404"} component={NotFound} />
       <Route component={NotFound} />
     </Switch>
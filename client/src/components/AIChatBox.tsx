@@ -2,7 +2,7 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
-import { Loader2, Send, User, Sparkles } from "lucide-react";
+import { Check, Loader2, Send, User, Sparkles, Wrench, X } from "lucide-react";
 import { useState, useEffect, useRef } from "react";
 import { Streamdown } from "streamdown";
 
@@ -12,6 +12,33 @@ import { Streamdown } from "streamdown";
 export type Message = {
   role: "system" | "user" | "assistant";
   content: string;
+  /**
+   * Images returned by tools (search results, generated images)
+   */
+  images?: Array<{ url: string; caption?: string }>;
+  /**
+   * Tools the assistant called while producing this message
+   */
+  toolResults?: Array<{ name: string; result: string; error?: boolean }>;
+  /**
+   * Actions waiting for the user to confirm or cancel
+   */
+  confirmations?: ChatConfirmation[];
+  /**
+   * Render the message as an error reply
+   */
+  error?: boolean;
+  /**
+   * LLM provider and model that produced the reply
+   */
+  provider?: string;
+};
+
+export type ChatConfirmation = {
+  id: string;
+  summary: string;
+  status?: "pending" | "running" | "done";
+  outcome?: string;
 };
 
 export type AIChatBoxProps = {
@@ -57,6 +84,12 @@ export type AIChatBoxProps = {
    * Click to send directly
    */
   suggestedPrompts?: string[];
+
+  /**
+   * Callback when user confirms or cancels a pending action.
+   * Confirmation buttons are only shown when this is provided.
+   */
+  onConfirmAction?: (id: string, decision: "confirm" | "cancel") => void;
 };
 
 /**
@@ -119,6 +152,7 @@ export function AIChatBox({
   height = "600px",
   emptyStateMessage = "Start a conversation with AI",
   suggestedPrompts,
+  onConfirmAction,
 }: AIChatBoxProps) {
   const [input, setInput] = useState("");
   const scrollAreaRef = useRef<HTMLDivElement>(null);
@@ -257,9 +291,32 @@ export function AIChatBox({
                         "max-w-[80%] rounded-lg px-4 py-2.5",
                         message.role === "user"
                           ? "bg-primary text-primary-foreground"
-                          : "bg-muted text-foreground"
+                          : message.error
+                            ? "bg-destructive/10 text-destructive"
+                            : "bg-muted text-foreground"
                       )}
                     >
+                      {message.toolResults && message.toolResults.length > 0 && (
+                        <details className="mb-2 text-xs text-muted-foreground">
+                          <summary className="flex cursor-pointer items-center gap-1.5">
+                            <Wrench className="size-3" />
+                            {message.toolResults.map((tool) => tool.name).join(", ")}
+                          </summary>
+                          <div className="mt-2 space-y-2">
+                            {message.toolResults.map((tool, toolIndex) => (
+                              <div key={toolIndex}>
+                                <div className={cn("font-medium", tool.error && "text-destructive")}>
+                                  {tool.name}
+                                </div>
+                                <pre className="whitespace-pre-wrap break-words font-mono">
+                                  {tool.result}
+                                </pre>
+                              </div>
+                            ))}
+                          </div>
+                        </details>
+                      )}
+
                       {message.role === "assistant" ? (
                         <div className="prose prose-sm dark:prose-invert max-w-none">
                           <Streamdown>{message.content}</Streamdown>
@@ -269,6 +326,67 @@ export function AIChatBox({
                           {message.content}
                         </p>
                       )}
+
+                      {message.images && message.images.length > 0 && (
+                        <div className="mt-3 grid grid-cols-2 gap-2">
+                          {message.images.map((image, imageIndex) => (
+                            <a
+                              key={imageIndex}
+                              href={image.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="block overflow-hidden rounded-md border"
+                            >
+                              <img
+                                src={image.url}
+                                alt={image.caption ?? ""}
+                                className="aspect-video w-full object-cover"
+                                loading="lazy"
+                              />
+                            </a>
+                          ))}
+                        </div>
+                      )}
+
+                      {message.confirmations?.map((confirmation) => (
+                        <div
+                          key={confirmation.id}
+                          className="mt-3 rounded-md border border-amber-500/40 bg-background/60 p-3 text-sm"
+                        >
+                          <p className="mb-2">⚠️ {confirmation.summary}</p>
+                          {confirmation.status === "done" ? (
+                            <p className="text-muted-foreground">{confirmation.outcome}</p>
+                          ) : onConfirmAction ? (
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                disabled={confirmation.status === "running"}
+                                onClick={() => onConfirmAction(confirmation.id, "confirm")}
+                              >
+                                {confirmation.status === "running" ? (
+                                  <Loader2 className="size-4 animate-spin" />
+                                ) : (
+                                  <Check className="size-4" />
+                                )}
+                                Подтвердить
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={confirmation.status === "running"}
+                                onClick={() => onConfirmAction(confirmation.id, "cancel")}
+                              >
+                                <X className="size-4" />
+                                Отмена
+                              </Button>
+                            </div>
+                          ) : null}
+                        </div>
+                      ))}
+
+                      {message.provider && (
+                        <p className="mt-2 text-xs text-muted-foreground">{message.provider}</p>
+                      )}
                     </div>
 
                     {message.role === "user" && (
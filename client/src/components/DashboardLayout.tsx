@@ -22,15 +22,10 @@ import {
 import { getLoginUrl } from "@/const";
 import { useIsMobile } from "@/hooks/useMobile";
 import {
-  LayoutDashboard,
   LogOut,
   PanelLeft,
   FileText,
   PenTool,
-  Sparkles,
-  Wand2,
-  Image,
-  Settings,
   Bot,
 } from "lucide-react";
 import { CSSProperties, useEffect, useRef, useState } from "react";
@@ -39,14 +34,9 @@ import { DashboardLayoutSkeleton } from "./DashboardLayoutSkeleton";
 import { Button } from "./ui/button";
 
 const menuItems = [
-  { icon: LayoutDashboard, label: "Дашборд", path: "/" },
   { icon: FileText, label: "Статьи", path: "/articles" },
   { icon: PenTool, label: "Новая статья", path: "/editor" },
-  { icon: Sparkles, label: "AI Генератор", path: "/ai-generate" },
-  { icon: Wand2, label: "AI Редактор", path: "/ai-edit" },
-  { icon: Image, label: "Изображения", path: "/images" },
   { icon: Bot, label: "AI Ассистент", path: "/assistant" },
-  { icon: Settings, label: "Настройки", path: "/settings" },
 ];
 
 const SIDEBAR_WIDTH_KEY = "sidebar-width";
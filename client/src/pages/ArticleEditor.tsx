@@ -0,0 +1,188 @@
+import DashboardLayout from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, Loader2, Save } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useLocation, useParams } from "wouter";
+
+type ArticleForm = {
+  title: string;
+  description: string;
+  tags: string;
+  categories: string;
+  content: string;
+  draft: boolean;
+};
+
+const EMPTY_FORM: ArticleForm = {
+  title: "",
+  description: "",
+  tags: "",
+  categories: "",
+  content: "",
+  draft: true,
+};
+
+export default function ArticleEditor() {
+  const params = useParams<{ filename?: string }>();
+  const filename = params.filename ? decodeURIComponent(params.filename) : undefined;
+  const isNew = !filename;
+  const [, setLocation] = useLocation();
+  const [form, setForm] = useState<ArticleForm>(EMPTY_FORM);
+  const utils = trpc.useUtils();
+
+  const articleQuery = trpc.articles.get.useQuery(
+    { filename: filename ?? "" },
+    { enabled: !isNew, retry: false }
+  );
+
+  useEffect(() => {
+    const article = articleQuery.data;
+    if (!article) return;
+    setForm({
+      title: article.title,
+      description: article.description ?? "",
+      tags: article.tags ?? "",
+      categories: article.categories ?? "",
+      content: article.content ?? "",
+      draft: article.draft ?? false,
+    });
+  }, [articleQuery.data]);
+
+  useEffect(() => {
+    if (isNew) setForm(EMPTY_FORM);
+  }, [isNew]);
+
+  const createMutation = trpc.articles.create.useMutation({
+    onSuccess: ({ filename: created, hugoError, queued }) => {
+      if (queued) toast.warning(`Статья сохранена. Hugo недоступен (${hugoError}), отправка повторится автоматически`);
+      else if (hugoError) toast.warning(`Сохранено локально. Ошибка Hugo: ${hugoError}`);
+      else toast.success("Статья создана");
+      utils.articles.invalidate();
+      setLocation(`/editor/${encodeURIComponent(created)}`);
+    },
+    onError: error => toast.error(`Ошибка создания: ${error.message}`),
+  });
+
+  const updateMutation = trpc.articles.update.useMutation({
+    onSuccess: ({ queued }) => {
+      if (queued) toast.warning("Изменения сохранены. Hugo недоступен, отправка повторится автоматически");
+      else toast.success("Изменения сохранены");
+      utils.articles.invalidate();
+    },
+    onError: error => toast.error(`Ошибка сохранения: ${error.message}`),
+  });
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  const update = <K extends keyof ArticleForm>(key: K, value: ArticleForm[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }));
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.title.trim()) {
+      toast.error("Укажите заголовок");
+      return;
+    }
+    if (isNew) createMutation.mutate({ ...form, title: form.title.trim() });
+    else updateMutation.mutate({ filename, ...form, title: form.title.trim() });
+  };
+
+  if (!isNew && articleQuery.error) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center gap-4 py-16 text-center">
+          <p className="text-muted-foreground">{articleQuery.error.message}</p>
+          <Button variant="outline" onClick={() => setLocation("/articles")}>
+            <ArrowLeft className="h-4 w-4" />
+            К списку статей
+          </Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <form onSubmit={handleSave} className="flex flex-col gap-6 max-w-4xl">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Button type="button" variant="ghost" size="icon" aria-label="Назад" onClick={() => setLocation("/articles")}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-semibold tracking-tight">
+                {isNew ? "Новая статья" : "Редактирование"}
+              </h1>
+              {!isNew && <p className="text-xs text-muted-foreground">{filename}</p>}
+            </div>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="draft" checked={form.draft} onCheckedChange={checked => update("draft", checked)} />
+              <Label htmlFor="draft">Черновик</Label>
+            </div>
+            <Button type="submit" disabled={isSaving || articleQuery.isLoading}>
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              {isNew ? "Создать" : "Сохранить"}
+            </Button>
+          </div>
+        </div>
+
+        {!isNew && articleQuery.isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="title">Заголовок</Label>
+              <Input id="title" value={form.title} maxLength={512} onChange={e => update("title", e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="description">Описание (SEO)</Label>
+              <Textarea
+                id="description"
+                rows={2}
+                value={form.description}
+                maxLength={2000}
+                onChange={e => update("description", e.target.value)}
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="tags">Теги (через запятую)</Label>
+                <Input id="tags" value={form.tags} maxLength={1000} onChange={e => update("tags", e.target.value)} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="categories">Категории (через запятую)</Label>
+                <Input
+                  id="categories"
+                  value={form.categories}
+                  maxLength={1000}
+                  onChange={e => update("categories", e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="content">Содержимое (Markdown)</Label>
+              <Textarea
+                id="content"
+                rows={24}
+                value={form.content}
+                maxLength={50000}
+                className="font-mono text-sm"
+                onChange={e => update("content", e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+      </form>
+    </DashboardLayout>
+  );
+}
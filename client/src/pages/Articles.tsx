@@ -0,0 +1,251 @@
+import DashboardLayout from "@/components/DashboardLayout";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { trpc } from "@/lib/trpc";
+import { Loader2, Pencil, Plus, RefreshCw, Search, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useLocation } from "wouter";
+
+const PAGE_SIZE = 20;
+
+type StatusFilter = "all" | "draft" | "published";
+
+export default function Articles() {
+  const [, setLocation] = useLocation();
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<StatusFilter>("all");
+  const [page, setPage] = useState(0);
+  const [pendingDelete, setPendingDelete] = useState<string | null>(null);
+  const utils = trpc.useUtils();
+
+  // Debounce typing so every keystroke does not hit the server
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const listQuery = trpc.articles.list.useQuery({
+    search: search || undefined,
+    draft: status === "all" ? undefined : status === "draft",
+    limit: PAGE_SIZE,
+    offset: page * PAGE_SIZE,
+  });
+  const statsQuery = trpc.articles.stats.useQuery();
+
+  const syncMutation = trpc.articles.sync.useMutation({
+    onSuccess: ({ synced, conflicts, errors }) => {
+      toast.success(`Синхронизировано статей: ${synced}`);
+      if (conflicts.length > 0) {
+        toast.warning(`Конфликтов: ${conflicts.length} (${conflicts.map(c => c.filename).join(", ")}). Разрешите их в Telegram-боте.`);
+      }
+      if (errors.length > 0) toast.error(`Не синхронизировано: ${errors.length}`);
+      utils.articles.invalidate();
+    },
+    onError: error => toast.error(`Ошибка синхронизации: ${error.message}`),
+  });
+
+  const deleteMutation = trpc.articles.delete.useMutation({
+    onSuccess: ({ queued }) => {
+      if (queued) toast.warning("Hugo недоступен: статья будет удалена, когда он ответит");
+      else toast.success("Статья удалена");
+      utils.articles.invalidate();
+    },
+    onError: error => toast.error(`Ошибка удаления: ${error.message}`),
+    onSettled: () => setPendingDelete(null),
+  });
+
+  const total = listQuery.data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">Статьи</h1>
+            {statsQuery.data && (
+              <p className="text-sm text-muted-foreground mt-1">
+                Всего {statsQuery.data.total} · опубликовано {statsQuery.data.published} · черновиков {statsQuery.data.drafts}
+              </p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => syncMutation.mutate()} disabled={syncMutation.isPending}>
+              {syncMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              Синхронизировать
+            </Button>
+            <Button onClick={() => setLocation("/editor")}>
+              <Plus className="h-4 w-4" />
+              Новая статья
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          <div className="relative flex-1 min-w-[220px]">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={searchInput}
+              onChange={e => setSearchInput(e.target.value)}
+              placeholder="Поиск по заголовку или тегам"
+              className="pl-9"
+            />
+          </div>
+          <Select value={status} onValueChange={value => { setStatus(value as StatusFilter); setPage(0); }}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Все статьи</SelectItem>
+              <SelectItem value="published">Опубликованные</SelectItem>
+              <SelectItem value="draft">Черновики</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Заголовок</TableHead>
+                <TableHead>Статус</TableHead>
+                <TableHead className="hidden md:table-cell">Теги</TableHead>
+                <TableHead className="hidden md:table-cell">Обновлена</TableHead>
+                <TableHead className="w-[100px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {listQuery.isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    <Loader2 className="mx-auto h-5 w-5 animate-spin text-muted-foreground" />
+                  </TableCell>
+                </TableRow>
+              ) : listQuery.data?.items.length ? (
+                listQuery.data.items.map(article => (
+                  <TableRow
+                    key={article.id}
+                    className="cursor-pointer"
+                    onClick={() => setLocation(`/editor/${encodeURIComponent(article.filename)}`)}
+                  >
+                    <TableCell>
+                      <div className="font-medium">{article.title}</div>
+                      <div className="text-xs text-muted-foreground">{article.filename}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={article.draft ? "secondary" : "default"}>
+                        {article.draft ? "Черновик" : "Опубликована"}
+                      </Badge>
+                      {article.publishAt && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          🗓 {new Date(article.publishAt).toLocaleString("ru-RU")}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell max-w-[240px] truncate text-muted-foreground">
+                      {article.tags || "—"}
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell text-muted-foreground">
+                      {new Date(article.updatedAt).toLocaleString("ru-RU")}
+                    </TableCell>
+                    <TableCell onClick={e => e.stopPropagation()}>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Редактировать"
+                          onClick={() => setLocation(`/editor/${encodeURIComponent(article.filename)}`)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Удалить"
+                          onClick={() => setPendingDelete(article.filename)}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
+                    Статьи не найдены
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-end gap-3">
+            <span className="text-sm text-muted-foreground">
+              Страница {page + 1} из {pageCount}
+            </span>
+            <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(p => p - 1)}>
+              Назад
+            </Button>
+            <Button variant="outline" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(p => p + 1)}>
+              Вперёд
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={open => { if (!open) setPendingDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Удалить статью?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Статья «{pendingDelete}» будет удалена из блога и базы. Это действие необратимо.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={deleteMutation.isPending}
+              onClick={() => pendingDelete && deleteMutation.mutate({ filename: pendingDelete })}
+            >
+              Удалить
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,100 @@
+import { AIChatBox, type ChatConfirmation, type Message } from "@/components/AIChatBox";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { trpc } from "@/lib/trpc";
+import { RotateCcw } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+const SUGGESTED_PROMPTS = [
+  "Покажи статистику блога",
+  "Покажи последние 5 статей",
+  "Что запланировано к публикации?",
+  "Напиши черновик статьи про Docker для начинающих",
+];
+
+export default function Assistant() {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const historyQuery = trpc.chat.history.useQuery(undefined, { refetchOnWindowFocus: false });
+
+  // Restore the current thread once; afterwards the local state is the source of truth
+  useEffect(() => {
+    if (historyQuery.data) setMessages(prev => (prev.length === 0 ? historyQuery.data : prev));
+  }, [historyQuery.data]);
+
+  const updateConfirmation = (id: string, patch: Partial<ChatConfirmation>) =>
+    setMessages(prev => prev.map(message => message.confirmations?.some(c => c.id === id)
+      ? { ...message, confirmations: message.confirmations.map(c => (c.id === id ? { ...c, ...patch } : c)) }
+      : message));
+
+  const sendMutation = trpc.chat.send.useMutation({
+    onSuccess: reply => {
+      setMessages(prev => [...prev, {
+        role: "assistant",
+        // Outlines have buttons in Telegram; here the user approves or corrects them in a reply
+        content: [reply.text, ...(reply.outlines ?? []).map(outline => outline.text)].join("\n\n"),
+        images: reply.images,
+        toolResults: reply.toolResults,
+        confirmations: reply.confirmations?.map(c => ({ ...c, status: "pending" as const })),
+        error: reply.error,
+        provider: reply.provider,
+      }]);
+    },
+    onError: error => {
+      setMessages(prev => [...prev, { role: "assistant", content: `❌ ${error.message}`, error: true }]);
+    },
+  });
+
+  const confirmMutation = trpc.chat.confirm.useMutation({
+    onMutate: ({ id }) => updateConfirmation(id, { status: "running" }),
+    onSuccess: ({ outcome }, { id }) => updateConfirmation(id, { status: "done", outcome }),
+    onError: (error, { id }) => updateConfirmation(id, { status: "done", outcome: `⚠️ ${error.message}` }),
+  });
+
+  const resetMutation = trpc.chat.reset.useMutation({
+    onSuccess: () => {
+      setMessages([]);
+      toast.success("Начат новый разговор");
+    },
+    onError: error => toast.error(error.message),
+  });
+
+  const handleSend = (content: string) => {
+    setMessages(prev => [...prev, { role: "user", content }]);
+    sendMutation.mutate({ message: content });
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col gap-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">AI Ассистент</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Тот же ассистент и инструменты, что и в Telegram-боте
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => resetMutation.mutate()}
+            disabled={resetMutation.isPending || sendMutation.isPending}
+          >
+            <RotateCcw className="h-4 w-4" />
+            Новый разговор
+          </Button>
+        </div>
+
+        <AIChatBox
+          messages={messages}
+          onSendMessage={handleSend}
+          onConfirmAction={(id, decision) => confirmMutation.mutate({ id, decision })}
+          isLoading={sendMutation.isPending}
+          placeholder="Напишите сообщение..."
+          emptyStateMessage="Спросите про статьи, попросите написать или опубликовать текст"
+          suggestedPrompts={SUGGESTED_PROMPTS}
+          height="calc(100vh - 180px)"
+        />
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -1,5 +1,6 @@
-import { Bot, MessageSquare, FileText, Image, Sparkles, Settings, ArrowRight } from "lucide-react";
+import { Bot, MessageSquare, FileText, Image, Sparkles, Settings, ArrowRight, LayoutDashboard } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Link } from "wouter";
 
 const FEATURES = [
   { icon: FileText, title: "Управление статьями", desc: "Создание, редактирование, удаление и синхронизация с Hugo" },
@@ -39,16 +40,24 @@ export default function Home() {
             <p className="text-lg md:text-xl text-muted-foreground mb-8 max-w-2xl mx-auto">
               Управляйте Hugo-блогом через Telegram. AI-ассистент для создания, редактирования и оптимизации контента — прямо из мессенджера.
             </p>
-            <a
-              href={`https://t.me/${botUsername}`}
-              target="_blank"
-              rel="noopener noreferrer"
-            >
-              <Button size="lg" className="gap-2 text-lg px-8 py-6 bg-blue-600 hover:bg-blue-700">
-                Открыть в Telegram
-                <ArrowRight className="w-5 h-5" />
-              </Button>
-            </a>
+            <div className="flex flex-wrap justify-center gap-4">
+              <a
+                href={`https://t.me/${botUsername}`}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <Button size="lg" className="gap-2 text-lg px-8 py-6 bg-blue-600 hover:bg-blue-700">
+                  Открыть в Telegram
+                  <ArrowRight className="w-5 h-5" />
+                </Button>
+              </a>
+              <Link href="/articles">
+                <Button size="lg" variant="outline" className="gap-2 text-lg px-8 py-6">
+                  <LayoutDashboard className="w-5 h-5" />
+                  Веб-панель
+                </Button>
+              </Link>
+            </div>
           </div>
         </div>
       </div>
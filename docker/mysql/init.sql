@@ -42,23 +42,56 @@ CREATE TABLE IF NOT EXISTS `articles` (
   `tags` text,
   `categories` text,
   `draft` tinyint(1) DEFAULT 0,
+  `frontMatter` json DEFAULT NULL,
   `hugoUrl` varchar(1024) DEFAULT NULL,
   `coverImage` varchar(1024) DEFAULT NULL,
+  `publishAt` timestamp NULL DEFAULT NULL,
+  `scheduledBy` bigint DEFAULT NULL,
+  `scheduledByUserId` int DEFAULT NULL,
   `syncedAt` timestamp NULL DEFAULT NULL,
+  `syncedHash` varchar(64) DEFAULT NULL,
+  `syncedRevision` int DEFAULT NULL,
+  `remoteUpdatedAt` timestamp NULL DEFAULT NULL,
   `createdAt` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
   `updatedAt` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
   PRIMARY KEY (`id`),
-  UNIQUE KEY `articles_filename_unique` (`filename`)
+  UNIQUE KEY `articles_filename_unique` (`filename`),
+  FULLTEXT KEY `articles_fulltext` (`title`,`description`,`content`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Tags and categories, one row per distinct name
+CREATE TABLE IF NOT EXISTS `taxonomy_terms` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `taxonomy` enum('tags','categories') NOT NULL,
+  `name` varchar(255) NOT NULL,
+  `createdAt` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `taxonomy_terms_taxonomy_name_idx` (`taxonomy`, `name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Terms of each article, in front matter order
+CREATE TABLE IF NOT EXISTS `article_terms` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `articleId` int NOT NULL,
+  `termId` int NOT NULL,
+  `position` int NOT NULL DEFAULT 0,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `article_terms_article_term_idx` (`articleId`, `termId`),
+  KEY `article_terms_term_idx` (`termId`)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
 -- AI generation log
 CREATE TABLE IF NOT EXISTS `ai_generations` (
   `id` int NOT NULL AUTO_INCREMENT,
-  `userId` int NOT NULL,
+  `userId` int DEFAULT NULL,
+  `telegramUserId` bigint DEFAULT NULL,
   `type` enum('article_generate','article_edit','image_generate','seo_optimize','assistant','chat') NOT NULL,
   `prompt` text NOT NULL,
   `result` text,
+  `provider` varchar(64) DEFAULT NULL,
   `model` varchar(256) DEFAULT NULL,
+  `promptTokens` int DEFAULT NULL,
+  `completionTokens` int DEFAULT NULL,
   `tokensUsed` int DEFAULT NULL,
   `status` enum('pending','completed','failed') NOT NULL DEFAULT 'pending',
   `createdAt` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
@@ -67,3 +100,131 @@ CREATE TABLE IF NOT EXISTS `ai_generations` (
   KEY `idx_ai_gen_type` (`type`),
   KEY `idx_ai_gen_created` (`createdAt`)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Conversation threads of Telegram and web users (persisted LLM context)
+CREATE TABLE IF NOT EXISTS `conversations` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `telegramUserId` bigint DEFAULT NULL,
+  `userId` int DEFAULT NULL,
+  `title` varchar(256) DEFAULT NULL,
+  `status` enum('active','archived') NOT NULL DEFAULT 'active',
+  `isCurrent` tinyint(1) NOT NULL DEFAULT 0,
+  `createdAt` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `conversations_user_idx` (`telegramUserId`, `status`),
+  KEY `conversations_web_user_idx` (`userId`, `status`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Conversation messages, including tool calls and tool results
+CREATE TABLE IF NOT EXISTS `conversation_messages` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `conversationId` int NOT NULL,
+  `role` enum('user','assistant','system','tool') NOT NULL,
+  `content` mediumtext NOT NULL,
+  `toolCalls` mediumtext,
+  `toolCallId` varchar(128) DEFAULT NULL,
+  `createdAt` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `conversation_messages_conversation_idx` (`conversationId`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Article revision history (create/edit/sync/rollback snapshots)
+CREATE TABLE IF NOT EXISTS `article_revisions` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `filename` varchar(512) NOT NULL,
+  `revision` int NOT NULL,
+  `title` varchar(512) NOT NULL,
+  `description` text,
+  `content` mediumtext,
+  `tags` text,
+  `categories` text,
+  `draft` tinyint(1) DEFAULT 0,
+  `frontMatter` json DEFAULT NULL,
+  `source` enum('create','edit','sync','rollback') NOT NULL,
+  `telegramUserId` bigint DEFAULT NULL,
+  `userId` int DEFAULT NULL,
+  `createdAt` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `article_revisions_filename_revision_idx` (`filename`, `revision`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Sync conflicts: changed both locally and in Hugo since the last sync
+CREATE TABLE IF NOT EXISTS `article_sync_conflicts` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `filename` varchar(512) NOT NULL,
+  `kind` enum('both_changed','deleted_remotely') NOT NULL,
+  `remote` mediumtext,
+  `remoteUpdatedAt` timestamp NULL DEFAULT NULL,
+  `createdAt` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `article_sync_conflicts_filename_unique` (`filename`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Hugo writes waiting to be sent or retried (deleted once Hugo accepts them)
+CREATE TABLE IF NOT EXISTS `hugo_outbox` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `idempotencyKey` varchar(64) NOT NULL,
+  `operation` enum('create','edit','delete') NOT NULL,
+  `filename` varchar(512) NOT NULL,
+  `payload` mediumtext,
+  `revision` int DEFAULT NULL,
+  `syncedHash` varchar(64) DEFAULT NULL,
+  `status` enum('pending','abandoned') NOT NULL DEFAULT 'pending',
+  `attempts` int NOT NULL DEFAULT 0,
+  `nextAttemptAt` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `lastError` text,
+  `requestedBy` bigint DEFAULT NULL,
+  `requestedByUserId` int DEFAULT NULL,
+  `createdAt` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `hugo_outbox_idempotencyKey_unique` (`idempotencyKey`),
+  KEY `hugo_outbox_status_idx` (`status`, `nextAttemptAt`),
+  KEY `hugo_outbox_filename_idx` (`filename`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Telegram users and their roles (viewer/author/editor/admin)
+CREATE TABLE IF NOT EXISTS `telegram_users` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `telegramUserId` bigint NOT NULL,
+  `username` varchar(64) DEFAULT NULL,
+  `firstName` varchar(128) DEFAULT NULL,
+  `role` enum('viewer','author','editor','admin') NOT NULL DEFAULT 'viewer',
+  `grantedBy` bigint DEFAULT NULL,
+  `dailyTokenLimit` int DEFAULT NULL,
+  `createdAt` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `telegram_users_telegramUserId_unique` (`telegramUserId`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Audit log of tool calls and user management
+CREATE TABLE IF NOT EXISTS `audit_events` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `telegramUserId` bigint DEFAULT NULL,
+  `userId` int DEFAULT NULL,
+  `tool` varchar(64) NOT NULL,
+  `args` text,
+  `outcome` enum('success','error','denied','rejected','cancelled') NOT NULL,
+  `result` text,
+  `latencyMs` int NOT NULL DEFAULT 0,
+  `createdAt` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `audit_events_created_idx` (`createdAt`),
+  KEY `audit_events_tool_idx` (`tool`, `createdAt`),
+  KEY `audit_events_telegram_user_idx` (`telegramUserId`, `createdAt`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `article_chunks` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `filename` varchar(512) NOT NULL,
+  `chunkIndex` int NOT NULL,
+  `content` text NOT NULL,
+  `embedding` mediumtext NOT NULL,
+  `model` varchar(256) NOT NULL,
+  `contentHash` varchar(64) NOT NULL,
+  `createdAt` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `article_chunks_filename_idx` (`filename`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
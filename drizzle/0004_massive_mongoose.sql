@@ -0,0 +1,23 @@
+CREATE TABLE `conversation_messages` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`conversationId` int NOT NULL,
+	`role` enum('user','assistant','system','tool') NOT NULL,
+	`content` mediumtext NOT NULL,
+	`toolCalls` mediumtext,
+	`toolCallId` varchar(128),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `conversation_messages_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `conversations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`telegramUserId` bigint NOT NULL,
+	`title` varchar(256),
+	`status` enum('active','archived') NOT NULL DEFAULT 'active',
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `conversations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `conversation_messages_conversation_idx` ON `conversation_messages` (`conversationId`);--> statement-breakpoint
+CREATE INDEX `conversations_user_idx` ON `conversations` (`telegramUserId`,`status`);
\ No newline at end of file
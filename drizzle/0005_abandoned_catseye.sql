@@ -0,0 +1,2 @@
+ALTER TABLE `conversations` ADD `isCurrent` boolean DEFAULT false NOT NULL;--> statement-breakpoint
+UPDATE `conversations` SET `isCurrent` = true WHERE `status` = 'active';
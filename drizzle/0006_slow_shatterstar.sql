@@ -0,0 +1,16 @@
+CREATE TABLE `article_revisions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`filename` varchar(512) NOT NULL,
+	`revision` int NOT NULL,
+	`title` varchar(512) NOT NULL,
+	`description` text,
+	`content` mediumtext,
+	`tags` text,
+	`categories` text,
+	`draft` boolean DEFAULT false,
+	`source` enum('create','edit','sync','rollback') NOT NULL,
+	`telegramUserId` bigint,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `article_revisions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `article_revisions_filename_revision_idx` UNIQUE(`filename`,`revision`)
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `articles` ADD `publishAt` timestamp;--> statement-breakpoint
+ALTER TABLE `articles` ADD `scheduledBy` bigint;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE `article_revisions` ADD `userId` int;--> statement-breakpoint
+ALTER TABLE `articles` ADD `scheduledByUserId` int;--> statement-breakpoint
+ALTER TABLE `conversations` MODIFY COLUMN `telegramUserId` bigint;--> statement-breakpoint
+ALTER TABLE `conversations` ADD `userId` int;--> statement-breakpoint
+CREATE INDEX `conversations_web_user_idx` ON `conversations` (`userId`,`status`);
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `telegram_users` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`telegramUserId` bigint NOT NULL,
+	`username` varchar(64),
+	`firstName` varchar(128),
+	`role` enum('viewer','author','editor','admin') NOT NULL DEFAULT 'viewer',
+	`grantedBy` bigint,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `telegram_users_id` PRIMARY KEY(`id`),
+	CONSTRAINT `telegram_users_telegramUserId_unique` UNIQUE(`telegramUserId`)
+);
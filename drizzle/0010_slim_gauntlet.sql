@@ -0,0 +1,16 @@
+CREATE TABLE `audit_events` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`telegramUserId` bigint,
+	`userId` int,
+	`tool` varchar(64) NOT NULL,
+	`args` text,
+	`outcome` enum('success','error','denied','rejected','cancelled') NOT NULL,
+	`result` text,
+	`latencyMs` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `audit_events_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `audit_events_created_idx` ON `audit_events` (`createdAt`);--> statement-breakpoint
+CREATE INDEX `audit_events_tool_idx` ON `audit_events` (`tool`,`createdAt`);--> statement-breakpoint
+CREATE INDEX `audit_events_telegram_user_idx` ON `audit_events` (`telegramUserId`,`createdAt`);
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE `ai_generations` MODIFY COLUMN `userId` int;--> statement-breakpoint
+ALTER TABLE `ai_generations` ADD `telegramUserId` bigint;--> statement-breakpoint
+ALTER TABLE `ai_generations` ADD `provider` varchar(64);--> statement-breakpoint
+ALTER TABLE `ai_generations` ADD `promptTokens` int;--> statement-breakpoint
+ALTER TABLE `ai_generations` ADD `completionTokens` int;--> statement-breakpoint
+CREATE INDEX `ai_generations_created_idx` ON `ai_generations` (`createdAt`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `telegram_users` ADD `dailyTokenLimit` int;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `article_chunks` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`filename` varchar(512) NOT NULL,
+	`chunkIndex` int NOT NULL,
+	`content` text NOT NULL,
+	`embedding` mediumtext NOT NULL,
+	`model` varchar(256) NOT NULL,
+	`contentHash` varchar(64) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `article_chunks_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `article_chunks_filename_idx` ON `article_chunks` (`filename`);
\ No newline at end of file
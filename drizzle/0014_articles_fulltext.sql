@@ -0,0 +1,2 @@
+-- drizzle-orm cannot declare FULLTEXT indexes, so this one lives only in migrations and init.sql
+CREATE FULLTEXT INDEX `articles_fulltext` ON `articles` (`title`,`description`,`content`);
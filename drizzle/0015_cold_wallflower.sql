@@ -0,0 +1,14 @@
+CREATE TABLE `article_sync_conflicts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`filename` varchar(512) NOT NULL,
+	`kind` enum('both_changed','deleted_remotely') NOT NULL,
+	`remote` mediumtext,
+	`remoteUpdatedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `article_sync_conflicts_id` PRIMARY KEY(`id`),
+	CONSTRAINT `article_sync_conflicts_filename_unique` UNIQUE(`filename`)
+);
+--> statement-breakpoint
+ALTER TABLE `articles` ADD `syncedHash` varchar(64);--> statement-breakpoint
+ALTER TABLE `articles` ADD `syncedRevision` int;--> statement-breakpoint
+ALTER TABLE `articles` ADD `remoteUpdatedAt` timestamp;
\ No newline at end of file
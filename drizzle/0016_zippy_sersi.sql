@@ -0,0 +1,22 @@
+CREATE TABLE `hugo_outbox` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`idempotencyKey` varchar(64) NOT NULL,
+	`operation` enum('create','edit','delete') NOT NULL,
+	`filename` varchar(512) NOT NULL,
+	`payload` mediumtext,
+	`revision` int,
+	`syncedHash` varchar(64),
+	`status` enum('pending','abandoned') NOT NULL DEFAULT 'pending',
+	`attempts` int NOT NULL DEFAULT 0,
+	`nextAttemptAt` timestamp NOT NULL DEFAULT (now()),
+	`lastError` text,
+	`requestedBy` bigint,
+	`requestedByUserId` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `hugo_outbox_id` PRIMARY KEY(`id`),
+	CONSTRAINT `hugo_outbox_idempotencyKey_unique` UNIQUE(`idempotencyKey`)
+);
+--> statement-breakpoint
+CREATE INDEX `hugo_outbox_status_idx` ON `hugo_outbox` (`status`,`nextAttemptAt`);--> statement-breakpoint
+CREATE INDEX `hugo_outbox_filename_idx` ON `hugo_outbox` (`filename`);
\ No newline at end of file
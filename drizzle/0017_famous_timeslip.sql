@@ -0,0 +1,21 @@
+CREATE TABLE `article_terms` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`articleId` int NOT NULL,
+	`termId` int NOT NULL,
+	`position` int NOT NULL DEFAULT 0,
+	CONSTRAINT `article_terms_id` PRIMARY KEY(`id`),
+	CONSTRAINT `article_terms_article_term_idx` UNIQUE(`articleId`,`termId`)
+);
+--> statement-breakpoint
+CREATE TABLE `taxonomy_terms` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`taxonomy` enum('tags','categories') NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `taxonomy_terms_id` PRIMARY KEY(`id`),
+	CONSTRAINT `taxonomy_terms_taxonomy_name_idx` UNIQUE(`taxonomy`,`name`)
+);
+--> statement-breakpoint
+ALTER TABLE `article_revisions` ADD `frontMatter` json;--> statement-breakpoint
+ALTER TABLE `articles` ADD `frontMatter` json;--> statement-breakpoint
+CREATE INDEX `article_terms_term_idx` ON `article_terms` (`termId`);
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean } from "drizzle-orm/mysql-core";
+import { int, bigint, index, uniqueIndex, json, mediumtext, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean } from "drizzle-orm/mysql-core";
 
 export const users = mysqlTable("users", {
   id: int("id").autoincrement().primaryKey(),
@@ -25,7 +25,11 @@ export const settings = mysqlTable("settings", {
 
 export type Setting = typeof settings.$inferSelect;
 
+/** Front matter keys besides the ones articles keep in columns (title, description, tags, categories, draft) */
+export type FrontMatter = Record<string, unknown>;
+
 // Local article cache / metadata
+// Also has FULLTEXT articles_fulltext (title, description, content) from migration 0014: drizzle cannot declare it
 export const articles = mysqlTable("articles", {
   id: int("id").autoincrement().primaryKey(),
   filename: varchar("filename", { length: 512 }).notNull().unique(),
@@ -36,9 +40,22 @@ export const articles = mysqlTable("articles", {
   tags: text("tags"),
   categories: text("categories"),
   draft: boolean("draft").default(false),
+  // date, author, series, aliases, weight, params… as Hugo has them; tags and categories are also
+  // kept one row per term in article_terms
+  frontMatter: json("frontMatter").$type<FrontMatter>(),
   hugoUrl: varchar("hugoUrl", { length: 1024 }),
   coverImage: varchar("coverImage", { length: 1024 }),
+  // Scheduled publication: the draft is published at publishAt and scheduledBy is notified;
+  // scheduledByUserId when a web user scheduled it
+  publishAt: timestamp("publishAt"),
+  scheduledBy: bigint("scheduledBy", { mode: "number" }),
+  scheduledByUserId: int("scheduledByUserId"),
   syncedAt: timestamp("syncedAt"),
+  // State both sides agreed on at the last sync (hugo-sync.ts): hash of the fields, its revision
+  // (the merge base) and Hugo's modification time. No hash: the article never reached Hugo
+  syncedHash: varchar("syncedHash", { length: 64 }),
+  syncedRevision: int("syncedRevision"),
+  remoteUpdatedAt: timestamp("remoteUpdatedAt"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -46,18 +63,209 @@ export const articles = mysqlTable("articles", {
 export type Article = typeof articles.$inferSelect;
 export type InsertArticle = typeof articles.$inferInsert;
 
-// AI generation history
+// Tags and categories, one row per distinct name
+export const taxonomyTerms = mysqlTable("taxonomy_terms", {
+  id: int("id").autoincrement().primaryKey(),
+  taxonomy: mysqlEnum("taxonomy", ["tags", "categories"]).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("taxonomy_terms_taxonomy_name_idx").on(table.taxonomy, table.name),
+]);
+
+export type TaxonomyTerm = typeof taxonomyTerms.$inferSelect;
+export type Taxonomy = TaxonomyTerm["taxonomy"];
+
+// Which terms an article has, in front matter order; rebuilt from tags/categories on every save
+export const articleTerms = mysqlTable("article_terms", {
+  id: int("id").autoincrement().primaryKey(),
+  articleId: int("articleId").notNull(),
+  termId: int("termId").notNull(),
+  position: int("position").default(0).notNull(),
+}, (table) => [
+  uniqueIndex("article_terms_article_term_idx").on(table.articleId, table.termId),
+  index("article_terms_term_idx").on(table.termId),
+]);
+
+// AI generation history: one row per LLM round-trip, with token usage for /usage
 export const aiGenerations = mysqlTable("ai_generations", {
   id: int("id").autoincrement().primaryKey(),
-  userId: int("userId").notNull(),
+  // Requested by a logged-in web user (users.id) or a Telegram user
+  userId: int("userId"),
+  telegramUserId: bigint("telegramUserId", { mode: "number" }),
   type: mysqlEnum("type", ["article_generate", "article_edit", "image_generate", "seo_optimize", "assistant", "chat"]).notNull(),
   prompt: text("prompt").notNull(),
   result: text("result"),
+  // "local" (OpenAI-compatible endpoint from settings) or "builtin"
+  provider: varchar("provider", { length: 64 }),
   model: varchar("model", { length: 256 }),
+  promptTokens: int("promptTokens"),
+  completionTokens: int("completionTokens"),
   tokensUsed: int("tokensUsed"),
   status: mysqlEnum("status", ["pending", "completed", "failed"]).default("pending").notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
-});
+}, (table) => [
+  index("ai_generations_created_idx").on(table.createdAt),
+]);
 
 export type AiGeneration = typeof aiGenerations.$inferSelect;
 export type InsertAiGeneration = typeof aiGenerations.$inferInsert;
+
+// Telegram conversation threads (persisted LLM context)
+export const conversations = mysqlTable("conversations", {
+  id: int("id").autoincrement().primaryKey(),
+  // Owner: a Telegram user or a logged-in web user (users.id), exactly one is set
+  telegramUserId: bigint("telegramUserId", { mode: "number" }),
+  userId: int("userId"),
+  title: varchar("title", { length: 256 }),
+  status: mysqlEnum("status", ["active", "archived"]).default("active").notNull(),
+  // The thread new messages go to; at most one per owner
+  isCurrent: boolean("isCurrent").default(false).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("conversations_user_idx").on(table.telegramUserId, table.status),
+  index("conversations_web_user_idx").on(table.userId, table.status),
+]);
+
+export type Conversation = typeof conversations.$inferSelect;
+export type InsertConversation = typeof conversations.$inferInsert;
+
+// Messages of a conversation, including assistant tool calls and tool results
+export const conversationMessages = mysqlTable("conversation_messages", {
+  id: int("id").autoincrement().primaryKey(),
+  conversationId: int("conversationId").notNull(),
+  role: mysqlEnum("role", ["user", "assistant", "system", "tool"]).notNull(),
+  content: mediumtext("content").notNull(),
+  toolCalls: mediumtext("toolCalls"),
+  toolCallId: varchar("toolCallId", { length: 128 }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("conversation_messages_conversation_idx").on(table.conversationId),
+]);
+
+export type ConversationMessage = typeof conversationMessages.$inferSelect;
+export type InsertConversationMessage = typeof conversationMessages.$inferInsert;
+
+// Snapshot of an article after every create/edit/sync/rollback
+export const articleRevisions = mysqlTable("article_revisions", {
+  id: int("id").autoincrement().primaryKey(),
+  filename: varchar("filename", { length: 512 }).notNull(),
+  revision: int("revision").notNull(),
+  title: varchar("title", { length: 512 }).notNull(),
+  description: text("description"),
+  content: mediumtext("content"),
+  tags: text("tags"),
+  categories: text("categories"),
+  draft: boolean("draft").default(false),
+  frontMatter: json("frontMatter").$type<FrontMatter>(),
+  source: mysqlEnum("source", ["create", "edit", "sync", "rollback"]).notNull(),
+  telegramUserId: bigint("telegramUserId", { mode: "number" }),
+  userId: int("userId"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("article_revisions_filename_revision_idx").on(table.filename, table.revision),
+]);
+
+export type ArticleRevision = typeof articleRevisions.$inferSelect;
+export type InsertArticleRevision = typeof articleRevisions.$inferInsert;
+
+// Articles changed on both sides since the last sync, waiting for keep local / keep remote / merge
+export const articleSyncConflicts = mysqlTable("article_sync_conflicts", {
+  id: int("id").autoincrement().primaryKey(),
+  filename: varchar("filename", { length: 512 }).notNull().unique(),
+  kind: mysqlEnum("kind", ["both_changed", "deleted_remotely"]).notNull(),
+  // The Hugo version as JSON (title, description, content, tags, categories, draft); null when deleted
+  remote: mediumtext("remote"),
+  remoteUpdatedAt: timestamp("remoteUpdatedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type ArticleSyncConflict = typeof articleSyncConflicts.$inferSelect;
+export type InsertArticleSyncConflict = typeof articleSyncConflicts.$inferInsert;
+
+// Outbox of Hugo writes (outbox.ts): each create/edit/delete is stored before it is sent and retried
+// with exponential backoff until Hugo accepts it or it is abandoned; accepted writes are deleted
+export const hugoOutbox = mysqlTable("hugo_outbox", {
+  id: int("id").autoincrement().primaryKey(),
+  // Sent as the Idempotency-Key header, so a retry of a write Hugo did apply is not applied twice
+  idempotencyKey: varchar("idempotencyKey", { length: 64 }).notNull().unique(),
+  operation: mysqlEnum("operation", ["create", "edit", "delete"]).notNull(),
+  filename: varchar("filename", { length: 512 }).notNull(),
+  // Request body as JSON; null for deletes
+  payload: mediumtext("payload"),
+  // The local revision the write carries and its sync hash: the sync state once Hugo has it
+  revision: int("revision"),
+  syncedHash: varchar("syncedHash", { length: 64 }),
+  status: mysqlEnum("status", ["pending", "abandoned"]).default("pending").notNull(),
+  attempts: int("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("nextAttemptAt").defaultNow().notNull(),
+  lastError: text("lastError"),
+  requestedBy: bigint("requestedBy", { mode: "number" }),
+  requestedByUserId: int("requestedByUserId"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("hugo_outbox_status_idx").on(table.status, table.nextAttemptAt),
+  index("hugo_outbox_filename_idx").on(table.filename),
+]);
+
+export type HugoOutboxEntry = typeof hugoOutbox.$inferSelect;
+export type InsertHugoOutboxEntry = typeof hugoOutbox.$inferInsert;
+
+// Telegram users allowed to use the bot: viewer reads, author drafts, editor publishes/deletes, admin manages settings and users
+export const telegramUsers = mysqlTable("telegram_users", {
+  id: int("id").autoincrement().primaryKey(),
+  telegramUserId: bigint("telegramUserId", { mode: "number" }).notNull().unique(),
+  username: varchar("username", { length: 64 }),
+  firstName: varchar("firstName", { length: 128 }),
+  role: mysqlEnum("role", ["viewer", "author", "editor", "admin"]).default("viewer").notNull(),
+  grantedBy: bigint("grantedBy", { mode: "number" }),
+  // Personal daily LLM token budget; null = the default from settings
+  dailyTokenLimit: int("dailyTokenLimit"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type TelegramUser = typeof telegramUsers.$inferSelect;
+export type InsertTelegramUser = typeof telegramUsers.$inferInsert;
+
+// Audit trail of tool calls and user management: who did what, with which (redacted) arguments and outcome
+export const auditEvents = mysqlTable("audit_events", {
+  id: int("id").autoincrement().primaryKey(),
+  // Actor: a Telegram user or a logged-in web user (users.id); both empty for background jobs
+  telegramUserId: bigint("telegramUserId", { mode: "number" }),
+  userId: int("userId"),
+  tool: varchar("tool", { length: 64 }).notNull(),
+  args: text("args"),
+  outcome: mysqlEnum("outcome", ["success", "error", "denied", "rejected", "cancelled"]).notNull(),
+  result: text("result"),
+  latencyMs: int("latencyMs").default(0).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("audit_events_created_idx").on(table.createdAt),
+  index("audit_events_tool_idx").on(table.tool, table.createdAt),
+  index("audit_events_telegram_user_idx").on(table.telegramUserId, table.createdAt),
+]);
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+
+// Retrieval index: article text split into chunks, one embedding vector (JSON array) per chunk
+export const articleChunks = mysqlTable("article_chunks", {
+  id: int("id").autoincrement().primaryKey(),
+  filename: varchar("filename", { length: 512 }).notNull(),
+  chunkIndex: int("chunkIndex").notNull(),
+  content: text("content").notNull(),
+  embedding: mediumtext("embedding").notNull(),
+  // Vectors from different models are not comparable; changing the model rebuilds the index
+  model: varchar("model", { length: 256 }).notNull(),
+  // sha256 of the indexed title and body, to skip unchanged articles
+  contentHash: varchar("contentHash", { length: 64 }).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("article_chunks_filename_idx").on(table.filename),
+]);
+
+export type ArticleChunk = typeof articleChunks.$inferSelect;
+export type InsertArticleChunk = typeof articleChunks.$inferInsert;
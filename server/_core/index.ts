@@ -8,6 +8,11 @@ import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
 import { startTelegramBot } from "../telegram-bot";
+import { setOutboxNotifier, startOutboxWorker } from "../outbox";
+import { notifyOwner } from "../agent";
+import { startArticleIndexWorker } from "../retrieval";
+import { backfillArticleTerms } from "../tools/helpers";
+import { setScheduleNotifier, startPublishScheduler } from "../tools/schedule";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -62,6 +67,20 @@ async function startServer() {
     console.log(`Server running on http://localhost:${port}/`);
   });
 
+  // Hugo writes that failed are retried and scheduled drafts published whether or not the bot runs
+  setOutboxNotifier(notifyOwner);
+  setScheduleNotifier(notifyOwner);
+  startOutboxWorker();
+  startPublishScheduler();
+
+  // Semantic search reads the article index; it is kept up to date in the background
+  startArticleIndexWorker();
+
+  // Tags and categories of articles cached before article_terms existed
+  backfillArticleTerms()
+    .then(count => { if (count > 0) console.log(`[Terms] Indexed tags and categories of ${count} articles`); })
+    .catch((err) => console.warn(`[Terms] Backfill failed: ${err.message}`));
+
   // Start Telegram bot (non-blocking)
   startTelegramBot().catch((err) => {
     console.warn(`[TG Bot] Failed to start: ${err.message}`);
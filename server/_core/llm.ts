@@ -66,6 +66,13 @@ export type InvokeParams = {
   output_schema?: OutputSchema;
   responseFormat?: ResponseFormat;
   response_format?: ResponseFormat;
+  stream?: boolean;
+  /** Called with the accumulated assistant text after each streamed chunk */
+  onText?: (text: string) => void;
+  /** Overrides the default model */
+  model?: string;
+  /** Aborts the request, including reading a streamed body */
+  signal?: AbortSignal;
 };
 
 export type ToolCall = {
@@ -110,6 +117,103 @@ export type ResponseFormat =
   | { type: "json_object" }
   | { type: "json_schema"; json_schema: JsonSchema };
 
+/**
+ * Reads an OpenAI-compatible `stream: true` SSE body and assembles it into a
+ * regular (non-streaming) completion result, merging content and tool call deltas.
+ */
+export async function readChatCompletionStream(
+  body: ReadableStream<Uint8Array>,
+  onText?: (text: string) => void
+): Promise<InvokeResult> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const toolCalls: ToolCall[] = [];
+  let buffer = "";
+  let content = "";
+  let id = "";
+  let model = "";
+  let created = Math.floor(Date.now() / 1000);
+  let finishReason: string | null = null;
+  let usage: InvokeResult["usage"];
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("data:")) return;
+    const data = trimmed.slice(5).trim();
+    if (!data || data === "[DONE]") return;
+
+    let chunk: any;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      return;
+    }
+    if (chunk.error) {
+      throw new Error(
+        `LLM stream error: ${chunk.error.message ?? JSON.stringify(chunk.error)}`
+      );
+    }
+
+    id = chunk.id ?? id;
+    model = chunk.model ?? model;
+    created = chunk.created ?? created;
+    if (chunk.usage) usage = chunk.usage;
+
+    const choice = chunk.choices?.[0];
+    if (!choice) return;
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+
+    const delta = choice.delta ?? {};
+    if (typeof delta.content === "string" && delta.content.length > 0) {
+      content += delta.content;
+      onText?.(content);
+    }
+    for (const part of delta.tool_calls ?? []) {
+      const index = part.index ?? toolCalls.length;
+      const call = (toolCalls[index] ??= {
+        id: "",
+        type: "function",
+        function: { name: "", arguments: "" },
+      });
+      if (part.id) call.id = part.id;
+      if (part.function?.name) call.function.name += part.function.name;
+      if (part.function?.arguments) {
+        call.function.arguments += part.function.arguments;
+      }
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(handleLine);
+  }
+  buffer += decoder.decode();
+  if (buffer) handleLine(buffer);
+
+  const calls = toolCalls.filter(Boolean);
+  return {
+    id,
+    created,
+    model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content,
+          ...(calls.length > 0 ? { tool_calls: calls } : {}),
+        },
+        finish_reason: finishReason,
+      },
+    ],
+    usage,
+  };
+}
+
 const ensureArray = (
   value: MessageContent | MessageContent[]
 ): MessageContent[] => (Array.isArray(value) ? value : [value]);
@@ -214,6 +318,8 @@ const resolveApiUrl = () =>
     ? `${ENV.forgeApiUrl.replace(/\/$/, "")}/v1/chat/completions`
     : "https://forge.manus.im/v1/chat/completions";
 
+const resolveEmbeddingsUrl = () => resolveApiUrl().replace(/\/chat\/completions$/, "/embeddings");
+
 const assertApiKey = () => {
   if (!ENV.forgeApiKey) {
     throw new Error("OPENAI_API_KEY is not configured");
@@ -277,10 +383,14 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     output_schema,
     responseFormat,
     response_format,
+    stream,
+    onText,
+    model,
+    signal,
   } = params;
 
   const payload: Record<string, unknown> = {
-    model: "gemini-2.5-flash",
+    model: model || "gemini-2.5-flash",
     messages: messages.map(normalizeMessage),
   };
 
@@ -312,6 +422,11 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     payload.response_format = normalizedResponseFormat;
   }
 
+  if (stream) {
+    payload.stream = true;
+    payload.stream_options = { include_usage: true };
+  }
+
   const response = await fetch(resolveApiUrl(), {
     method: "POST",
     headers: {
@@ -319,6 +434,7 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
       authorization: `Bearer ${ENV.forgeApiKey}`,
     },
     body: JSON.stringify(payload),
+    signal,
   });
 
   if (!response.ok) {
@@ -328,5 +444,39 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     );
   }
 
+  if (stream) {
+    if (!response.body) throw new Error("LLM invoke failed: empty stream body");
+    return readChatCompletionStream(response.body, onText);
+  }
+
   return (await response.json()) as InvokeResult;
 }
+
+/** Embedding vectors for `input`, in the same order */
+export async function invokeEmbeddings(params: {
+  input: string[];
+  model?: string;
+  signal?: AbortSignal;
+}): Promise<number[][]> {
+  assertApiKey();
+
+  const response = await fetch(resolveEmbeddingsUrl(), {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      authorization: `Bearer ${ENV.forgeApiKey}`,
+    },
+    body: JSON.stringify({ model: params.model || "text-embedding-3-small", input: params.input }),
+    signal: params.signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `Embeddings invoke failed: ${response.status} ${response.statusText} – ${errorText}`
+    );
+  }
+
+  const data = (await response.json()) as { data: Array<{ index: number; embedding: number[] }> };
+  return [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+}
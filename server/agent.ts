@@ -0,0 +1,399 @@
+import { nanoid } from "nanoid";
+import {
+  getCurrentConversation, createConversation, unsetCurrentConversation, archiveConversation,
+  getConversationMessages, addConversationMessages, sameOwner,
+  type ConversationOwner,
+} from "./db";
+import type { ConversationMessage } from "../drizzle/schema";
+import {
+  getTool, getLLMTools, parseToolArguments, checkToolCall, runTool, rejectToolCall, invokeTool,
+  type ToolContext, type ToolResult,
+} from "./tools";
+import { getOwnerRole, type Role } from "./permissions";
+import { recordAuditEvent } from "./audit";
+import { TokenBudgetExceededError } from "./budget";
+import { callLLM } from "./llm-tasks";
+import { sanitizeErrorForUser } from "./tools/helpers";
+import { formatScheduleTime, getScheduleTimeZone } from "./tools/schedule";
+
+// ─── Transport-agnostic agent: context, tool-calling loop, confirmations ───
+// Telegram (telegram-bot.ts) and the web chat (routers.ts) are thin adapters over this module
+
+const MAX_CONTEXT_MESSAGES = 20;
+const MAX_TOOL_ITERATIONS = 5;
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000; // 5 minutes to tap Confirm
+
+// ─── Per-owner conversation context (persisted in MySQL) ───
+export type ContextMessage = { role: string; content: string; tool_call_id?: string; tool_calls?: any[] };
+
+export interface UserContext {
+  conversationId: number | null;
+  messages: ContextMessage[];
+}
+
+// Keep the last `max` messages, starting at a user turn so no orphaned tool results reach the LLM
+export function trimContextMessages<T extends { role: string }>(messages: T[], max = MAX_CONTEXT_MESSAGES * 2): T[] {
+  const tail = messages.slice(-max);
+  const firstUser = tail.findIndex(m => m.role === "user");
+  return firstUser === -1 ? [] : tail.slice(firstUser);
+}
+
+function toContextMessage(row: ConversationMessage): ContextMessage {
+  const message: ContextMessage = { role: row.role, content: row.content };
+  if (row.toolCallId) message.tool_call_id = row.toolCallId;
+  if (row.toolCalls) {
+    try { message.tool_calls = JSON.parse(row.toolCalls); } catch { }
+  }
+  return message;
+}
+
+export async function getUserContext(owner: ConversationOwner): Promise<UserContext> {
+  const current = await getCurrentConversation(owner);
+  const conversationId = current?.id ?? await createConversation(owner);
+  if (!conversationId) return { conversationId: null, messages: [] };
+  const rows = await getConversationMessages(conversationId, MAX_CONTEXT_MESSAGES * 2);
+  return { conversationId, messages: trimContextMessages(rows.map(toContextMessage)) };
+}
+
+export async function saveContextMessages(context: UserContext, messages: ContextMessage[]) {
+  if (!context.conversationId) return;
+  try {
+    await addConversationMessages(context.conversationId, messages.map(m => ({
+      role: m.role as ConversationMessage["role"],
+      content: m.content,
+      toolCalls: m.tool_calls ? JSON.stringify(m.tool_calls) : null,
+      toolCallId: m.tool_call_id ?? null,
+    })));
+  } catch (error: any) {
+    console.warn(`[Agent] Failed to persist conversation ${context.conversationId}: ${error.message}`);
+  }
+}
+
+// Unnamed threads are discarded like the old single context; named ones stay available in /threads
+export async function clearUserContext(owner: ConversationOwner) {
+  const current = await getCurrentConversation(owner);
+  if (current && !current.title) await archiveConversation(owner, current.id);
+  else await unsetCurrentConversation(owner);
+}
+
+/** User and assistant text of the current thread, for clients that redraw the conversation */
+export async function getChatHistory(owner: ConversationOwner, limit = MAX_CONTEXT_MESSAGES * 2) {
+  const current = await getCurrentConversation(owner);
+  if (!current) return [];
+  const rows = await getConversationMessages(current.id, limit);
+  return rows
+    .filter(row => (row.role === "user" || row.role === "assistant") && !row.toolCalls && row.content)
+    .map(row => ({ role: row.role as "user" | "assistant", content: row.content }));
+}
+
+// ─── Notices from background work (Hugo writes delivered late, scheduled publications) ───
+type TelegramMessenger = (telegramUserId: number, text: string) => Promise<void>;
+
+let telegramMessenger: TelegramMessenger | null = null;
+
+/** The Telegram bot registers how its users are messaged outside a conversation turn */
+export function setTelegramMessenger(handler: TelegramMessenger | null) {
+  telegramMessenger = handler;
+}
+
+/** Telegram users get a message from the bot; web users find the notice in their current chat thread */
+export async function notifyOwner(owner: ConversationOwner, text: string) {
+  if ("telegramUserId" in owner) {
+    if (telegramMessenger) await telegramMessenger(owner.telegramUserId, text);
+    return;
+  }
+  const context = await getUserContext(owner);
+  await saveContextMessages(context, [{ role: "assistant", content: text }]);
+}
+
+// ─── Confirmation of destructive / outward-facing tools ───
+export interface PendingAction {
+  id: string;
+  owner: ConversationOwner;
+  tool: string;
+  args: Record<string, any>;
+  summary: string;
+  /** Thread the action was proposed in; its outcome is written there even if the user has switched threads */
+  conversationId: number | null;
+  expiresAt: number;
+}
+
+const pendingActions = new Map<string, PendingAction>();
+
+function toolContextFor(owner: ConversationOwner, role: Role, onProgress?: (text: string) => void): ToolContext {
+  const ctx: ToolContext = "telegramUserId" in owner ? { role, telegramUserId: owner.telegramUserId } : { role, userId: owner.userId };
+  return onProgress ? { ...ctx, onProgress } : ctx;
+}
+
+// Deleting, publishing and reconfiguring only run after the user taps Confirm
+export function requiresConfirmation(name: string, args: Record<string, any>): boolean {
+  return Boolean(getTool(name)?.confirm?.(args));
+}
+
+export function describeAction(name: string, args: Record<string, any>): string {
+  return getTool(name)?.confirm?.(args) ?? `Выполнить ${name}`;
+}
+
+export function createPendingAction(
+  owner: ConversationOwner,
+  tool: string,
+  args: Record<string, any>,
+  summary = describeAction(tool, args),
+  conversationId: number | null = null
+): PendingAction {
+  const action: PendingAction = {
+    id: nanoid(12),
+    owner,
+    tool,
+    args,
+    summary,
+    conversationId,
+    expiresAt: Date.now() + CONFIRMATION_TTL_MS,
+  };
+  pendingActions.set(action.id, action);
+  return action;
+}
+
+// Removes and returns the action if this owner may still confirm or cancel it
+export function takePendingAction(
+  id: string,
+  owner: ConversationOwner
+): { action: PendingAction } | { error: "not_found" | "expired" | "forbidden" } {
+  const action = pendingActions.get(id);
+  if (!action) return { error: "not_found" };
+  if (!sameOwner(action.owner, owner)) return { error: "forbidden" };
+  pendingActions.delete(id);
+  if (Date.now() > action.expiresAt) return { error: "expired" };
+  return { action };
+}
+
+/** Runs or cancels a taken action and tells the model how it ended; returns the outcome text */
+export async function completePendingAction(action: PendingAction, decision: "confirm" | "cancel"): Promise<string> {
+  let outcome = "❌ Действие отменено.";
+  if (decision === "cancel") {
+    await recordAuditEvent({ actor: action.owner, tool: action.tool, args: action.args, outcome: "cancelled" });
+  } else {
+    // The role is checked again: it may have been revoked while the card was waiting
+    const role = await getOwnerRole(action.owner);
+    if (role) {
+      outcome = (await runTool(action.tool, action.args, toolContextFor(action.owner, role))).result;
+    } else {
+      outcome = "⛔ У вас больше нет доступа.";
+      await recordAuditEvent({ actor: action.owner, tool: action.tool, args: action.args, outcome: "denied", result: outcome });
+    }
+  }
+  const context = action.conversationId
+    ? { conversationId: action.conversationId, messages: [] }
+    : await getUserContext(action.owner);
+  await saveContextMessages(context, [{ role: "assistant", content: `${action.summary}: ${outcome}` }]);
+  return outcome;
+}
+
+// Drops confirmations nobody tapped
+export function prunePendingActions(now = Date.now()) {
+  for (const [id, action] of Array.from(pendingActions.entries())) {
+    if (now > action.expiresAt) pendingActions.delete(id);
+  }
+}
+
+// ─── Tool execution engine ───
+/**
+ * Runs a call from the model or a command; one that needs confirmation returns a pending card instead.
+ * Commands pass no thread: their card belongs to the user's current one.
+ */
+export async function executeTool(
+  name: string,
+  rawArgs: unknown,
+  owner: ConversationOwner,
+  role: Role,
+  conversationId?: number | null,
+  onProgress?: (text: string) => void
+): Promise<ToolResult> {
+  const ctx = toolContextFor(owner, role, onProgress);
+  const call = await checkToolCall(name, rawArgs, ctx);
+  if ("rejected" in call) return call.rejected;
+  const { tool, args, target } = call;
+
+  const summary = tool.confirm?.(args, target);
+  if (summary) {
+    const thread = conversationId !== undefined ? conversationId : (await getCurrentConversation(owner))?.id ?? null;
+    const action = createPendingAction(owner, name, args, summary, thread);
+    return {
+      result: `⏳ Действие ожидает подтверждения пользователя кнопкой в чате: ${action.summary}. Не вызывай инструмент повторно, просто сообщи об этом.`,
+      metadata: { type: "confirmation", actionId: action.id, summary: action.summary },
+    };
+  }
+
+  return invokeTool(tool, args, ctx, target);
+}
+
+// ─── System prompt ───
+const SYSTEM_PROMPT = `Ты — AI-ассистент для управления Hugo-блогом через Telegram и веб-панель. Ты помогаешь пользователю управлять контентом.
+
+Твои возможности:
+1. Статьи: просмотр, создание, редактирование, удаление статей
+2. AI-генерация: написание полных статей по теме с учётом существующего контента
+3. AI-редактирование: улучшение, переписывание, расширение текста
+4. SEO-оптимизация и перевод: мета-описания, теги, заголовки (suggest_seo), перевод статей (translate_article)
+5. Изображения: поиск фото и AI-генерация уникальных изображений
+6. Настройки: конфигурация Hugo API, цепочки LLM-провайдеров и моделей по задачам (list_llm_providers, save_llm_provider, save_task_model)
+7. Расписание: отложенная публикация черновиков (schedule_article)
+
+Правила:
+- Отвечай на русском языке
+- Используй инструменты для действий, не придумывай данные
+- Если инструмент вернул JSON с полем error (invalid_json, invalid_arguments, unknown_tool), исправь аргументы по списку issues и вызови инструмент снова
+- При создании статей пиши качественный Markdown-контент
+- Удаление, публикация и изменение настроек пользователь подтверждает кнопкой в чате — не переспрашивай текстом
+- Если Hugo API не настроен, предложи настроить через save_settings
+- Будь кратким — это чат, длинные сообщения неудобны
+- Используй эмодзи для наглядности
+- Чтобы подобрать статьи для перелинковки или проверить, писали ли уже о теме, используй find_related_articles
+- Когда нужно написать статью, используй generate_article: он составит план для утверждения и напишет разделы по одному`;
+
+// ─── Process message through LLM with tool calling ───
+/** One agent turn, rendered by each transport (Telegram messages, web chat) */
+export interface AgentReply {
+  text: string;
+  images?: Array<{ url: string; caption?: string }>;
+  confirmations?: Array<{ id: string; summary: string }>;
+  /** Article outlines from generate_article waiting to be approved or revised */
+  outlines?: Array<{ id: string; text: string }>;
+  /** Hugo sync conflicts from sync_articles waiting for keep local / keep remote / merge */
+  syncConflicts?: Array<{ id: number; text: string }>;
+  toolResults?: Array<{ name: string; result: string; error?: boolean }>;
+  /** Provider and model that produced the final answer, e.g. "Ollama · llama3.1" */
+  provider?: string;
+  /** The turn failed; `text` holds the user-facing error */
+  error?: boolean;
+}
+
+export async function processMessage(
+  userMessage: string,
+  owner: ConversationOwner,
+  onText?: (text: string) => void
+): Promise<AgentReply> {
+  const userTurn: ContextMessage = { role: "user", content: userMessage };
+  // Messages produced by this turn, persisted once the turn completes
+  const turnMessages: ContextMessage[] = [userTurn];
+  // Loaded inside the try, so a DB error becomes an error reply like any other
+  let context: UserContext | undefined;
+
+  let toolResults: Array<{ name: string; result: string; metadata?: any }> = [];
+  let finalContent = "";
+  let iterations = 0;
+  let response: any;
+  const images: Array<{ url: string; caption?: string }> = [];
+  const confirmations: Array<{ id: string; summary: string }> = [];
+  const outlines: Array<{ id: string; text: string }> = [];
+  const syncConflicts: Array<{ id: number; text: string }> = [];
+
+  try {
+    const role = await getOwnerRole(owner);
+    if (!role) return { text: "⛔ У вас нет доступа к ассистенту.", error: true };
+
+    context = await getUserContext(owner);
+    const llmMessages: ContextMessage[] = [
+      { role: "system", content: `${SYSTEM_PROMPT}\n\nТекущее время: ${formatScheduleTime(new Date(), await getScheduleTimeZone())}` },
+      ...context.messages,
+      userTurn,
+    ];
+
+    while (iterations < MAX_TOOL_ITERATIONS) {
+      iterations++;
+      response = await callLLM(llmMessages, {
+        tools: getLLMTools(),
+        tool_choice: "auto",
+        onText,
+        owner,
+        task: "chat",
+      });
+
+      const choice = response.choices?.[0];
+      if (!choice) break;
+
+      const message = choice.message;
+
+      if (message.tool_calls && message.tool_calls.length > 0) {
+        const assistantTurn: ContextMessage = {
+          role: "assistant",
+          content: message.content || "",
+          tool_calls: message.tool_calls,
+        };
+        llmMessages.push(assistantTurn);
+        turnMessages.push(assistantTurn);
+
+        for (const toolCall of message.tool_calls) {
+          const fnName = toolCall.function.name;
+          const parsedArgs = parseToolArguments(fnName, toolCall.function.arguments);
+          const toolResult = "error" in parsedArgs
+            ? await rejectToolCall(parsedArgs.error, toolCall.function.arguments, toolContextFor(owner, role))
+            : await executeTool(fnName, parsedArgs.args, owner, role, context.conversationId, onText);
+          toolResults.push({ name: fnName, ...toolResult });
+
+          if (toolResult.metadata?.type === "tool_error") {
+            // The error goes back as the tool message so the model can fix its call on the next iteration
+            console.warn(`[Agent] Rejected tool call ${fnName}: ${toolResult.result}`);
+          }
+
+          if (toolResult.metadata?.type === "images" && toolResult.metadata.images) {
+            for (const img of toolResult.metadata.images.slice(0, 4)) {
+              images.push({ url: img.url || img.thumb, caption: img.description });
+            }
+          }
+          if (toolResult.metadata?.type === "generated_image" && toolResult.metadata.url) {
+            images.push({ url: toolResult.metadata.url, caption: toolResult.metadata.prompt });
+          }
+          if (toolResult.metadata?.type === "confirmation") {
+            confirmations.push({ id: toolResult.metadata.actionId, summary: toolResult.metadata.summary });
+          }
+          if (toolResult.metadata?.type === "outline") {
+            outlines.push({ id: toolResult.metadata.outlineId, text: toolResult.metadata.text });
+          }
+          if (toolResult.metadata?.type === "sync_report") {
+            syncConflicts.push(...toolResult.metadata.conflicts);
+          }
+
+          const toolTurn: ContextMessage = {
+            role: "tool",
+            content: toolResult.result,
+            tool_call_id: toolCall.id,
+          };
+          llmMessages.push(toolTurn);
+          turnMessages.push(toolTurn);
+        }
+        continue;
+      }
+
+      finalContent = message.content || "";
+      break;
+    }
+
+    if (!finalContent && response?.choices?.[0]?.message?.content) {
+      finalContent = response.choices[0].message.content;
+    }
+
+    if (!finalContent) {
+      const shown = toolResults.filter(r => r.metadata?.type !== "tool_error");
+      finalContent = shown.length > 0
+        ? shown.map(r => r.result).join("\n\n")
+        : "Не удалось получить ответ. Попробуйте ещё раз.";
+    }
+
+    turnMessages.push({ role: "assistant", content: finalContent });
+    await saveContextMessages(context, turnMessages);
+
+    return {
+      text: finalContent, images, confirmations, outlines, syncConflicts, provider: response?.servedBy,
+      toolResults: toolResults.map(r => ({ name: r.name, result: r.result, error: r.metadata?.type === "tool_error" || undefined })),
+    };
+  } catch (error: any) {
+    const errorMsg = error instanceof TokenBudgetExceededError ? error.message : `❌ Ошибка AI: ${sanitizeErrorForUser(error)}`;
+    // Drop partial tool exchanges: an assistant tool_calls message without all its results breaks the next request
+    if (context) {
+      await saveContextMessages(context, [userTurn, { role: "assistant", content: errorMsg }])
+        .catch((e: any) => console.warn(`[Agent] Failed to save the failed turn: ${e.message}`));
+    }
+    return { text: errorMsg, error: true };
+  }
+}
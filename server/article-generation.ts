@@ -0,0 +1,175 @@
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import { sameOwner, type ConversationOwner } from "./db";
+import { completeTask, parseJsonReply } from "./llm-tasks";
+import { uniqueArticleFilename } from "./articles";
+import { saveArticle } from "./tools/helpers";
+import { relatedArticlesContext } from "./retrieval";
+
+// ─── Article generation: outline first, approved by the user, then one LLM call per section ───
+export const OUTLINE_TTL_MS = 60 * 60_000; // an hour to review the outline
+const PREVIOUS_TEXT_CONTEXT_LENGTH = 1500;
+
+export const articleOutlineSchema = z.object({
+  title: z.string().min(1).max(200),
+  description: z.string().min(1).max(500),
+  tags: z.array(z.string().min(1).max(50)).max(10),
+  categories: z.array(z.string().min(1).max(50)).max(5),
+  sections: z.array(z.object({
+    heading: z.string().min(1).max(200),
+    points: z.array(z.string().min(1).max(300)).max(8),
+  })).min(2).max(12),
+});
+
+export type ArticleOutline = z.infer<typeof articleOutlineSchema>;
+
+export interface OutlineDraft {
+  id: string;
+  owner: ConversationOwner;
+  topic: string;
+  instructions?: string;
+  outline: ArticleOutline;
+  expiresAt: number;
+}
+
+const OUTLINE_FORMAT = '{"title": "заголовок", "description": "мета-описание до 160 символов", "tags": ["теги"], ' +
+  '"categories": ["категории"], "sections": [{"heading": "заголовок раздела", "points": ["о чём раздел"]}]}';
+
+function outlineSystemPrompt(sections?: number): string {
+  return "Ты редактор технического блога на Hugo. Составь план статьи. Ответь только JSON без пояснений в формате: " +
+    `${OUTLINE_FORMAT}. ${sections ? `Ровно ${sections} разделов.` : "От 3 до 8 разделов."} Пиши на языке темы.`;
+}
+
+export function formatOutline(outline: ArticleOutline): string {
+  const sections = outline.sections.map((section, i) =>
+    [`${i + 1}. ${section.heading}`, ...section.points.map(point => `   • ${point}`)].join("\n")
+  );
+  return [
+    `📝 ${outline.title}`,
+    `${outline.description}`,
+    "",
+    ...sections,
+    "",
+    `Теги: ${outline.tags.join(", ") || "нет"}`,
+    `Категории: ${outline.categories.join(", ") || "нет"}`,
+  ].join("\n");
+}
+
+export async function generateOutline(
+  topic: string,
+  options: { instructions?: string; sections?: number },
+  owner?: ConversationOwner
+): Promise<ArticleOutline> {
+  const related = await relatedArticlesContext(topic);
+  const reply = await completeTask("article", [
+    { role: "system", content: outlineSystemPrompt(options.sections) },
+    {
+      role: "user",
+      content: `Тема: ${topic}${options.instructions ? `\nПожелания: ${options.instructions}` : ""}` +
+        (related ? `\n\n${related}\n\nНе повторяй уже написанное в этих статьях.` : ""),
+    },
+  ], owner);
+  return articleOutlineSchema.parse(parseJsonReply(reply));
+}
+
+export async function reviseOutline(draft: OutlineDraft, feedback: string): Promise<ArticleOutline> {
+  const reply = await completeTask("article", [
+    { role: "system", content: outlineSystemPrompt() },
+    { role: "user", content: `Тема: ${draft.topic}${draft.instructions ? `\nПожелания: ${draft.instructions}` : ""}` },
+    { role: "assistant", content: JSON.stringify(draft.outline) },
+    { role: "user", content: `Исправь план: ${feedback}` },
+  ], draft.owner);
+  return articleOutlineSchema.parse(parseJsonReply(reply));
+}
+
+// ─── Outlines waiting for approval (in memory, like pending confirmations) ───
+const outlineDrafts = new Map<string, OutlineDraft>();
+
+export function saveOutlineDraft(
+  owner: ConversationOwner,
+  topic: string,
+  outline: ArticleOutline,
+  instructions?: string,
+  id = nanoid(12)
+): OutlineDraft {
+  const draft: OutlineDraft = { id, owner, topic, instructions, outline, expiresAt: Date.now() + OUTLINE_TTL_MS };
+  outlineDrafts.set(id, draft);
+  return draft;
+}
+
+export function getOutlineDraft(
+  id: string,
+  owner: ConversationOwner
+): { draft: OutlineDraft } | { error: "not_found" | "forbidden" } {
+  const draft = outlineDrafts.get(id);
+  if (!draft || Date.now() > draft.expiresAt) return { error: "not_found" };
+  if (!sameOwner(draft.owner, owner)) return { error: "forbidden" };
+  return { draft };
+}
+
+export function discardOutlineDraft(id: string) {
+  outlineDrafts.delete(id);
+}
+
+export function pruneOutlineDrafts(now = Date.now()) {
+  for (const [id, draft] of Array.from(outlineDrafts.entries())) {
+    if (now > draft.expiresAt) outlineDrafts.delete(id);
+  }
+}
+
+// ─── Writing ───
+/** Models tend to repeat the section heading; the assembler adds its own. ### subheadings stay */
+export function stripLeadingHeading(text: string, heading: string): string {
+  const firstLine = text.split("\n", 1)[0];
+  const plain = firstLine.replace(/^#+\s*/, "").replace(/[*_]/g, "").trim().toLowerCase();
+  return /^#{1,2}\s/.test(firstLine) || plain === heading.trim().toLowerCase()
+    ? text.slice(firstLine.length).trimStart()
+    : text;
+}
+
+export function assembleArticle(outline: ArticleOutline, sectionTexts: string[]): string {
+  return outline.sections.map((section, i) => `## ${section.heading}\n\n${sectionTexts[i].trim()}`).join("\n\n") + "\n";
+}
+
+/**
+ * Writes every section in its own call, with the plan, the end of the text so far and the closest
+ * passages from published posts as context, then saves the article as a local draft.
+ */
+export async function writeArticle(
+  draft: OutlineDraft,
+  onSection?: (index: number, total: number, heading: string) => Promise<void> | void
+): Promise<{ filename: string; content: string }> {
+  const { outline } = draft;
+  const plan = outline.sections.map((s, i) => `${i + 1}. ${s.heading}`).join("\n");
+  const sectionTexts: string[] = [];
+  for (let i = 0; i < outline.sections.length; i++) {
+    const section = outline.sections[i];
+    await onSection?.(i, outline.sections.length, section.heading);
+    const previous = sectionTexts.join("\n\n").slice(-PREVIOUS_TEXT_CONTEXT_LENGTH);
+    const related = await relatedArticlesContext(`${outline.title}. ${section.heading}. ${section.points.join(". ")}`);
+    const text = await completeTask("article", [
+      {
+        role: "system",
+        content: "Ты автор технического блога. Пиши один раздел статьи в Markdown: без заголовка раздела, " +
+          "без вступления ко всей статье и без заключения, если это не последний раздел. Подзаголовки — ### и ниже." +
+          (draft.instructions ? ` Пожелания автора: ${draft.instructions}` : ""),
+      },
+      {
+        role: "user",
+        content: `Статья: ${outline.title}\nПлан:\n${plan}\n\n` +
+          (previous ? `Конец уже написанного текста:\n${previous}\n\n` : "") +
+          (related ? `${related}\n\n` : "") +
+          `Напиши раздел ${i + 1} «${section.heading}»${section.points.length > 0 ? `:\n${section.points.map(p => `- ${p}`).join("\n")}` : "."}`,
+      },
+    ], draft.owner);
+    sectionTexts.push(stripLeadingHeading(text, section.heading));
+  }
+
+  const content = assembleArticle(outline, sectionTexts);
+  const filename = await uniqueArticleFilename(outline.title);
+  await saveArticle({
+    filename, title: outline.title, description: outline.description, content,
+    tags: outline.tags.join(", "), categories: outline.categories.join(", "), draft: true,
+  }, "create", draft.owner);
+  return { filename, content };
+}
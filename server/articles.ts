@@ -0,0 +1,108 @@
+import type { FrontMatter } from "../drizzle/schema";
+import { getArticleByFilename, getArticleRevisions, type ConversationOwner } from "./db";
+import { sendHugoWrite, type HugoWriteResult } from "./outbox";
+import { requestArticleIndexRefresh } from "./retrieval";
+import { FrontMatterValidationError, getSiteSchema, validateFrontMatter } from "./site-schema";
+import { restoreArticle, saveArticle, type RevisionSource } from "./tools/helpers";
+
+// ─── Article operations shared by the Telegram tools and the web dashboard ───
+
+export interface ArticleInput {
+  title: string;
+  content: string;
+  description?: string;
+  tags?: string;
+  categories?: string;
+  draft?: boolean;
+  /** Every other front matter key; replaces the whole map when set */
+  frontMatter?: FrontMatter;
+}
+
+export type ArticlePatch = Partial<ArticleInput>;
+
+/** Local filename for posts Hugo has not named */
+export function slugifyTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-zа-яё0-9]+/gi, "-").replace(/-+/g, "-");
+}
+
+/** A filename no other article uses yet */
+export async function uniqueArticleFilename(title: string): Promise<string> {
+  const base = slugifyTitle(title).replace(/^-|-$/g, "") || "article";
+  let filename = base;
+  for (let n = 2; await getArticleByFilename(filename); n++) filename = `${base}-${n}`;
+  return filename;
+}
+
+/**
+ * `queued`: Hugo could not be reached, the outbox keeps retrying; `hugoError` says why the
+ * write has not reached Hugo yet
+ */
+export type ArticleWriteResult = { filename: string; hugoError?: string; queued?: boolean };
+
+function writeResult(result: HugoWriteResult): ArticleWriteResult {
+  if (result.status === "done") return { filename: result.filename };
+  return { filename: result.filename, hugoError: result.error, queued: result.status === "pending" };
+}
+
+/** Throws FrontMatterValidationError when the front matter map does not fit the site schema */
+export async function checkFrontMatter(frontMatter: FrontMatter | undefined) {
+  if (!frontMatter) return;
+  const errors = validateFrontMatter(frontMatter, await getSiteSchema());
+  if (errors.length > 0) throw new FrontMatterValidationError(errors);
+}
+
+/**
+ * Saves the article and sends it to Hugo, which may rename it. If Hugo refuses it the article
+ * stays a local copy that the next sync uploads.
+ */
+export async function createArticle(input: ArticleInput, owner?: ConversationOwner): Promise<ArticleWriteResult> {
+  await checkFrontMatter(input.frontMatter);
+  const filename = await uniqueArticleFilename(input.title);
+  const revision = await saveArticle({ filename, ...input, draft: input.draft ?? false }, "create", owner);
+  requestArticleIndexRefresh();
+  return writeResult(await sendHugoWrite({ operation: "create", filename, body: input, revision }, owner));
+}
+
+/**
+ * Merges the changed fields into the cached copy and sends them to Hugo. When Hugo refuses them the
+ * cached copy and its history go back to how they were, and the error is thrown.
+ */
+export async function updateArticle(
+  filename: string,
+  patch: ArticlePatch,
+  owner?: ConversationOwner,
+  source: RevisionSource = "edit"
+): Promise<ArticleWriteResult> {
+  await checkFrontMatter(patch.frontMatter);
+  const existing = await getArticleByFilename(filename);
+  let revision: number | null = null;
+  let previousRevision: number | null = null;
+  if (existing) {
+    previousRevision = (await getArticleRevisions(filename, 1))[0]?.revision ?? null;
+    revision = await saveArticle({
+      filename, title: patch.title ?? existing.title,
+      description: patch.description ?? existing.description ?? undefined,
+      content: patch.content ?? existing.content ?? undefined,
+      tags: patch.tags ?? existing.tags ?? undefined,
+      categories: patch.categories ?? existing.categories ?? undefined,
+      draft: patch.draft ?? existing.draft ?? false,
+      frontMatter: patch.frontMatter ?? existing.frontMatter ?? undefined,
+    }, source, owner);
+  }
+  const result = await sendHugoWrite({ operation: "edit", filename, body: patch, revision }, owner);
+  if (result.status === "abandoned") {
+    // Otherwise the next sync would take the refused content for a local change and send it again
+    if (existing) await restoreArticle(existing, revision !== previousRevision ? revision : null);
+    throw new Error(result.error);
+  }
+  requestArticleIndexRefresh();
+  return writeResult(result);
+}
+
+/** The local copy goes once Hugo has deleted the post; throws when Hugo refuses */
+export async function removeArticle(filename: string, owner?: ConversationOwner): Promise<ArticleWriteResult> {
+  const result = await sendHugoWrite({ operation: "delete", filename }, owner);
+  if (result.status === "abandoned") throw new Error(result.error);
+  requestArticleIndexRefresh();
+  return writeResult(result);
+}
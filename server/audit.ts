@@ -0,0 +1,84 @@
+import type { AuditEvent } from "../drizzle/schema";
+import { insertAuditEvent } from "./db";
+
+// ─── Audit log: who ran which tool, with what arguments and outcome ───
+export type AuditOutcome = AuditEvent["outcome"];
+
+/** A Telegram user or a logged-in web user (users.id); neither for background jobs */
+export type AuditActor = { telegramUserId?: number; userId?: number };
+
+const MAX_ARG_LENGTH = 200;
+const MAX_RESULT_LENGTH = 500;
+const SECRET_KEY_PATTERN = /key|token|secret|password/i;
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}… (${text.length} симв.)` : text;
+}
+
+function sanitizeValue(key: string, value: unknown): unknown {
+  if (SECRET_KEY_PATTERN.test(key)) return "[скрыто]";
+  if (typeof value === "string") return truncate(value, MAX_ARG_LENGTH);
+  if (Array.isArray(value)) return value.map(item => sanitizeValue(key, item));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, sanitizeValue(k, v)]));
+  }
+  return value;
+}
+
+/** Arguments as stored in the log: secrets redacted, article bodies shortened */
+export function sanitizeAuditArgs(args: unknown): string | null {
+  if (args === undefined || args === null) return null;
+  try {
+    return JSON.stringify(sanitizeValue("", args));
+  } catch {
+    return null;
+  }
+}
+
+/** Tools report failures as text starting with ❌ rather than throwing */
+export function outcomeOfResult(result: string): AuditOutcome {
+  return result.startsWith("❌") ? "error" : "success";
+}
+
+// Losing an audit row must never break the action being audited
+export async function recordAuditEvent(event: {
+  actor: AuditActor;
+  tool: string;
+  args?: unknown;
+  outcome: AuditOutcome;
+  result?: string;
+  latencyMs?: number;
+}) {
+  try {
+    await insertAuditEvent({
+      telegramUserId: event.actor.telegramUserId ?? null,
+      userId: event.actor.userId ?? null,
+      tool: event.tool,
+      args: sanitizeAuditArgs(event.args),
+      outcome: event.outcome,
+      result: event.result ? truncate(event.result, MAX_RESULT_LENGTH) : null,
+      latencyMs: event.latencyMs ?? 0,
+    });
+  } catch (e: any) {
+    console.warn(`[Audit] Failed to record ${event.tool}: ${e.message}`);
+  }
+}
+
+/** Runs an action and records its outcome and latency; thrown errors are recorded and rethrown */
+export async function audited<T>(
+  actor: AuditActor,
+  tool: string,
+  args: unknown,
+  run: () => Promise<T>,
+  describe: (value: T) => { outcome: AuditOutcome; result?: string } = () => ({ outcome: "success" })
+): Promise<T> {
+  const startedAt = Date.now();
+  try {
+    const value = await run();
+    await recordAuditEvent({ actor, tool, args, ...describe(value), latencyMs: Date.now() - startedAt });
+    return value;
+  } catch (e: any) {
+    await recordAuditEvent({ actor, tool, args, outcome: "error", result: e?.message ?? String(e), latencyMs: Date.now() - startedAt });
+    throw e;
+  }
+}
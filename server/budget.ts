@@ -0,0 +1,99 @@
+import { getSetting, getTelegramUser, sumAiTokensSince, type ConversationOwner } from "./db";
+import { getScheduleTimeZone } from "./tools/schedule";
+import { usagePeriodStart } from "./usage";
+
+// ─── Daily LLM token budgets: global and per Telegram user ───
+export const GLOBAL_BUDGET_SETTING = "budget_daily_tokens";
+export const USER_BUDGET_SETTING = "budget_user_daily_tokens";
+/** Admins are told once a day when a budget passes this share */
+export const BUDGET_ALERT_THRESHOLD = 0.8;
+
+export type BudgetScope = "global" | "user";
+
+export type BudgetStatus = { scope: BudgetScope; used: number; limit: number; telegramUserId?: number };
+
+export class TokenBudgetExceededError extends Error {
+  constructor(public status: BudgetStatus) {
+    super(status.scope === "user"
+      ? `⛔ Ваш дневной лимит токенов исчерпан (${formatTokens(status.used)} из ${formatTokens(status.limit)}). Он обновится в полночь.`
+      : `⛔ Общий дневной лимит токенов исчерпан (${formatTokens(status.used)} из ${formatTokens(status.limit)}). Попробуйте завтра или попросите администратора увеличить лимит.`);
+    this.name = "TokenBudgetExceededError";
+  }
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens.toLocaleString("ru-RU");
+}
+
+/** Positive integer limit; empty, 0 or garbage means "no limit" */
+export function parseTokenLimit(value: string | null | undefined): number | null {
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit > 0 ? limit : null;
+}
+
+/** A personal limit overrides the default: null = use the default, 0 = unlimited */
+export async function getUserTokenLimit(telegramUserId: number): Promise<number | null> {
+  const personal = (await getTelegramUser(telegramUserId))?.dailyTokenLimit;
+  if (personal !== null && personal !== undefined) return personal > 0 ? personal : null;
+  return parseTokenLimit(await getSetting(USER_BUDGET_SETTING));
+}
+
+/** Usage against every budget that applies to this owner; web users only count towards the global one */
+export async function getBudgetStatus(owner?: ConversationOwner): Promise<BudgetStatus[]> {
+  const since = usagePeriodStart("day", await getScheduleTimeZone());
+  const statuses: BudgetStatus[] = [];
+  const globalLimit = parseTokenLimit(await getSetting(GLOBAL_BUDGET_SETTING));
+  if (globalLimit) statuses.push({ scope: "global", used: await sumAiTokensSince(since), limit: globalLimit });
+  if (owner && "telegramUserId" in owner) {
+    const userLimit = await getUserTokenLimit(owner.telegramUserId);
+    if (userLimit) {
+      const used = await sumAiTokensSince(since, owner.telegramUserId);
+      statuses.push({ scope: "user", used, limit: userLimit, telegramUserId: owner.telegramUserId });
+    }
+  }
+  return statuses;
+}
+
+/** Called before every LLM request */
+export async function assertWithinBudget(owner?: ConversationOwner) {
+  const exceeded = (await getBudgetStatus(owner)).find(status => status.used >= status.limit);
+  if (exceeded) throw new TokenBudgetExceededError(exceeded);
+}
+
+// ─── 80% alerts ───
+type BudgetAlertHandler = (text: string) => Promise<void>;
+
+let alertHandler: BudgetAlertHandler | null = null;
+// scope key -> start of the day it was reported for
+const alertedScopes = new Map<string, number>();
+
+/** The Telegram bot registers how admins are notified */
+export function setBudgetAlertHandler(handler: BudgetAlertHandler | null) {
+  alertHandler = handler;
+}
+
+export function budgetAlertText(status: BudgetStatus): string {
+  const percent = Math.floor((status.used / status.limit) * 100);
+  const who = status.scope === "global"
+    ? "Общий дневной лимит токенов"
+    : `Дневной лимит токенов пользователя ${status.telegramUserId}`;
+  return `⚠️ ${who} израсходован на ${percent}%: ${formatTokens(status.used)} из ${formatTokens(status.limit)}.`;
+}
+
+/** Called after every LLM response; never throws */
+export async function checkBudgetAlerts(owner?: ConversationOwner) {
+  try {
+    const dayStart = usagePeriodStart("day", await getScheduleTimeZone()).getTime();
+    for (const status of await getBudgetStatus(owner)) {
+      if (status.used < status.limit * BUDGET_ALERT_THRESHOLD) continue;
+      const key = status.scope === "global" ? "global" : `user:${status.telegramUserId}`;
+      if (alertedScopes.get(key) === dayStart) continue;
+      alertedScopes.set(key, dayStart);
+      const text = budgetAlertText(status);
+      console.warn(`[Budget] ${text}`);
+      await alertHandler?.(text);
+    }
+  } catch (e: any) {
+    console.warn(`[Budget] Failed to check budget alerts: ${e.message}`);
+  }
+}
@@ -0,0 +1,53 @@
+import type { ArticleInput, ArticlePatch } from "./articles";
+import { getSetting, getTelegramUser, getUserById, type ConversationOwner } from "./db";
+import { getGitContentBackend } from "./git-content";
+import { getHugoClient, type HugoCreatedPost, type HugoPost } from "./hugo-api";
+
+// ─── Where Hugo posts live ───
+// "rest": the Hugo admin API; "git": Markdown files in a checkout of the site repository.
+export const CONTENT_BACKEND_SETTING = "content_backend";
+export const CONTENT_BACKENDS = ["rest", "git"] as const;
+export type ContentBackendType = (typeof CONTENT_BACKENDS)[number];
+
+/** Who a write is made for; git records it as the commit author */
+export type ContentAuthor = { name: string; email: string };
+
+/** `idempotencyKey` stays the same for every retry of one write */
+export type ContentWrite = { idempotencyKey?: string; author?: ContentAuthor };
+
+export interface ContentBackend {
+  createPost(input: ArticleInput, write?: ContentWrite): Promise<HugoCreatedPost>;
+  updatePost(filename: string, patch: ArticlePatch, write?: ContentWrite): Promise<void>;
+  /** A post that is already gone counts as deleted */
+  deletePost(filename: string, write?: ContentWrite): Promise<void>;
+  listPosts(): Promise<HugoPost[]>;
+}
+
+/** The backend turned the write down for good; sending it again will not help */
+export class ContentRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ContentRejectedError";
+  }
+}
+
+export async function getContentBackendType(): Promise<ContentBackendType> {
+  return await getSetting(CONTENT_BACKEND_SETTING) === "git" ? "git" : "rest";
+}
+
+/** The backend chosen in settings */
+export async function getContentBackend(): Promise<ContentBackend> {
+  return await getContentBackendType() === "git" ? getGitContentBackend() : getHugoClient();
+}
+
+/** Commit author for a Telegram or web user; a made-up address only has to be unique, nobody writes to it */
+export async function contentAuthorFor(owner: ConversationOwner | undefined): Promise<ContentAuthor | undefined> {
+  if (!owner) return undefined;
+  if ("userId" in owner) {
+    const user = await getUserById(owner.userId);
+    return { name: user?.name || `Web ${owner.userId}`, email: user?.email || `${owner.userId}@web.invalid` };
+  }
+  const user = await getTelegramUser(owner.telegramUserId);
+  const name = user?.firstName || user?.username || `Telegram ${owner.telegramUserId}`;
+  return { name, email: `${owner.telegramUserId}@telegram.invalid` };
+}
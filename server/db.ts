@@ -1,10 +1,13 @@
-import { eq, desc, sql, like, and, or } from "drizzle-orm";
+import { eq, desc, asc, sql, like, and, or, lte, gte, isNotNull, inArray } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import {
-  InsertUser, users, settings, articles, aiGenerations,
-  type InsertArticle, type InsertAiGeneration,
+  InsertUser, users, settings, articles, aiGenerations, conversations, conversationMessages, articleRevisions, telegramUsers,
+  auditEvents, articleChunks, articleSyncConflicts, hugoOutbox, taxonomyTerms, articleTerms, type Taxonomy, type InsertArticle, type InsertAiGeneration, type InsertConversationMessage, type InsertArticleRevision,
+  type InsertTelegramUser, type InsertAuditEvent, type InsertArticleChunk, type InsertArticleSyncConflict,
+  type InsertHugoOutboxEntry, type HugoOutboxEntry,
 } from "../drizzle/schema";
 import { ENV } from './_core/env';
+import { stableJson } from "./front-matter";
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
@@ -50,6 +53,13 @@ export async function upsertUser(user: InsertUser): Promise<void> {
   }
 }
 
+export async function getUserById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
 export async function getUserByOpenId(openId: string) {
   const db = await getDb();
   if (!db) return undefined;
@@ -81,24 +91,78 @@ export async function getAllSettings(): Promise<Record<string, string>> {
 }
 
 // ─── Article helpers ───
-export async function getArticles(opts?: { search?: string; tag?: string; limit?: number; offset?: number }) {
+export type ArticleFilters = { category?: string; draft?: boolean; from?: Date; to?: Date };
+
+// Characters with a meaning in MySQL boolean full-text syntax
+const FULLTEXT_OPERATORS = /[+\-<>()~*"@\\]/g;
+
+/** Boolean-mode query: quoted phrases stay phrases, every other word matches as a prefix */
+export function fulltextBooleanQuery(search: string): string {
+  const parts: string[] = [];
+  const phrasePattern = /"([^"]+)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = phrasePattern.exec(search))) {
+    const phrase = match[1].replace(FULLTEXT_OPERATORS, " ").replace(/\s+/g, " ").trim();
+    if (phrase) parts.push(`"${phrase}"`);
+  }
+  for (const word of search.replace(phrasePattern, " ").split(/\s+/)) {
+    const term = word.replace(FULLTEXT_OPERATORS, "");
+    if (term) parts.push(`${term}*`);
+  }
+  return parts.join(" ");
+}
+
+// Articles with a term whose name contains the (LIKE-escaped) pattern
+function articleIdsWithTerm(db: NonNullable<Awaited<ReturnType<typeof getDb>>>, taxonomy: Taxonomy, pattern: string) {
+  return db.select({ id: articleTerms.articleId }).from(articleTerms)
+    .innerJoin(taxonomyTerms, eq(taxonomyTerms.id, articleTerms.termId))
+    .where(and(eq(taxonomyTerms.taxonomy, taxonomy), like(taxonomyTerms.name, `%${pattern}%`)));
+}
+
+// Search strings arrive LIKE-escaped (escapeLikePattern); the full-text query drops the backslashes
+export async function getArticles(opts?: ArticleFilters & { search?: string; tag?: string; limit?: number; offset?: number }) {
   const db = await getDb();
   if (!db) return { items: [], total: 0 };
   const conditions = [];
+  const fulltextQuery = opts?.search ? fulltextBooleanQuery(opts.search) : "";
+  // Uses the articles_fulltext index (migration 0014)
+  const relevance = fulltextQuery
+    ? sql<number>`MATCH(${articles.title}, ${articles.description}, ${articles.content}) AGAINST (${fulltextQuery} IN BOOLEAN MODE)`
+    : undefined;
   if (opts?.search) {
-    conditions.push(or(like(articles.title, `%${opts.search}%`), like(articles.tags, `%${opts.search}%`)));
+    // Words shorter than the full-text minimum token size still match titles and tags
+    conditions.push(or(
+      ...(relevance ? [sql`${relevance} > 0`] : []),
+      like(articles.title, `%${opts.search}%`),
+      like(articles.tags, `%${opts.search}%`),
+    ));
   }
   if (opts?.tag) {
-    conditions.push(like(articles.tags, `%${opts.tag}%`));
+    conditions.push(inArray(articles.id, articleIdsWithTerm(db, "tags", opts.tag)));
   }
+  if (opts?.category) {
+    conditions.push(inArray(articles.id, articleIdsWithTerm(db, "categories", opts.category)));
+  }
+  if (opts?.draft !== undefined) {
+    conditions.push(eq(articles.draft, opts.draft));
+  }
+  if (opts?.from) conditions.push(gte(articles.createdAt, opts.from));
+  if (opts?.to) conditions.push(lte(articles.createdAt, opts.to));
   const where = conditions.length > 0 ? and(...conditions) : undefined;
+  const order = relevance ? [desc(relevance), desc(articles.updatedAt)] : [desc(articles.updatedAt)];
   const [items, countResult] = await Promise.all([
-    db.select().from(articles).where(where).orderBy(desc(articles.updatedAt)).limit(opts?.limit ?? 50).offset(opts?.offset ?? 0),
+    db.select().from(articles).where(where).orderBy(...order).limit(opts?.limit ?? 50).offset(opts?.offset ?? 0),
     db.select({ count: sql<number>`count(*)` }).from(articles).where(where),
   ]);
   return { items, total: countResult[0]?.count ?? 0 };
 }
 
+export async function getArticlesByFilenames(filenames: string[]) {
+  const db = await getDb();
+  if (!db || filenames.length === 0) return [];
+  return db.select().from(articles).where(inArray(articles.filename, filenames));
+}
+
 export async function getArticleByFilename(filename: string) {
   const db = await getDb();
   if (!db) return null;
@@ -124,6 +188,7 @@ export async function upsertArticle(article: InsertArticle) {
       tags: article.tags,
       categories: article.categories,
       draft: article.draft,
+      frontMatter: article.frontMatter,
       hugoUrl: article.hugoUrl,
       coverImage: article.coverImage,
       slug: article.slug,
@@ -135,7 +200,10 @@ export async function upsertArticle(article: InsertArticle) {
 export async function deleteArticle(filename: string) {
   const db = await getDb();
   if (!db) return;
-  await db.delete(articles).where(eq(articles.filename, filename));
+  await db.transaction(async tx => {
+    await tx.delete(articleTerms).where(inArray(articleTerms.articleId, tx.select({ id: articles.id }).from(articles).where(eq(articles.filename, filename))));
+    await tx.delete(articles).where(eq(articles.filename, filename));
+  });
 }
 
 export async function getArticleStats() {
@@ -150,6 +218,280 @@ export async function getArticleStats() {
   return { total, drafts, published: total - drafts };
 }
 
+// ─── Tag and category helpers ───
+/** Replaces the article's terms of one taxonomy; names keep their order */
+export async function setArticleTerms(articleId: number, taxonomy: Taxonomy, names: string[]) {
+  const db = await getDb();
+  if (!db) return;
+  const unique = names.filter((name, i) => names.findIndex(n => n.toLowerCase() === name.toLowerCase()) === i);
+  await db.transaction(async tx => {
+    const ofTaxonomy = tx.select({ id: taxonomyTerms.id }).from(taxonomyTerms).where(eq(taxonomyTerms.taxonomy, taxonomy));
+    await tx.delete(articleTerms).where(and(eq(articleTerms.articleId, articleId), inArray(articleTerms.termId, ofTaxonomy)));
+    if (unique.length === 0) return;
+    await tx.insert(taxonomyTerms).ignore().values(unique.map(name => ({ taxonomy, name })));
+    const terms = await tx.select().from(taxonomyTerms).where(and(eq(taxonomyTerms.taxonomy, taxonomy), inArray(taxonomyTerms.name, unique)));
+    // The collation matches names case-insensitively, so does the lookup
+    const ids = new Map(terms.map(term => [term.name.toLowerCase(), term.id]));
+    const rows = unique.flatMap((name, position) => {
+      const termId = ids.get(name.toLowerCase());
+      return termId ? [{ articleId, termId, position }] : [];
+    });
+    if (rows.length > 0) await tx.insert(articleTerms).ignore().values(rows);
+  });
+}
+
+/** Terms in use with how many articles have each, most used first */
+export async function listTaxonomyTerms(taxonomy: Taxonomy) {
+  const db = await getDb();
+  if (!db) return [];
+  const count = sql<number>`count(${articleTerms.id})`;
+  const rows = await db.select({ name: taxonomyTerms.name, count }).from(taxonomyTerms)
+    .innerJoin(articleTerms, eq(articleTerms.termId, taxonomyTerms.id))
+    .where(eq(taxonomyTerms.taxonomy, taxonomy))
+    .groupBy(taxonomyTerms.id, taxonomyTerms.name).orderBy(desc(count), asc(taxonomyTerms.name));
+  return rows.map(row => ({ name: row.name, count: Number(row.count) }));
+}
+
+/** Articles with tags or categories but no term rows: saved before article_terms existed */
+export async function getArticlesWithoutTerms() {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(articles).where(and(
+    sql`${articles.id} NOT IN (SELECT ${articleTerms.articleId} FROM ${articleTerms})`,
+    or(sql`COALESCE(${articles.tags}, '') <> ''`, sql`COALESCE(${articles.categories}, '') <> ''`),
+  ));
+}
+
+// ─── Scheduled publishing helpers ───
+export async function setArticleSchedule(filename: string, publishAt: Date | null, scheduledBy?: ConversationOwner) {
+  const db = await getDb();
+  if (!db) return;
+  const { telegramUserId, userId } = ownerColumns(scheduledBy);
+  await db.update(articles).set({ publishAt, scheduledBy: telegramUserId, scheduledByUserId: userId }).where(eq(articles.filename, filename));
+}
+
+export async function getScheduledArticles() {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(articles).where(isNotNull(articles.publishAt)).orderBy(asc(articles.publishAt));
+}
+
+export async function getDueScheduledArticles(now = new Date()) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(articles).where(lte(articles.publishAt, now)).orderBy(asc(articles.publishAt));
+}
+
+// ─── Article revision helpers ───
+const REVISION_FIELDS = ["title", "description", "content", "tags", "categories", "draft"] as const;
+
+/** Stores a new revision unless it matches the latest one; returns the revision number */
+export async function recordArticleRevision(rev: Omit<InsertArticleRevision, "revision">): Promise<number | null> {
+  const db = await getDb();
+  if (!db) return null;
+  const [latest] = await db.select().from(articleRevisions)
+    .where(eq(articleRevisions.filename, rev.filename))
+    .orderBy(desc(articleRevisions.revision)).limit(1);
+  if (
+    latest && REVISION_FIELDS.every(f => (latest[f] ?? null) === (rev[f] ?? null)) &&
+    stableJson(latest.frontMatter ?? {}) === stableJson(rev.frontMatter ?? {})
+  ) return latest.revision;
+  const revision = (latest?.revision ?? 0) + 1;
+  await db.insert(articleRevisions).values({ ...rev, revision });
+  return revision;
+}
+
+/** Drops a revision whose change never took effect */
+export async function deleteArticleRevision(filename: string, revision: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(articleRevisions)
+    .where(and(eq(articleRevisions.filename, filename), eq(articleRevisions.revision, revision)));
+}
+
+export async function getArticleRevisions(filename: string, limit = 20) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(articleRevisions)
+    .where(eq(articleRevisions.filename, filename))
+    .orderBy(desc(articleRevisions.revision)).limit(limit);
+}
+
+export async function getArticleRevision(filename: string, revision: number) {
+  const db = await getDb();
+  if (!db) return null;
+  const result = await db.select().from(articleRevisions)
+    .where(and(eq(articleRevisions.filename, filename), eq(articleRevisions.revision, revision))).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+// ─── Hugo sync helpers ───
+export async function listAllArticles() {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(articles);
+}
+
+export async function setArticleSyncState(
+  filename: string,
+  state: {
+    syncedHash: string; syncedRevision: number | null; remoteUpdatedAt?: Date | null; hugoUrl?: string; slug?: string;
+  }
+) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(articles).set({ ...state, syncedAt: new Date() }).where(eq(articles.filename, filename));
+}
+
+/** Hugo may name an uploaded post differently; the article keeps its history under the new name */
+export async function renameArticle(from: string, to: string) {
+  const db = await getDb();
+  if (!db) return;
+  await db.transaction(async tx => {
+    await tx.update(articles).set({ filename: to }).where(eq(articles.filename, from));
+    await tx.update(articleRevisions).set({ filename: to }).where(eq(articleRevisions.filename, from));
+    await tx.update(hugoOutbox).set({ filename: to }).where(eq(hugoOutbox.filename, from));
+  });
+}
+
+export async function saveSyncConflict(conflict: InsertArticleSyncConflict) {
+  const db = await getDb();
+  if (!db) return;
+  await db.insert(articleSyncConflicts).values(conflict).onDuplicateKeyUpdate({
+    set: { kind: conflict.kind, remote: conflict.remote ?? null, remoteUpdatedAt: conflict.remoteUpdatedAt ?? null },
+  });
+}
+
+export async function getSyncConflicts() {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(articleSyncConflicts).orderBy(asc(articleSyncConflicts.id));
+}
+
+export async function getSyncConflictById(id: number) {
+  const db = await getDb();
+  if (!db) return null;
+  const result = await db.select().from(articleSyncConflicts).where(eq(articleSyncConflicts.id, id)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function deleteSyncConflict(filename: string) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(articleSyncConflicts).where(eq(articleSyncConflicts.filename, filename));
+}
+
+// ─── Hugo outbox helpers ───
+export async function insertOutboxEntry(entry: InsertHugoOutboxEntry): Promise<number | null> {
+  const db = await getDb();
+  if (!db) return null;
+  const result = await db.insert(hugoOutbox).values(entry);
+  return result[0]?.insertId ?? null;
+}
+
+export async function getOutboxEntry(id: number) {
+  const db = await getDb();
+  if (!db) return null;
+  const result = await db.select().from(hugoOutbox).where(eq(hugoOutbox.id, id)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+/** Pending writes in the order they were made */
+export async function getPendingOutboxEntries() {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(hugoOutbox).where(eq(hugoOutbox.status, "pending")).orderBy(asc(hugoOutbox.id));
+}
+
+/** Pending and abandoned writes, newest first, for /pending */
+export async function getStuckOutboxEntries(limit = 20) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(hugoOutbox).orderBy(desc(hugoOutbox.id)).limit(limit);
+}
+
+/** Takes the entry for one attempt; false when another worker got there first */
+export async function claimOutboxEntry(entry: Pick<HugoOutboxEntry, "id" | "attempts">): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+  const [result] = await db.update(hugoOutbox).set({ attempts: entry.attempts + 1 }).where(and(
+    eq(hugoOutbox.id, entry.id), eq(hugoOutbox.attempts, entry.attempts), eq(hugoOutbox.status, "pending"),
+  ));
+  return result.affectedRows > 0;
+}
+
+export async function updateOutboxEntry(
+  id: number,
+  patch: Partial<Pick<HugoOutboxEntry, "status" | "nextAttemptAt" | "lastError">>
+) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(hugoOutbox).set(patch).where(eq(hugoOutbox.id, id));
+}
+
+export async function deleteOutboxEntry(id: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(hugoOutbox).where(eq(hugoOutbox.id, id));
+}
+
+export async function deleteAbandonedOutboxEntries(before: Date) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(hugoOutbox).where(and(eq(hugoOutbox.status, "abandoned"), lte(hugoOutbox.updatedAt, before)));
+}
+
+// ─── Retrieval index helpers ───
+/** Everything the embeddings index is built from */
+export async function listArticlesForIndex() {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select({
+    filename: articles.filename, title: articles.title, content: articles.content,
+    hugoUrl: articles.hugoUrl, draft: articles.draft,
+  }).from(articles);
+}
+
+/** filename -> hash and model of what is indexed now */
+export async function getIndexedArticleHashes(): Promise<Map<string, { contentHash: string; model: string }>> {
+  const db = await getDb();
+  if (!db) return new Map();
+  const rows = await db.selectDistinct({
+    filename: articleChunks.filename, contentHash: articleChunks.contentHash, model: articleChunks.model,
+  }).from(articleChunks);
+  return new Map(rows.map(row => [row.filename, { contentHash: row.contentHash, model: row.model }]));
+}
+
+/** What search results show of an article, without its text */
+export async function listArticleHeadlines() {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select({
+    filename: articles.filename, title: articles.title, hugoUrl: articles.hugoUrl, draft: articles.draft,
+  }).from(articles);
+}
+
+export async function replaceArticleChunks(filename: string, chunks: InsertArticleChunk[]) {
+  const db = await getDb();
+  if (!db) return;
+  await db.transaction(async tx => {
+    await tx.delete(articleChunks).where(eq(articleChunks.filename, filename));
+    if (chunks.length > 0) await tx.insert(articleChunks).values(chunks);
+  });
+}
+
+export async function deleteArticleChunks(filename: string) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(articleChunks).where(eq(articleChunks.filename, filename));
+}
+
+export async function getArticleChunks(model: string) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(articleChunks).where(eq(articleChunks.model, model));
+}
+
 // ─── AI Generation helpers ───
 export async function createAiGeneration(gen: InsertAiGeneration) {
   const db = await getDb();
@@ -169,3 +511,260 @@ export async function getRecentGenerations(userId: number, limit = 20) {
   if (!db) return [];
   return db.select().from(aiGenerations).where(eq(aiGenerations.userId, userId)).orderBy(desc(aiGenerations.createdAt)).limit(limit);
 }
+
+export type AiUsageTotals = { requests: number; failed: number; promptTokens: number; completionTokens: number; totalTokens: number };
+
+function aiUsageTotals() {
+  return {
+    requests: sql<number>`count(*)`,
+    failed: sql<number>`coalesce(sum(${aiGenerations.status} = 'failed'), 0)`,
+    promptTokens: sql<number>`coalesce(sum(${aiGenerations.promptTokens}), 0)`,
+    completionTokens: sql<number>`coalesce(sum(${aiGenerations.completionTokens}), 0)`,
+    totalTokens: sql<number>`coalesce(sum(${aiGenerations.tokensUsed}), 0)`,
+  };
+}
+
+// MySQL returns SUM() as a decimal string
+function toUsageTotals(row: Record<keyof AiUsageTotals, unknown>): AiUsageTotals {
+  return {
+    requests: Number(row.requests), failed: Number(row.failed), promptTokens: Number(row.promptTokens),
+    completionTokens: Number(row.completionTokens), totalTokens: Number(row.totalTokens),
+  };
+}
+
+function aiUsageSince(since: Date, telegramUserId?: number) {
+  return telegramUserId === undefined
+    ? gte(aiGenerations.createdAt, since)
+    : and(gte(aiGenerations.createdAt, since), eq(aiGenerations.telegramUserId, telegramUserId));
+}
+
+/** Tokens spent since a moment, by everyone or by one Telegram user */
+export async function sumAiTokensSince(since: Date, telegramUserId?: number): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+  const result = await db.select({ total: aiUsageTotals().totalTokens }).from(aiGenerations).where(aiUsageSince(since, telegramUserId));
+  return Number(result[0]?.total ?? 0);
+}
+
+/** Token totals since a moment, per requesting user; heaviest first */
+export async function getAiUsageByUser(since: Date, telegramUserId?: number) {
+  const db = await getDb();
+  if (!db) return [];
+  const totals = aiUsageTotals();
+  const rows = await db.select({ telegramUserId: aiGenerations.telegramUserId, userId: aiGenerations.userId, ...totals })
+    .from(aiGenerations).where(aiUsageSince(since, telegramUserId))
+    .groupBy(aiGenerations.telegramUserId, aiGenerations.userId).orderBy(desc(totals.totalTokens));
+  return rows.map(row => ({ telegramUserId: row.telegramUserId, userId: row.userId, ...toUsageTotals(row) }));
+}
+
+/** Token totals since a moment, per provider and model; heaviest first */
+export async function getAiUsageByModel(since: Date, telegramUserId?: number) {
+  const db = await getDb();
+  if (!db) return [];
+  const totals = aiUsageTotals();
+  const rows = await db.select({ provider: aiGenerations.provider, model: aiGenerations.model, ...totals })
+    .from(aiGenerations).where(aiUsageSince(since, telegramUserId))
+    .groupBy(aiGenerations.provider, aiGenerations.model).orderBy(desc(totals.totalTokens));
+  return rows.map(row => ({ provider: row.provider, model: row.model, ...toUsageTotals(row) }));
+}
+
+// ─── Telegram user helpers ───
+export async function getTelegramUser(telegramUserId: number) {
+  const db = await getDb();
+  if (!db) return null;
+  const result = await db.select().from(telegramUsers).where(eq(telegramUsers.telegramUserId, telegramUserId)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function listTelegramUsers() {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(telegramUsers).orderBy(asc(telegramUsers.createdAt));
+}
+
+/** Grants a role, creating the user on first grant */
+export async function upsertTelegramUser(user: InsertTelegramUser) {
+  const db = await getDb();
+  if (!db) return;
+  await db.insert(telegramUsers).values(user).onDuplicateKeyUpdate({
+    set: { role: user.role, grantedBy: user.grantedBy ?? null },
+  });
+}
+
+export async function updateTelegramUserProfile(telegramUserId: number, profile: { username?: string | null; firstName?: string | null }) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(telegramUsers).set(profile).where(eq(telegramUsers.telegramUserId, telegramUserId));
+}
+
+export async function setTelegramUserTokenLimit(telegramUserId: number, dailyTokenLimit: number | null) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(telegramUsers).set({ dailyTokenLimit }).where(eq(telegramUsers.telegramUserId, telegramUserId));
+}
+
+export async function deleteTelegramUser(telegramUserId: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(telegramUsers).where(eq(telegramUsers.telegramUserId, telegramUserId));
+}
+
+// ─── Audit log helpers ───
+export async function insertAuditEvent(event: InsertAuditEvent) {
+  const db = await getDb();
+  if (!db) return;
+  await db.insert(auditEvents).values(event);
+}
+
+export type AuditEventFilter = {
+  telegramUserId?: number;
+  userId?: number;
+  tool?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+};
+
+/** Newest first */
+export async function getAuditEvents(filter: AuditEventFilter = {}) {
+  const db = await getDb();
+  if (!db) return { items: [], total: 0 };
+  const conditions = [];
+  if (filter.telegramUserId !== undefined) conditions.push(eq(auditEvents.telegramUserId, filter.telegramUserId));
+  if (filter.userId !== undefined) conditions.push(eq(auditEvents.userId, filter.userId));
+  if (filter.tool) conditions.push(eq(auditEvents.tool, filter.tool));
+  if (filter.from) conditions.push(gte(auditEvents.createdAt, filter.from));
+  if (filter.to) conditions.push(lte(auditEvents.createdAt, filter.to));
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+  const [items, countResult] = await Promise.all([
+    db.select().from(auditEvents).where(where)
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id)).limit(filter.limit ?? 50).offset(filter.offset ?? 0),
+    db.select({ count: sql<number>`count(*)` }).from(auditEvents).where(where),
+  ]);
+  return { items, total: Number(countResult[0]?.count ?? 0) };
+}
+
+// ─── Conversation helpers ───
+/** Conversations belong to either a Telegram user or a logged-in web user */
+export type ConversationOwner = { telegramUserId: number } | { userId: number };
+
+/** The account a tool call acts for: its LLM usage is charged to it and its changes are recorded under it */
+export function ownerOfToolCall(ctx: { telegramUserId?: number; userId?: number }): ConversationOwner | undefined {
+  if (ctx.telegramUserId !== undefined) return { telegramUserId: ctx.telegramUserId };
+  if (ctx.userId !== undefined) return { userId: ctx.userId };
+  return undefined;
+}
+
+/** The telegramUserId / userId column pair of the tables that record who made a change */
+export function ownerColumns(owner: ConversationOwner | undefined): { telegramUserId: number | null; userId: number | null } {
+  return {
+    telegramUserId: owner && "telegramUserId" in owner ? owner.telegramUserId : null,
+    userId: owner && "userId" in owner ? owner.userId : null,
+  };
+}
+
+export function ownerFromColumns(telegramUserId: number | null, userId: number | null): ConversationOwner | undefined {
+  if (telegramUserId) return { telegramUserId };
+  if (userId) return { userId };
+  return undefined;
+}
+
+export function sameOwner(a: ConversationOwner, b: ConversationOwner): boolean {
+  return "telegramUserId" in a
+    ? "telegramUserId" in b && a.telegramUserId === b.telegramUserId
+    : "userId" in b && a.userId === b.userId;
+}
+
+function ownedBy(owner: ConversationOwner) {
+  return "telegramUserId" in owner
+    ? eq(conversations.telegramUserId, owner.telegramUserId)
+    : eq(conversations.userId, owner.userId);
+}
+
+export async function getCurrentConversation(owner: ConversationOwner) {
+  const db = await getDb();
+  if (!db) return null;
+  const result = await db.select().from(conversations)
+    .where(and(ownedBy(owner), eq(conversations.status, "active"), eq(conversations.isCurrent, true)))
+    .orderBy(desc(conversations.id)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function getConversationById(owner: ConversationOwner, id: number) {
+  const db = await getDb();
+  if (!db) return null;
+  const result = await db.select().from(conversations)
+    .where(and(ownedBy(owner), eq(conversations.id, id))).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function getConversationByTitle(owner: ConversationOwner, title: string) {
+  const db = await getDb();
+  if (!db) return null;
+  const result = await db.select().from(conversations)
+    .where(and(ownedBy(owner), eq(conversations.status, "active"), eq(conversations.title, title)))
+    .orderBy(desc(conversations.id)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function listConversations(owner: ConversationOwner, limit = 20) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(conversations)
+    .where(and(ownedBy(owner), eq(conversations.status, "active")))
+    .orderBy(desc(conversations.updatedAt), desc(conversations.id)).limit(limit);
+}
+
+/** Creates a thread and makes it the owner's current one */
+export async function createConversation(owner: ConversationOwner, title?: string) {
+  const db = await getDb();
+  if (!db) return null;
+  await db.update(conversations).set({ isCurrent: false }).where(ownedBy(owner));
+  const result = await db.insert(conversations).values({ ...owner, title, isCurrent: true });
+  return result[0]?.insertId ?? null;
+}
+
+export async function setCurrentConversation(owner: ConversationOwner, id: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(conversations).set({ isCurrent: false }).where(ownedBy(owner));
+  await db.update(conversations).set({ isCurrent: true }).where(and(ownedBy(owner), eq(conversations.id, id)));
+}
+
+/** Detaches the current thread; the next message starts a new one */
+export async function unsetCurrentConversation(owner: ConversationOwner) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(conversations).set({ isCurrent: false }).where(ownedBy(owner));
+}
+
+export async function renameConversation(owner: ConversationOwner, id: number, title: string) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(conversations).set({ title }).where(and(ownedBy(owner), eq(conversations.id, id)));
+}
+
+export async function archiveConversation(owner: ConversationOwner, id: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(conversations).set({ status: "archived", isCurrent: false })
+    .where(and(ownedBy(owner), eq(conversations.id, id)));
+}
+
+/** Latest `limit` messages of a conversation, oldest first */
+export async function getConversationMessages(conversationId: number, limit = 40) {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db.select().from(conversationMessages)
+    .where(eq(conversationMessages.conversationId, conversationId))
+    .orderBy(desc(conversationMessages.id)).limit(limit);
+  return rows.reverse();
+}
+
+export async function addConversationMessages(conversationId: number, messages: Omit<InsertConversationMessage, "conversationId">[]) {
+  const db = await getDb();
+  if (!db || messages.length === 0) return;
+  await db.insert(conversationMessages).values(messages.map(m => ({ ...m, conversationId })));
+  await db.update(conversations).set({ updatedAt: new Date() }).where(eq(conversations.id, conversationId));
+}
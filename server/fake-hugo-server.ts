@@ -0,0 +1,161 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+
+// ─── In-process Hugo admin API for tests ───
+// Serves the four endpoints the bot uses from memory; faults (error statuses, odd bodies, slow
+// answers) are queued with fail().
+
+export type FakeHugoPost = {
+  filename: string;
+  slug: string;
+  url: string;
+  title: string;
+  description: string;
+  content: string;
+  tags: string;
+  categories: string;
+  draft: boolean;
+  lastmod: string;
+  front_matter: Record<string, unknown>;
+};
+
+export type FakeHugoFault = {
+  /** Only requests whose path contains this */
+  path?: string;
+  status?: number;
+  /** Raw response body instead of a JSON error */
+  body?: string;
+  delayMs?: number;
+  /** How many matching requests fail; 1 by default */
+  times?: number;
+};
+
+export type FakeHugoRequest = { method: string; path: string; idempotencyKey?: string; body?: any };
+
+type Reply = { status: number; body: string };
+
+const EDITABLE_FIELDS = ["title", "description", "content", "tags", "categories", "draft", "front_matter"] as const;
+
+function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "post";
+}
+
+function json(status: number, data: unknown): Reply {
+  return { status, body: JSON.stringify(data) };
+}
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text ? JSON.parse(text) : undefined;
+}
+
+export class FakeHugoServer {
+  readonly posts = new Map<string, FakeHugoPost>();
+  readonly requests: FakeHugoRequest[] = [];
+  baseUrl = "";
+  private faults: FakeHugoFault[] = [];
+  // Idempotency key -> the first answer, replayed for retries
+  private replies = new Map<string, Reply>();
+  private server: Server | null = null;
+
+  constructor(readonly apiKey = "test-key") {}
+
+  async start(): Promise<this> {
+    const server = createServer((req, res) => void this.handle(req, res));
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this;
+  }
+
+  async stop() {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /** Clears posts, faults and recorded requests between tests */
+  reset() {
+    this.posts.clear();
+    this.requests.length = 0;
+    this.faults = [];
+    this.replies.clear();
+  }
+
+  fail(fault: FakeHugoFault) {
+    this.faults.push({ times: 1, ...fault });
+  }
+
+  addPost(post: Partial<FakeHugoPost> & { title: string }): FakeHugoPost {
+    const slug = post.slug ?? slugify(post.title);
+    const saved: FakeHugoPost = {
+      filename: `${slug}.md`, slug, url: `${this.baseUrl}/posts/${slug}/`, description: "", content: "",
+      tags: "", categories: "", draft: false, lastmod: new Date().toISOString(), front_matter: {}, ...post,
+    };
+    this.posts.set(saved.filename, saved);
+    return saved;
+  }
+
+  private takeFault(path: string): FakeHugoFault | undefined {
+    const fault = this.faults.find(f => !f.path || path.includes(f.path));
+    if (fault && --fault.times! <= 0) this.faults.splice(this.faults.indexOf(fault), 1);
+    return fault;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const path = decodeURIComponent((req.url ?? "").split("?")[0]);
+    const idempotencyKey = req.headers["idempotency-key"] as string | undefined;
+    let reply: Reply;
+    try {
+      const body = await readBody(req);
+      this.requests.push({ method: req.method ?? "GET", path, idempotencyKey, body });
+      reply = await this.route(req.method ?? "GET", path, body, req.headers["x-api-key"], idempotencyKey);
+    } catch {
+      reply = json(400, { error: "bad request" });
+    }
+    if (res.destroyed) return;
+    res.writeHead(reply.status, { "Content-Type": "application/json" });
+    res.end(reply.body);
+  }
+
+  private async route(method: string, path: string, body: any, apiKey: unknown, idempotencyKey?: string): Promise<Reply> {
+    const fault = this.takeFault(path);
+    if (fault?.delayMs) await new Promise(resolve => setTimeout(resolve, fault.delayMs));
+    if (fault?.body !== undefined) return { status: fault.status ?? 200, body: fault.body };
+    if (fault?.status) return json(fault.status, { error: `injected ${fault.status}` });
+    if (apiKey !== this.apiKey) return json(401, { error: "invalid API key" });
+
+    const replayed = idempotencyKey ? this.replies.get(idempotencyKey) : undefined;
+    if (replayed) return replayed;
+    const reply = this.apply(method, path, body);
+    if (idempotencyKey && reply.status < 500) this.replies.set(idempotencyKey, reply);
+    return reply;
+  }
+
+  private apply(method: string, path: string, body: any): Reply {
+    if (method === "GET" && path === "/api/posts/list") return json(200, Array.from(this.posts.values()));
+    if (method === "POST" && path === "/api/posts/create") {
+      if (!body?.title) return json(422, { error: "title is required" });
+      let slug = slugify(body.title);
+      for (let n = 2; this.posts.has(`${slug}.md`); n++) slug = `${slugify(body.title)}-${n}`;
+      const post = this.addPost({ ...body, slug, filename: `${slug}.md` });
+      return json(200, { filename: post.filename, slug: post.slug, url: post.url });
+    }
+    const match = path.match(/^\/api\/posts\/(edit|delete)\/(.+)$/);
+    const post = match ? this.posts.get(match[2]) : undefined;
+    if (!match || (match[1] === "edit" ? method !== "PUT" : method !== "DELETE")) return json(404, { error: "not found" });
+    if (!post) return json(404, { error: "post not found" });
+    if (match[1] === "delete") {
+      this.posts.delete(post.filename);
+      return json(200, { success: true });
+    }
+    const edits: Partial<FakeHugoPost> = Object.fromEntries(EDITABLE_FIELDS.filter(f => body?.[f] !== undefined).map(f => [f, body[f]]));
+    Object.assign(post, edits);
+    post.lastmod = new Date().toISOString();
+    return json(200, { success: true });
+  }
+}
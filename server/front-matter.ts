@@ -0,0 +1,95 @@
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { parse as parseToml, stringify as stringifyToml, TomlDate } from "smol-toml";
+import type { FrontMatter } from "../drizzle/schema";
+
+// ─── Hugo front matter ───
+// A post starts with YAML between `---` lines or TOML between `+++` lines. Keys the bot does not
+// know are kept as they are, in their order, when the post is written back.
+export type FrontMatterFormat = "yaml" | "toml";
+
+export type MarkdownPost = { format: FrontMatterFormat; data: Record<string, unknown>; body: string };
+
+const FENCES: Record<FrontMatterFormat, string> = { yaml: "---", toml: "+++" };
+const FRONT_MATTER_RE = /^(---|\+\+\+)[ \t]*\n(?:([\s\S]*?)\n)?\1[ \t]*(?:\n|$)/;
+
+/** A file without front matter reads as YAML with no keys */
+export function parseFrontMatter(text: string): MarkdownPost {
+  const source = text.replace(/^\uFEFF/, "").replace(/\r\n/g, "\n");
+  const match = source.match(FRONT_MATTER_RE);
+  if (!match) return { format: "yaml", data: {}, body: source };
+  const format: FrontMatterFormat = match[1] === "+++" ? "toml" : "yaml";
+  const raw = match[2] ?? "";
+  const data = format === "toml" ? parseToml(raw) : parseYaml(raw) ?? {};
+  if (typeof data !== "object" || Array.isArray(data)) throw new Error("front matter — не набор ключей");
+  return { format, data: data as Record<string, unknown>, body: source.slice(match[0].length).replace(/^\n+/, "") };
+}
+
+export function stringifyFrontMatter(post: MarkdownPost): string {
+  const fence = FENCES[post.format];
+  // Neither format has a use for empty keys, and TOML cannot write them
+  const data = Object.fromEntries(Object.entries(post.data).filter(([, value]) => value !== undefined && value !== null));
+  const raw = Object.keys(data).length === 0 ? ""
+    : post.format === "toml" ? stringifyToml(data) : stringifyYaml(data, { lineWidth: 0 });
+  return `${fence}\n${raw.trim() ? `${raw.trimEnd()}\n` : ""}${fence}\n\n${post.body}`;
+}
+
+/** Dates stay dates in TOML; YAML gets the ISO string Hugo reads the same way */
+export function frontMatterDate(format: FrontMatterFormat, date: Date): Date | string {
+  return format === "toml" ? date : date.toISOString();
+}
+
+// ─── Article front matter map ───
+/** Keys articles keep in their own columns */
+export const ARTICLE_FIELD_KEYS = ["title", "description", "tags", "categories", "draft"];
+// Hugo or the git backend sets it on every write; articles keep it as remoteUpdatedAt
+const MANAGED_KEYS = ["lastmod"];
+const DATE_RE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/** Whether the key belongs in an article's front matter map */
+export function isFrontMatterKey(key: string): boolean {
+  return !ARTICLE_FIELD_KEYS.includes(key) && !MANAGED_KEYS.includes(key);
+}
+
+/** The keys of a parsed post that go into the article's front matter map, as plain JSON */
+export function frontMatterOf(data: Record<string, unknown>): FrontMatter {
+  const extra = Object.fromEntries(Object.entries(data).filter(([key]) => isFrontMatterKey(key)));
+  return JSON.parse(JSON.stringify(extra));
+}
+
+/** JSON with sorted keys: MySQL reorders the keys of JSON columns */
+export function stableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(",")}]`;
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${stableJson(record[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/** A JSON value as it goes into the file: TOML gets dates back as dates */
+export function toFrontMatterValue(format: FrontMatterFormat, value: unknown): unknown {
+  if (format !== "toml") return value;
+  if (typeof value === "string" && DATE_RE.test(value)) return new TomlDate(value.replace(" ", "T"));
+  if (Array.isArray(value)) return value.map(item => toFrontMatterValue(format, item));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toFrontMatterValue(format, item)]));
+  }
+  return value;
+}
+
+/** Replaces the post's front matter map; keys that did not change keep how the file wrote them */
+export function replaceFrontMatter(post: MarkdownPost, frontMatter: FrontMatter): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(post.data)) {
+    if (!isFrontMatterKey(key)) data[key] = value;
+    else if (key in frontMatter) {
+      const unchanged = stableJson(JSON.parse(JSON.stringify(value))) === stableJson(frontMatter[key]);
+      data[key] = unchanged ? value : toFrontMatterValue(post.format, frontMatter[key]);
+    }
+  }
+  for (const [key, value] of Object.entries(frontMatter)) {
+    if (!(key in data) && isFrontMatterKey(key)) data[key] = toFrontMatterValue(post.format, value);
+  }
+  return data;
+}
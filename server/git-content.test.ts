@@ -0,0 +1,154 @@
+import { execFileSync } from "child_process";
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync, existsSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { parseFrontMatter, stringifyFrontMatter } from "./front-matter";
+import { GitContentBackend, applyPatchToPost } from "./git-content";
+import { ContentRejectedError } from "./content-backend";
+import { isRetryableHugoError } from "./outbox";
+import { createArticle, updateArticle } from "./articles";
+import { syncArticles } from "./hugo-sync";
+
+const settings = vi.hoisted(() => new Map<string, string>());
+vi.mock("./db", async importOriginal => ({
+  ...await importOriginal<typeof import("./db")>(),
+  getSetting: async (key: string) => settings.get(key) ?? null,
+}));
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, {
+    cwd, encoding: "utf8",
+    env: { ...process.env, GIT_AUTHOR_NAME: "Site", GIT_AUTHOR_EMAIL: "site@example.com", GIT_COMMITTER_NAME: "Site", GIT_COMMITTER_EMAIL: "site@example.com" },
+  });
+}
+
+const TOML_POST = `+++
+title = "Hello"
+date = 2024-05-01T10:00:00Z
+tags = ["go", "hugo"]
+weight = 3
+
+[params]
+cover = "hello.png"
++++
+
+Body text
+`;
+
+let root: string;
+let repo: string;
+
+beforeEach(() => {
+  root = mkdtempSync(path.join(tmpdir(), "git-content-"));
+  repo = path.join(root, "site");
+  mkdirSync(path.join(repo, "content/posts/bundle"), { recursive: true });
+  writeFileSync(path.join(repo, "content/posts/hello.md"), TOML_POST);
+  writeFileSync(path.join(repo, "content/posts/bundle/index.md"), "+++\ntitle = \"Bundle\"\n+++\nIn a bundle\n");
+  writeFileSync(path.join(repo, "content/posts/_index.md"), "---\ntitle: Posts\n---\n");
+  git(repo, "init", "-q", "-b", "main");
+  git(repo, "add", "-A");
+  git(repo, "commit", "-q", "-m", "Initial");
+  settings.clear();
+});
+
+afterEach(() => rmSync(root, { recursive: true, force: true }));
+
+const backend = (remote?: string) => new GitContentBackend({ repoPath: repo, contentDir: "content/posts", remote });
+
+describe("front matter", () => {
+  it("round-trips TOML and YAML, keeping keys the bot does not edit", () => {
+    const toml = parseFrontMatter(TOML_POST);
+    expect(toml).toMatchObject({ format: "toml", body: "Body text\n", data: { title: "Hello", weight: 3, params: { cover: "hello.png" } } });
+    expect(parseFrontMatter(stringifyFrontMatter(toml))).toEqual(toml);
+
+    const yaml = parseFrontMatter("---\r\ntitle: Hi\r\naliases: [/old/]\r\n---\r\n\r\nText");
+    expect(yaml).toEqual({ format: "yaml", data: { title: "Hi", aliases: ["/old/"] }, body: "Text" });
+    expect(parseFrontMatter("Just text")).toEqual({ format: "yaml", data: {}, body: "Just text" });
+  });
+
+  it("only moves lastmod when the patch changes something", () => {
+    const post = parseFrontMatter(TOML_POST);
+    expect(applyPatchToPost(post, { title: "Hello", tags: "go, hugo" })).toBe(post);
+    const now = new Date("2025-01-02T03:04:05Z");
+    const patched = applyPatchToPost(post, { content: "New", draft: true }, now);
+    expect(patched.data).toMatchObject({ draft: true, lastmod: now, weight: 3 });
+    expect(stringifyFrontMatter(patched)).toContain("lastmod = 2025-01-02T03:04:05.000Z");
+  });
+
+  it("replaces the front matter map, leaving unchanged values as the file had them", () => {
+    const post = parseFrontMatter(TOML_POST);
+    const patched = applyPatchToPost(post, { frontMatter: { date: "2024-05-01T10:00:00.000Z", weight: 4, author: "Ann" } });
+    expect(patched.data.date).toBe(post.data.date);
+    expect(Object.keys(patched.data)).toEqual(["title", "date", "tags", "weight", "author", "lastmod"]);
+    const text = stringifyFrontMatter(patched);
+    expect(text).toContain('author = "Ann"');
+    expect(text).not.toContain("[params]");
+  });
+});
+
+describe("GitContentBackend", () => {
+  it("lists posts and bundles the way the Hugo API does", async () => {
+    const posts = await backend().listPosts();
+    expect(posts.map(p => p.filename)).toEqual(["bundle/index.md", "hello.md"]);
+    expect(posts[1]).toMatchObject({
+      slug: "hello", title: "Hello", content: "Body text\n", tags: ["go", "hugo"],
+      front_matter: { date: "2024-05-01T10:00:00.000Z", weight: 3, params: { cover: "hello.png" } },
+    });
+    // Without lastmod the file's modification time stands in, not the publication date
+    expect(Date.parse(posts[1].lastmod!)).toBeGreaterThan(Date.parse("2024-05-01T10:00:00.000Z"));
+    expect(posts[0]).toMatchObject({ slug: "bundle", title: "Bundle", draft: false });
+  });
+
+  it("commits each write as its author and replays retries", async () => {
+    const author = { name: "Иван", email: "42@telegram.invalid" };
+    const write = { idempotencyKey: "key-1", author };
+    const created = await backend().createPost({ title: "New Post", content: "Hi", tags: "a, b" }, write);
+    expect(created).toEqual({ filename: "new-post.md", slug: "new-post", url: null });
+    // Follows the site's TOML front matter
+    const file = path.join(repo, "content/posts/new-post.md");
+    expect(parseFrontMatter(readFileSync(file, "utf8"))).toMatchObject({ format: "toml", data: { title: "New Post", tags: ["a", "b"], draft: false } });
+
+    expect(await backend().createPost({ title: "New Post", content: "Hi" }, write)).toEqual(created);
+    expect(existsSync(path.join(repo, "content/posts/new-post-2.md"))).toBe(false);
+    expect(git(repo, "log", "-1", "--format=%an <%ae>|%cn|%s")).toBe("Иван <42@telegram.invalid>|AI Blog Bot|Add new-post.md\n");
+
+    await backend().updatePost("new-post.md", { content: "Changed" }, { idempotencyKey: "key-2", author });
+    await backend().updatePost("new-post.md", { content: "Changed" }, { idempotencyKey: "key-3" });
+    await backend().deletePost("bundle/index.md", { idempotencyKey: "key-4", author });
+    expect(existsSync(path.join(repo, "content/posts/bundle"))).toBe(false);
+    expect(git(repo, "log", "--format=%s").split("\n").filter(Boolean)).toEqual(["Delete bundle/index.md", "Update new-post.md", "Add new-post.md", "Initial"]);
+    expect(git(repo, "status", "--porcelain")).toBe("");
+  });
+
+  it("pushes every commit to the remote", async () => {
+    const remote = path.join(root, "remote.git");
+    git(root, "init", "-q", "--bare", remote);
+    git(repo, "remote", "add", "origin", remote);
+    git(repo, "push", "-q", "origin", "main");
+
+    await backend("origin").updatePost("hello.md", { title: "Hello again" });
+    expect(git(remote, "log", "-1", "--format=%s", "main")).toBe("Update hello.md\n");
+  });
+
+  it("refuses files outside the posts directory for good", async () => {
+    const error = await backend().updatePost("../../README.md", { title: "x" }).catch(e => e);
+    expect(error).toBeInstanceOf(ContentRejectedError);
+    expect(isRetryableHugoError(error)).toBe(false);
+    await expect(backend().updatePost("missing.md", { title: "x" })).rejects.toThrow("Статьи «missing.md» нет в репозитории");
+  });
+});
+
+describe("articles on the git backend", () => {
+  it("writes articles and syncs from the repository", async () => {
+    settings.set("content_backend", "git");
+    settings.set("git_repo_path", repo);
+    expect(await createArticle({ title: "From Telegram", content: "Text" })).toEqual({ filename: "from-telegram.md" });
+    await updateArticle("from-telegram.md", { draft: true });
+    expect(parseFrontMatter(readFileSync(path.join(repo, "content/posts/from-telegram.md"), "utf8")).data.draft).toBe(true);
+
+    const report = await syncArticles();
+    expect(report.pulled.sort()).toEqual(["bundle/index.md", "from-telegram.md", "hello.md"]);
+    expect(report.errors).toEqual([]);
+  });
+});
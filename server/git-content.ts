@@ -0,0 +1,310 @@
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import path from "path";
+import { promisify } from "util";
+import type { ArticleInput, ArticlePatch } from "./articles";
+import { ContentRejectedError, type ContentBackend, type ContentWrite } from "./content-backend";
+import { getSetting } from "./db";
+import {
+  frontMatterDate, frontMatterOf, isFrontMatterKey, parseFrontMatter, replaceFrontMatter, stringifyFrontMatter, toFrontMatterValue,
+  type FrontMatterFormat, type MarkdownPost,
+} from "./front-matter";
+import type { HugoCreatedPost, HugoPost } from "./hugo-api";
+import { splitList } from "./tools/helpers";
+
+// ─── Git-backed Hugo content ───
+// Posts are Markdown files in a checkout of the site repository. Every write is one commit by the
+// user who asked for it; with a remote configured the checkout is rebased before and pushed after.
+export const GIT_REPO_PATH_SETTING = "git_repo_path";
+export const GIT_CONTENT_DIR_SETTING = "git_content_dir";
+export const GIT_REMOTE_SETTING = "git_remote";
+export const GIT_BRANCH_SETTING = "git_branch";
+export const DEFAULT_GIT_CONTENT_DIR = "content/posts";
+
+const GIT_TIMEOUT_MS = 60_000;
+const COMMITTER = { name: "AI Blog Bot", email: "bot@ai-blog-bot.invalid" };
+// Written into the commit message, so a retried write finds the commit of its first attempt
+const IDEMPOTENCY_TRAILER = "Idempotency-Key";
+
+export type GitContentConfig = {
+  repoPath: string;
+  /** Posts directory inside the repository */
+  contentDir: string;
+  remote?: string;
+  /** The checked-out branch when not set */
+  branch?: string;
+};
+
+const execFileAsync = promisify(execFile);
+
+/** A git command failed; a pull or push that hit the network or a held lock may pass next time */
+export class GitCommandError extends Error {
+  constructor(public command: string, detail: string) {
+    super(`git ${command}: ${detail}`);
+    this.name = "GitCommandError";
+  }
+}
+
+async function git(cwd: string, args: string[], env: Record<string, string> = {}): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: 16 * 1024 * 1024,
+      // A push that wants a password must fail, not wait for one
+      env: { ...process.env, GIT_TERMINAL_PROMPT: "0", ...env },
+    });
+    return stdout;
+  } catch (e: any) {
+    const detail = String(e.stderr || e.message || "").trim().split("\n").pop();
+    throw new GitCommandError(args[0], detail ?? "");
+  }
+}
+
+// One checkout takes one write at a time
+let gitQueue: Promise<unknown> = Promise.resolve();
+
+function exclusive<T>(task: () => Promise<T>): Promise<T> {
+  const run = gitQueue.then(task, task);
+  gitQueue = run.catch(() => undefined);
+  return run;
+}
+
+function postSlug(title: string): string {
+  return title.toLowerCase().replace(/[^a-zа-яё0-9]+/gi, "-").replace(/^-|-$/g, "") || "post";
+}
+
+// Page bundles (`name/index.md`) are named after their directory
+function slugOfFile(filename: string): string {
+  const base = path.posix.basename(filename, ".md");
+  return base === "index" ? path.posix.basename(path.posix.dirname(filename)) : base;
+}
+
+function text(value: unknown): string | undefined {
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+function listOf(value: unknown): string | string[] | undefined {
+  if (Array.isArray(value)) return value.map(String);
+  return text(value);
+}
+
+function timestampOf(value: unknown): string | undefined {
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value.toISOString();
+  return text(value);
+}
+
+/** How the REST API would describe the post */
+export function gitPostToHugoPost(filename: string, post: MarkdownPost, modifiedAt: Date): HugoPost {
+  const data = post.data;
+  return {
+    filename, slug: text(data.slug) || slugOfFile(filename), url: null,
+    title: text(data.title), description: text(data.description ?? data.summary), content: post.body,
+    tags: listOf(data.tags), categories: listOf(data.categories), draft: data.draft === true || data.draft === "true",
+    // The sync skips posts whose lastmod has not moved, so a post without one is dated by the file
+    lastmod: timestampOf(data.lastmod) ?? modifiedAt.toISOString(),
+    front_matter: frontMatterOf(data),
+  };
+}
+
+/** Merges the patch into the post; `lastmod` only moves when something else changed */
+export function applyPatchToPost(post: MarkdownPost, patch: ArticlePatch, now = new Date()): MarkdownPost {
+  const data = { ...post.data };
+  if (patch.title !== undefined) data.title = patch.title;
+  if (patch.description !== undefined) data.description = patch.description || undefined;
+  if (patch.tags !== undefined) data.tags = splitList(patch.tags);
+  if (patch.categories !== undefined) data.categories = splitList(patch.categories);
+  if (patch.draft !== undefined) data.draft = patch.draft;
+  const next = {
+    ...post, data: patch.frontMatter ? replaceFrontMatter({ ...post, data }, patch.frontMatter) : data, body: patch.content ?? post.body,
+  };
+  if (stringifyFrontMatter(next) === stringifyFrontMatter(post)) return post;
+  return { ...next, data: { ...next.data, lastmod: frontMatterDate(post.format, now) } };
+}
+
+export class GitContentBackend implements ContentBackend {
+  private readonly contentRoot: string;
+
+  constructor(private readonly config: GitContentConfig) {
+    this.contentRoot = path.resolve(config.repoPath, config.contentDir);
+  }
+
+  async createPost(input: ArticleInput, write: ContentWrite = {}): Promise<HugoCreatedPost> {
+    return exclusive(async () => {
+      await this.pull();
+      const done = await this.commitFor(write.idempotencyKey);
+      let filename = done ? await this.addedFile(done) : null;
+      if (!filename) {
+        filename = await this.freeFilename(input.title);
+        const now = new Date();
+        const format = await this.siteFormat();
+        const data: Record<string, unknown> = {
+          title: input.title, date: frontMatterDate(format, now), draft: input.draft ?? false,
+          description: input.description || undefined,
+          tags: input.tags ? splitList(input.tags) : undefined,
+          categories: input.categories ? splitList(input.categories) : undefined,
+        };
+        for (const [key, value] of Object.entries(input.frontMatter ?? {})) {
+          if (isFrontMatterKey(key)) data[key] = toFrontMatterValue(format, value);
+        }
+        await this.writePost(filename, { format, data, body: input.content });
+        await this.commit(filename, `Add ${filename}`, write);
+      }
+      await this.push();
+      return { filename, slug: slugOfFile(filename), url: null };
+    });
+  }
+
+  async updatePost(filename: string, patch: ArticlePatch, write: ContentWrite = {}): Promise<void> {
+    const file = this.resolve(filename);
+    await exclusive(async () => {
+      await this.pull();
+      if (!await this.commitFor(write.idempotencyKey)) {
+        const current = await fs.readFile(file, "utf8").catch(() => null);
+        if (current === null) throw new ContentRejectedError(`Статьи «${filename}» нет в репозитории`);
+        const post = parseFrontMatter(current);
+        const next = applyPatchToPost(post, patch);
+        if (next !== post) {
+          await this.writePost(filename, next);
+          await this.commit(filename, `Update ${filename}`, write);
+        }
+      }
+      await this.push();
+    });
+  }
+
+  async deletePost(filename: string, write: ContentWrite = {}): Promise<void> {
+    const file = this.resolve(filename);
+    // A bundle goes with its images
+    const target = path.basename(file) === "index.md" && path.dirname(file) !== this.contentRoot ? path.dirname(file) : file;
+    await exclusive(async () => {
+      await this.pull();
+      if (!await this.commitFor(write.idempotencyKey) && await fs.stat(target).then(() => true, () => false)) {
+        await fs.rm(target, { recursive: true, force: true });
+        await this.commit(path.relative(this.contentRoot, target), `Delete ${filename}`, write);
+      }
+      await this.push();
+    });
+  }
+
+  async listPosts(): Promise<HugoPost[]> {
+    return exclusive(async () => {
+      await this.pull();
+      const posts: HugoPost[] = [];
+      for (const filename of await this.postFiles()) {
+        const file = path.join(this.contentRoot, filename);
+        const [source, stat] = await Promise.all([fs.readFile(file, "utf8"), fs.stat(file)]);
+        try {
+          posts.push(gitPostToHugoPost(filename, parseFrontMatter(source), stat.mtime));
+        } catch (e: any) {
+          // Left out like a post the API does not name; the sync counts it as skipped
+          console.warn(`[GitContent] Cannot read front matter of ${filename}: ${e.message}`);
+          posts.push({ filename: null });
+        }
+      }
+      return posts;
+    });
+  }
+
+  // Filenames are relative to the posts directory and must stay inside it
+  private resolve(filename: string): string {
+    const file = path.resolve(this.contentRoot, filename);
+    if (!file.startsWith(this.contentRoot + path.sep) || !file.endsWith(".md")) {
+      throw new ContentRejectedError(`Недопустимое имя файла статьи: ${filename}`);
+    }
+    return file;
+  }
+
+  // Every .md under the posts directory except section pages (_index.md)
+  private async postFiles(dir = ""): Promise<string[]> {
+    const entries = await fs.readdir(path.join(this.contentRoot, dir), { withFileTypes: true }).catch(() => []);
+    const files: string[] = [];
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) continue;
+      const relative = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) files.push(...await this.postFiles(relative));
+      else if (entry.name.endsWith(".md") && entry.name !== "_index.md") files.push(relative);
+    }
+    return files.sort();
+  }
+
+  // New posts follow the front matter format most posts already use
+  private async siteFormat(): Promise<FrontMatterFormat> {
+    let toml = 0;
+    const files = await this.postFiles();
+    for (const filename of files) {
+      if ((await fs.readFile(path.join(this.contentRoot, filename), "utf8")).startsWith("+++")) toml++;
+    }
+    return toml * 2 > files.length ? "toml" : "yaml";
+  }
+
+  private async freeFilename(title: string): Promise<string> {
+    const base = postSlug(title);
+    const taken = async (slug: string) =>
+      (await Promise.all([`${slug}.md`, slug].map(name => fs.stat(path.join(this.contentRoot, name)).then(() => true, () => false)))).some(Boolean);
+    let slug = base;
+    for (let n = 2; await taken(slug); n++) slug = `${base}-${n}`;
+    return `${slug}.md`;
+  }
+
+  private async writePost(filename: string, post: MarkdownPost) {
+    const file = this.resolve(filename);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, stringifyFrontMatter(post), "utf8");
+  }
+
+  // Commits only the given path, so unrelated edits in the checkout stay out of it
+  private async commit(relative: string, message: string, write: ContentWrite) {
+    const target = path.join(this.contentRoot, relative);
+    await git(this.config.repoPath, ["add", "-A", "--", target]);
+    if (!(await git(this.config.repoPath, ["diff", "--cached", "--name-only", "--", target])).trim()) return;
+    const author = write.author ?? COMMITTER;
+    await git(this.config.repoPath, [
+      "commit", "-q", "-m", message,
+      ...(write.idempotencyKey ? ["-m", `${IDEMPOTENCY_TRAILER}: ${write.idempotencyKey}`] : []),
+      "--", target,
+    ], {
+      GIT_AUTHOR_NAME: author.name, GIT_AUTHOR_EMAIL: author.email,
+      GIT_COMMITTER_NAME: COMMITTER.name, GIT_COMMITTER_EMAIL: COMMITTER.email,
+    });
+  }
+
+  private async commitFor(idempotencyKey: string | undefined): Promise<string | null> {
+    if (!idempotencyKey) return null;
+    const hash = await git(this.config.repoPath, ["log", "-1", "--format=%H", "-F", `--grep=${IDEMPOTENCY_TRAILER}: ${idempotencyKey}`]);
+    return hash.trim() || null;
+  }
+
+  private async addedFile(commit: string): Promise<string | null> {
+    const files = await git(this.config.repoPath, ["show", "--name-only", "--format=", "--diff-filter=A", commit]);
+    const [first] = files.split("\n").filter(Boolean);
+    return first ? path.relative(this.contentRoot, path.join(this.config.repoPath, first)).split(path.sep).join("/") : null;
+  }
+
+  private async branch(): Promise<string> {
+    return this.config.branch || (await git(this.config.repoPath, ["rev-parse", "--abbrev-ref", "HEAD"])).trim();
+  }
+
+  private async pull() {
+    if (!this.config.remote) return;
+    await git(this.config.repoPath, ["pull", "-q", "--rebase", "--autostash", this.config.remote, await this.branch()]);
+  }
+
+  private async push() {
+    if (!this.config.remote) return;
+    await git(this.config.repoPath, ["push", "-q", this.config.remote, `HEAD:${await this.branch()}`]);
+  }
+}
+
+export async function getGitContentConfig(): Promise<GitContentConfig> {
+  const repoPath = await getSetting(GIT_REPO_PATH_SETTING);
+  if (!repoPath) throw new Error("Путь к git-репозиторию сайта не настроен. Используйте /settings для настройки.");
+  return {
+    repoPath,
+    contentDir: await getSetting(GIT_CONTENT_DIR_SETTING) || DEFAULT_GIT_CONTENT_DIR,
+    remote: await getSetting(GIT_REMOTE_SETTING) || undefined,
+    branch: await getSetting(GIT_BRANCH_SETTING) || undefined,
+  };
+}
+
+export async function getGitContentBackend(): Promise<GitContentBackend> {
+  return new GitContentBackend(await getGitContentConfig());
+}
@@ -0,0 +1,135 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { HugoClient, HugoApiError, HugoTimeoutError, HugoResponseError } from "./hugo-api";
+import { FakeHugoServer } from "./fake-hugo-server";
+import { createArticle, updateArticle, removeArticle } from "./articles";
+import { syncArticles } from "./hugo-sync";
+import { isRetryableHugoError } from "./outbox";
+
+// Hugo settings come from the fake server; everything else behaves as without a database
+const settings = vi.hoisted(() => new Map<string, string>());
+vi.mock("./db", async importOriginal => ({
+  ...await importOriginal<typeof import("./db")>(),
+  getSetting: async (key: string) => settings.get(key) ?? null,
+}));
+
+const hugo = new FakeHugoServer();
+
+beforeAll(async () => {
+  await hugo.start();
+  settings.set("hugo_base_url", hugo.baseUrl);
+  settings.set("hugo_api_key", hugo.apiKey);
+});
+
+afterAll(() => hugo.stop());
+
+beforeEach(() => hugo.reset());
+
+describe("HugoClient", () => {
+  const client = () => new HugoClient({ baseUrl: `${hugo.baseUrl}/`, apiKey: hugo.apiKey });
+
+  it("creates, lists, edits and deletes posts", async () => {
+    const created = await client().createPost({ title: "Docker Basics", content: "Body", tags: "docker" });
+    expect(created).toEqual({ filename: "docker-basics.md", slug: "docker-basics", url: `${hugo.baseUrl}/posts/docker-basics/` });
+
+    await client().updatePost("docker-basics.md", { content: "New body", draft: true });
+    const [post] = await client().listPosts();
+    expect(post).toMatchObject({ filename: "docker-basics.md", title: "Docker Basics", content: "New body", tags: "docker", draft: true });
+
+    await client().deletePost("docker-basics.md");
+    expect(await client().listPosts()).toEqual([]);
+    // Already gone counts as deleted
+    await expect(client().deletePost("docker-basics.md")).resolves.toBeUndefined();
+  });
+
+  it("sends the API key and replays writes with the same idempotency key", async () => {
+    await client().createPost({ title: "Once", content: "" }, { idempotencyKey: "key-1" });
+    await client().createPost({ title: "Once", content: "" }, { idempotencyKey: "key-1" });
+    expect(hugo.posts.size).toBe(1);
+    expect(hugo.requests.map(r => r.idempotencyKey)).toEqual(["key-1", "key-1"]);
+  });
+
+  it("raises HugoApiError with the status and Hugo's message", async () => {
+    const wrongKey = new HugoClient({ baseUrl: hugo.baseUrl, apiKey: "wrong" });
+    await expect(wrongKey.listPosts()).rejects.toMatchObject({ name: "HugoApiError", status: 401, message: "Hugo API: 401 (invalid API key)" });
+    await expect(client().updatePost("missing.md", { title: "x" })).rejects.toMatchObject({ status: 404 });
+    await expect(client().createPost({ title: "", content: "" })).rejects.toMatchObject({ status: 422 });
+
+    hugo.fail({ path: "/list", status: 503 });
+    const error = await client().listPosts().catch(e => e);
+    expect(error).toBeInstanceOf(HugoApiError);
+    expect(isRetryableHugoError(error)).toBe(true);
+    expect(await client().listPosts()).toEqual([]);
+  });
+
+  it("gives up on a slow Hugo with HugoTimeoutError", async () => {
+    hugo.fail({ delayMs: 300 });
+    const slow = new HugoClient({ baseUrl: hugo.baseUrl, apiKey: hugo.apiKey, timeoutMs: 50 });
+    const error = await slow.listPosts().catch(e => e);
+    expect(error).toBeInstanceOf(HugoTimeoutError);
+    expect(isRetryableHugoError(error)).toBe(true);
+  });
+
+  it("rejects answers it does not understand", async () => {
+    hugo.fail({ path: "/list", body: "<html>maintenance</html>" });
+    await expect(client().listPosts()).rejects.toThrow(HugoResponseError);
+    hugo.fail({ path: "/list", body: JSON.stringify({ posts: [] }) });
+    await expect(client().listPosts()).rejects.toThrow("неожиданный ответ на /api/posts/list");
+    hugo.fail({ path: "/create", body: JSON.stringify({ filename: 42 }) });
+    await expect(client().createPost({ title: "T", content: "" })).rejects.toThrow("filename");
+  });
+});
+
+describe("article writes against Hugo", () => {
+  it("creates, edits and deletes an article", async () => {
+    const created = await createArticle({ title: "Kubernetes 101", content: "Pods", draft: true });
+    expect(created).toEqual({ filename: "kubernetes-101.md" });
+    expect(hugo.posts.get("kubernetes-101.md")).toMatchObject({ content: "Pods", draft: true });
+
+    expect(await updateArticle("kubernetes-101.md", { draft: false })).toEqual({ filename: "kubernetes-101.md" });
+    expect(hugo.posts.get("kubernetes-101.md")?.draft).toBe(false);
+
+    await removeArticle("kubernetes-101.md");
+    expect(hugo.posts.size).toBe(0);
+    // Every write carries its own idempotency key
+    const keys = hugo.requests.map(r => r.idempotencyKey);
+    expect(new Set(keys).size).toBe(3);
+  });
+
+  it("reports what Hugo refused", async () => {
+    await expect(updateArticle("missing.md", { title: "x" })).rejects.toThrow("Hugo API: 404");
+    hugo.fail({ path: "/delete/", status: 500 });
+    hugo.addPost({ title: "Keep" });
+    await expect(removeArticle("keep.md")).rejects.toThrow("Hugo API: 500");
+    expect(hugo.posts.has("keep.md")).toBe(true);
+
+    hugo.fail({ path: "/create", status: 502 });
+    const { hugoError } = await createArticle({ title: "Later", content: "" });
+    expect(hugoError).toBe("Hugo API: 502 (injected 502)");
+  });
+
+  it("sends the front matter map and checks it against the site schema", async () => {
+    await createArticle({ title: "Series", content: "", frontMatter: { author: "Ann", series: ["k8s"] } });
+    expect(hugo.posts.get("series.md")?.front_matter).toEqual({ author: "Ann", series: ["k8s"] });
+    await updateArticle("series.md", { frontMatter: { weight: 2 } });
+    expect(hugo.posts.get("series.md")?.front_matter).toEqual({ weight: 2 });
+
+    settings.set("front_matter_schema", JSON.stringify({ keys: { author: { type: "string", required: true } } }));
+    try {
+      await expect(updateArticle("series.md", { frontMatter: { weight: 3 } })).rejects.toThrow("author: обязательный ключ");
+      expect(hugo.posts.get("series.md")?.front_matter).toEqual({ weight: 2 });
+    } finally {
+      settings.delete("front_matter_schema");
+    }
+  });
+
+  it("pulls every Hugo post on sync", async () => {
+    hugo.addPost({ title: "First" });
+    hugo.addPost({ title: "Second", tags: "a, b" });
+    const report = await syncArticles();
+    expect(report.pulled.sort()).toEqual(["first.md", "second.md"]);
+    expect(report.errors).toEqual([]);
+
+    hugo.fail({ path: "/list", status: 500 });
+    await expect(syncArticles()).rejects.toThrow(HugoApiError);
+  });
+});
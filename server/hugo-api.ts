@@ -0,0 +1,158 @@
+import { z } from "zod";
+import type { ArticleInput, ArticlePatch } from "./articles";
+import type { ContentBackend, ContentWrite } from "./content-backend";
+import { FETCH_TIMEOUT_MS, fetchWithTimeout, getHugoConfig } from "./tools/helpers";
+
+// ─── Hugo admin REST API client ───
+/** Hugo answered with an error status */
+export class HugoApiError extends Error {
+  constructor(public status: number, detail = "") {
+    super(`Hugo API: ${status}${detail ? ` (${detail})` : ""}`);
+    this.name = "HugoApiError";
+  }
+}
+
+/** Hugo did not answer in time; the write may or may not have been applied */
+export class HugoTimeoutError extends Error {
+  constructor(public timeoutMs: number) {
+    super(`Hugo API: нет ответа за ${Math.round(timeoutMs / 1000)} с`);
+    this.name = "HugoTimeoutError";
+  }
+}
+
+/** Hugo answered with a body the client does not understand */
+export class HugoResponseError extends Error {
+  constructor(public path: string, detail: string) {
+    super(`Hugo API: неожиданный ответ на ${path}: ${detail}`);
+    this.name = "HugoResponseError";
+  }
+}
+
+// Older Hugo API versions send tags and categories as arrays
+const listFieldSchema = z.union([z.string(), z.array(z.string())]).nullish();
+const timestampSchema = z.union([z.string(), z.number()]).nullish();
+
+export const hugoPostSchema = z.object({
+  filename: z.string().nullish(),
+  slug: z.string().nullish(),
+  url: z.string().nullish(),
+  title: z.string().nullish(),
+  description: z.string().nullish(),
+  content: z.string().nullish(),
+  tags: listFieldSchema,
+  categories: listFieldSchema,
+  draft: z.boolean().nullish(),
+  lastmod: timestampSchema,
+  updated_at: timestampSchema,
+  updatedAt: timestampSchema,
+  date: timestampSchema,
+  // Every other front matter key: author, series, aliases, weight, params…
+  front_matter: z.record(z.string(), z.unknown()).nullish(),
+});
+
+const createdPostSchema = z.object({
+  filename: z.string().nullish(),
+  slug: z.string().nullish(),
+  url: z.string().nullish(),
+});
+
+export type HugoPost = z.infer<typeof hugoPostSchema>;
+/** The name, slug and URL Hugo gave a new post */
+export type HugoCreatedPost = z.infer<typeof createdPostSchema>;
+
+export type HugoClientOptions = { baseUrl: string; apiKey: string; timeoutMs?: number };
+
+type HugoRequest = { method?: string; body?: unknown; idempotencyKey?: string };
+
+// The error or message field of a JSON error body, if Hugo sent one
+async function errorDetail(res: Response): Promise<string> {
+  const text = await res.text().catch(() => "");
+  try {
+    const data = JSON.parse(text);
+    return String(data?.error ?? data?.message ?? "").slice(0, 100);
+  } catch {
+    return "";
+  }
+}
+
+export class HugoClient implements ContentBackend {
+  private readonly baseUrl: string;
+
+  constructor(private readonly options: HugoClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+  }
+
+  async createPost(input: ArticleInput, write: ContentWrite = {}): Promise<HugoCreatedPost> {
+    const res = await this.send("/api/posts/create", {
+      method: "POST",
+      body: {
+        title: input.title, content: input.content,
+        description: input.description || "", tags: input.tags || "",
+        categories: input.categories || "", draft: input.draft ?? false,
+        ...(input.frontMatter ? { front_matter: input.frontMatter } : {}),
+      },
+      idempotencyKey: write.idempotencyKey,
+    });
+    return this.parse(res, "/api/posts/create", createdPostSchema);
+  }
+
+  async updatePost(filename: string, patch: ArticlePatch, write: ContentWrite = {}): Promise<void> {
+    const { frontMatter, ...fields } = patch;
+    const body = frontMatter ? { ...fields, front_matter: frontMatter } : fields;
+    await this.send(`/api/posts/edit/${encodeURIComponent(filename)}`, { method: "PUT", body, idempotencyKey: write.idempotencyKey });
+  }
+
+  /** A post Hugo no longer has counts as deleted */
+  async deletePost(filename: string, write: ContentWrite = {}): Promise<void> {
+    try {
+      await this.send(`/api/posts/delete/${encodeURIComponent(filename)}`, { method: "DELETE", idempotencyKey: write.idempotencyKey });
+    } catch (e) {
+      if (!(e instanceof HugoApiError && e.status === 404)) throw e;
+    }
+  }
+
+  async listPosts(): Promise<HugoPost[]> {
+    return this.parse(await this.send("/api/posts/list"), "/api/posts/list", z.array(hugoPostSchema));
+  }
+
+  private async send(path: string, request: HugoRequest = {}): Promise<Response> {
+    const timeoutMs = this.options.timeoutMs ?? FETCH_TIMEOUT_MS;
+    let res: Response;
+    try {
+      res = await fetchWithTimeout(`${this.baseUrl}${path}`, {
+        method: request.method ?? "GET",
+        headers: {
+          ...(request.body === undefined ? {} : { "Content-Type": "application/json" }),
+          ...(request.idempotencyKey ? { "Idempotency-Key": request.idempotencyKey } : {}),
+          "X-API-Key": this.options.apiKey,
+        },
+        body: request.body === undefined ? undefined : JSON.stringify(request.body),
+      }, timeoutMs);
+    } catch (e: any) {
+      if (e?.name === "AbortError") throw new HugoTimeoutError(timeoutMs);
+      throw e;
+    }
+    if (!res.ok) throw new HugoApiError(res.status, await errorDetail(res));
+    return res;
+  }
+
+  private async parse<T>(res: Response, path: string, schema: z.ZodType<T>): Promise<T> {
+    let data: unknown;
+    try {
+      data = await res.json();
+    } catch {
+      throw new HugoResponseError(path, "не JSON");
+    }
+    const parsed = schema.safeParse(data);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new HugoResponseError(path, issue ? `${issue.path.join(".") || "тело"}: ${issue.message}` : "неверный формат");
+    }
+    return parsed.data;
+  }
+}
+
+/** Client for the Hugo from settings */
+export async function getHugoClient(): Promise<HugoClient> {
+  return new HugoClient(await getHugoConfig());
+}
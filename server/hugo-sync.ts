@@ -0,0 +1,351 @@
+import type { Article, ArticleSyncConflict, FrontMatter } from "../drizzle/schema";
+import {
+  listAllArticles, getArticleByFilename, getArticleRevision, deleteArticle, saveSyncConflict, getSyncConflicts,
+  getSyncConflictById, deleteSyncConflict, getPendingOutboxEntries, setArticleSyncState, type ConversationOwner,
+} from "./db";
+import { getContentBackend } from "./content-backend";
+import { frontMatterOf, stableJson } from "./front-matter";
+import type { HugoPost } from "./hugo-api";
+import { sendHugoWrite, type HugoWriteResult } from "./outbox";
+import { requestArticleIndexRefresh } from "./retrieval";
+import { saveArticle, saveSyncedArticle, articleSyncHash, renderArticleForDiff, sanitizeErrorForUser } from "./tools/helpers";
+import { mergeThreeWay, unifiedDiff } from "./unified-diff";
+
+// ─── Two-way Hugo sync ───
+// Each article remembers the hash of the state both sides agreed on last time (syncedHash);
+// comparing the local and the remote hash with it tells which side changed. It also remembers Hugo's
+// lastmod (remoteUpdatedAt): a post whose lastmod has not moved since is not compared at all.
+const MAX_CONFLICT_DIFF_LENGTH = 1500;
+
+export type SyncFields = {
+  title: string;
+  description: string;
+  content: string;
+  tags: string;
+  categories: string;
+  draft: boolean;
+  frontMatter: FrontMatter;
+};
+
+export type RemotePost = SyncFields & { filename: string; slug?: string; url?: string; updatedAt: Date | null };
+
+export type SyncAction =
+  | { type: "unchanged" }
+  | { type: "pull" }
+  | { type: "push" }
+  | { type: "upload" }
+  | { type: "delete_local" }
+  | { type: "conflict"; kind: ArticleSyncConflict["kind"] };
+
+export type ConflictResolution = "local" | "remote" | "merge";
+
+export interface SyncReport {
+  pulled: string[];
+  pushed: string[];
+  uploaded: string[];
+  deletedLocally: string[];
+  /** Writes Hugo did not take this time; the outbox retries them */
+  queued: string[];
+  conflicts: ArticleSyncConflict[];
+  unchanged: number;
+  /** Posts Hugo listed without a filename or slug */
+  skipped: number;
+  errors: string[];
+}
+
+function listField(value: HugoPost["tags"]): string {
+  return Array.isArray(value) ? value.join(", ") : value ?? "";
+}
+
+export function normalizeRemotePost(post: HugoPost): RemotePost | null {
+  const filename = post.filename || post.slug;
+  if (!filename) return null;
+  // Not `date`: that is when the post was published, so it stays put when the post is edited
+  const modified = post.lastmod ?? post.updated_at ?? post.updatedAt;
+  const updatedAt = modified ? new Date(modified) : null;
+  return {
+    filename, slug: post.slug || undefined, url: post.url || undefined,
+    title: post.title || "Untitled", description: post.description ?? "", content: post.content ?? "",
+    tags: listField(post.tags), categories: listField(post.categories), draft: Boolean(post.draft),
+    frontMatter: frontMatterOf(post.front_matter ?? {}),
+    updatedAt: updatedAt && !isNaN(updatedAt.getTime()) ? updatedAt : null,
+  };
+}
+
+export function syncFieldsOf(
+  article: Pick<Article, "title" | "description" | "content" | "tags" | "categories" | "draft"> & { frontMatter?: FrontMatter | null }
+): SyncFields {
+  return {
+    title: article.title, description: article.description ?? "", content: article.content ?? "",
+    tags: article.tags ?? "", categories: article.categories ?? "", draft: Boolean(article.draft),
+    frontMatter: article.frontMatter ?? {},
+  };
+}
+
+// MySQL keeps timestamps to the second
+function sameSecond(a: Date | null | undefined, b: Date | null | undefined): boolean {
+  return Boolean(a && b) && Math.floor(a!.getTime() / 1000) === Math.floor(b!.getTime() / 1000);
+}
+
+/** Hugo's lastmod is the one it had at the last sync, so the post has not changed there */
+export function remoteUnchangedSinceSync(local: Article, remote: RemotePost): boolean {
+  return Boolean(local.syncedHash) && sameSecond(local.remoteUpdatedAt, remote.updatedAt);
+}
+
+/**
+ * What to do with one article. Without a sync hash the article has never been synced:
+ * a local-only one is uploaded, one cached from Hugo before hashes existed (it has a URL)
+ * takes the Hugo version like the old sync did.
+ */
+export function decideSyncAction(local: Article | undefined, remote: RemotePost | undefined): SyncAction {
+  if (!local) return remote ? { type: "pull" } : { type: "unchanged" };
+  const localHash = articleSyncHash(local);
+  if (!remote) {
+    if (!local.syncedHash) return local.hugoUrl ? { type: "conflict", kind: "deleted_remotely" } : { type: "upload" };
+    return localHash === local.syncedHash ? { type: "delete_local" } : { type: "conflict", kind: "deleted_remotely" };
+  }
+  if (remoteUnchangedSinceSync(local, remote)) return localHash === local.syncedHash ? { type: "unchanged" } : { type: "push" };
+  const remoteHash = articleSyncHash(remote);
+  if (localHash === remoteHash) return local.syncedHash === localHash ? { type: "unchanged" } : { type: "pull" };
+  if (!local.syncedHash) return local.hugoUrl ? { type: "pull" } : { type: "conflict", kind: "both_changed" };
+  if (localHash === local.syncedHash) return { type: "pull" };
+  if (remoteHash === local.syncedHash) return { type: "push" };
+  return { type: "conflict", kind: "both_changed" };
+}
+
+async function pullPost(remote: RemotePost, owner?: ConversationOwner) {
+  const { filename, slug, url, updatedAt, ...fields } = remote;
+  await saveSyncedArticle({ filename, slug, hugoUrl: url, ...fields, syncedAt: new Date() }, "sync", owner, updatedAt);
+}
+
+// Local first, then through the outbox, so a write Hugo does not take now is retried
+async function pushArticle(article: Article, fields: SyncFields, owner?: ConversationOwner): Promise<HugoWriteResult> {
+  const revision = await saveArticle({ filename: article.filename, ...fields }, "sync", owner);
+  return sendHugoWrite({ operation: "edit", filename: article.filename, body: fields, revision }, owner);
+}
+
+/** Creates the post on Hugo; the local copy takes over the filename Hugo gives it */
+async function uploadArticle(article: Article, fields: SyncFields, owner?: ConversationOwner): Promise<HugoWriteResult> {
+  const revision = await saveArticle({ filename: article.filename, ...fields }, "sync", owner);
+  return sendHugoWrite({ operation: "create", filename: article.filename, body: fields, revision }, owner);
+}
+
+function recordWrite(report: SyncReport, done: string[], result: HugoWriteResult) {
+  if (result.status === "abandoned") throw new Error(result.error);
+  (result.status === "done" ? done : report.queued).push(result.filename);
+}
+
+/** Compares every local article with Hugo and applies the changes of whichever side moved */
+export async function syncArticles(owner?: ConversationOwner): Promise<SyncReport> {
+  const posts = await (await getContentBackend()).listPosts();
+  const report: SyncReport = {
+    pulled: [], pushed: [], uploaded: [], deletedLocally: [], queued: [], conflicts: [], unchanged: 0, skipped: 0, errors: [],
+  };
+  const remotes = new Map<string, RemotePost>();
+  for (const post of posts) {
+    const remote = normalizeRemotePost(post);
+    if (remote) remotes.set(remote.filename, remote);
+    else report.skipped++;
+  }
+  const locals = new Map((await listAllArticles()).map(a => [a.filename, a]));
+  // An empty list from a misconfigured Hugo would otherwise read as "everything was deleted"
+  if (remotes.size === 0 && Array.from(locals.values()).some(a => a.syncedHash)) {
+    throw new Error("Hugo вернул пустой список статей — синхронизация остановлена, чтобы не удалить локальные копии");
+  }
+  const filenames = Array.from(new Set([...Array.from(remotes.keys()), ...Array.from(locals.keys())]));
+  const conflicted = new Set<string>();
+  // Articles with writes still in the outbox are compared once those reach Hugo
+  const waiting = new Set((await getPendingOutboxEntries()).map(e => e.filename));
+
+  for (const filename of filenames) {
+    if (waiting.has(filename)) {
+      report.queued.push(filename);
+      continue;
+    }
+    const local = locals.get(filename);
+    const remote = remotes.get(filename);
+    const action = decideSyncAction(local, remote);
+    try {
+      if (action.type === "unchanged") {
+        report.unchanged++;
+        // Hugo moved lastmod without a change (e.g. on our own outbox write): the next sync skips the post again
+        if (local?.syncedHash && remote?.updatedAt && !remoteUnchangedSinceSync(local, remote)) {
+          await setArticleSyncState(filename, { syncedHash: local.syncedHash, syncedRevision: local.syncedRevision, remoteUpdatedAt: remote.updatedAt });
+        }
+      } else if (action.type === "pull") {
+        await pullPost(remote!, owner);
+        report.pulled.push(filename);
+      } else if (action.type === "push") {
+        recordWrite(report, report.pushed, await pushArticle(local!, syncFieldsOf(local!), owner));
+      } else if (action.type === "upload") {
+        recordWrite(report, report.uploaded, await uploadArticle(local!, syncFieldsOf(local!), owner));
+      } else if (action.type === "delete_local") {
+        await deleteArticle(filename);
+        report.deletedLocally.push(filename);
+      } else {
+        conflicted.add(filename);
+        await saveSyncConflict({
+          filename, kind: action.kind,
+          remote: remote ? JSON.stringify(syncFieldsOf(remote)) : null,
+          remoteUpdatedAt: remote?.updatedAt ?? null,
+        });
+      }
+    } catch (e: any) {
+      report.errors.push(`${filename}: ${sanitizeErrorForUser(e)}`);
+    }
+  }
+
+  // Conflicts that went away (the same edit on both sides, a deleted article) are dropped
+  const conflicts = await getSyncConflicts();
+  for (const conflict of conflicts) {
+    if (!conflicted.has(conflict.filename)) await deleteSyncConflict(conflict.filename);
+  }
+  report.conflicts = conflicts.filter(c => conflicted.has(c.filename));
+  if (report.pulled.length > 0 || report.deletedLocally.length > 0) requestArticleIndexRefresh();
+  return report;
+}
+
+// ─── Conflict resolution ───
+const FIELD_LABELS: Record<keyof SyncFields, string> = {
+  title: "заголовок", description: "описание", content: "текст", tags: "теги", categories: "категории", draft: "статус",
+  frontMatter: "front matter",
+};
+
+function splitList(value: string): string[] {
+  return value.split(",").map(item => item.trim()).filter(Boolean);
+}
+
+// Items either side added stay, items either side removed go
+function mergeList(base: string, local: string, remote: string): string {
+  const baseItems = splitList(base);
+  const localItems = splitList(local);
+  const remoteItems = splitList(remote);
+  const removed = baseItems.filter(item => !localItems.includes(item) || !remoteItems.includes(item));
+  const merged: string[] = [];
+  for (const item of [...localItems, ...remoteItems]) {
+    if (!removed.includes(item) && !merged.includes(item)) merged.push(item);
+  }
+  return merged.join(", ");
+}
+
+// Key by key, like the fields; returns the keys both sides changed differently
+function mergeFrontMatter(base: FrontMatter, local: FrontMatter, remote: FrontMatter): { merged: FrontMatter; conflicts: string[] } {
+  const merged = { ...local };
+  const conflicts: string[] = [];
+  for (const key of Array.from(new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]))) {
+    const [b, l, r] = [stableJson(base[key]), stableJson(local[key]), stableJson(remote[key])];
+    if (l === r || r === b) continue;
+    if (l !== b) conflicts.push(key);
+    else if (remote[key] === undefined) delete merged[key];
+    else merged[key] = remote[key];
+  }
+  return { merged, conflicts };
+}
+
+function copyField<K extends keyof SyncFields>(target: SyncFields, source: SyncFields, field: K) {
+  target[field] = source[field];
+}
+
+/** Field by field against the last synced version; the text is merged line by line */
+export function mergeSyncFields(base: SyncFields, local: SyncFields, remote: SyncFields): { merged: SyncFields } | { conflicts: string[] } {
+  const merged = { ...local };
+  const conflicts: string[] = [];
+  for (const field of Object.keys(FIELD_LABELS) as Array<keyof SyncFields>) {
+    if (field === "frontMatter") {
+      // Conflicts from before front matter was synced have no map on the remote side
+      const result = mergeFrontMatter(base.frontMatter ?? {}, local.frontMatter ?? {}, remote.frontMatter ?? {});
+      merged.frontMatter = result.merged;
+      conflicts.push(...result.conflicts.map(key => `${FIELD_LABELS.frontMatter}: ${key}`));
+      continue;
+    }
+    const [b, l, r] = [base[field], local[field], remote[field]];
+    if (l === r || r === b) continue;
+    if (l === b) {
+      copyField(merged, remote, field);
+    } else if (field === "tags" || field === "categories") {
+      merged[field] = mergeList(String(b), String(l), String(r));
+    } else if (field === "content") {
+      const content = mergeThreeWay(String(b), String(l), String(r));
+      if (content === null) conflicts.push(FIELD_LABELS[field]);
+      else merged.content = content;
+    } else {
+      conflicts.push(FIELD_LABELS[field]);
+    }
+  }
+  return conflicts.length > 0 ? { conflicts } : { merged };
+}
+
+// A queued write still settles the conflict: the outbox delivers it
+async function delivered(write: Promise<HugoWriteResult>) {
+  const result = await write;
+  if (result.status === "abandoned") throw new Error(result.error);
+}
+
+export async function resolveSyncConflict(id: number, resolution: ConflictResolution, owner?: ConversationOwner): Promise<string> {
+  const conflict = await getSyncConflictById(id);
+  if (!conflict) throw new Error("Конфликт не найден: возможно, он уже разрешён");
+  const local = await getArticleByFilename(conflict.filename);
+  const remote: SyncFields | null = conflict.remote ? JSON.parse(conflict.remote) : null;
+  if (!local) {
+    await deleteSyncConflict(conflict.filename);
+    throw new Error("Локальной статьи больше нет");
+  }
+
+  if (resolution === "local") {
+    const fields = syncFieldsOf(local);
+    await delivered(remote ? pushArticle(local, fields, owner) : uploadArticle(local, fields, owner));
+  } else if (resolution === "remote") {
+    if (remote) {
+      await saveSyncedArticle({ filename: local.filename, ...remote, syncedAt: new Date() }, "sync", owner, conflict.remoteUpdatedAt);
+    } else {
+      await deleteArticle(local.filename);
+    }
+  } else {
+    if (!remote) throw new Error("Статья удалена в Hugo — объединять не с чем");
+    const base = local.syncedRevision ? await getArticleRevision(local.filename, local.syncedRevision) : null;
+    if (!base) throw new Error("Нет общей версии для слияния: выберите локальную или версию из Hugo");
+    const result = mergeSyncFields(syncFieldsOf(base), syncFieldsOf(local), remote);
+    if ("conflicts" in result) throw new Error(`Изменения пересекаются (${result.conflicts.join(", ")}): выберите одну из версий`);
+    await delivered(pushArticle(local, result.merged, owner));
+  }
+  await deleteSyncConflict(conflict.filename);
+  requestArticleIndexRefresh();
+  return conflict.filename;
+}
+
+// ─── Formatting ───
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  local: "оставлена локальная версия",
+  remote: "оставлена версия из Hugo",
+  merge: "версии объединены",
+};
+
+export function resolutionMessage(filename: string, resolution: ConflictResolution): string {
+  return `✅ ${filename}: ${RESOLUTION_LABELS[resolution]}.`;
+}
+
+export function formatSyncConflict(conflict: ArticleSyncConflict, local: Article | null): string {
+  const remote: SyncFields | null = conflict.remote ? JSON.parse(conflict.remote) : null;
+  const header = `⚠️ Конфликт синхронизации #${conflict.id}: «${local?.title ?? conflict.filename}» (${conflict.filename})`;
+  if (!remote || !local) return `${header}\nСтатья удалена в Hugo, но изменена локально.`;
+  const diff = unifiedDiff(renderArticleForDiff(local), renderArticleForDiff(remote), { oldLabel: "локальная", newLabel: "Hugo" });
+  const shown = diff.length > MAX_CONFLICT_DIFF_LENGTH ? `${diff.slice(0, MAX_CONFLICT_DIFF_LENGTH)}\n…` : diff;
+  return `${header}\nИзменена и локально, и в Hugo.\n\n${shown}`;
+}
+
+export function formatSyncReport(report: SyncReport): string {
+  const lines = [
+    report.pulled.length > 0 ? `📥 Загружено из Hugo: ${report.pulled.length}` : "",
+    report.pushed.length > 0 ? `📤 Отправлено в Hugo: ${report.pushed.join(", ")}` : "",
+    report.uploaded.length > 0 ? `🆕 Выгружены локальные черновики: ${report.uploaded.join(", ")}` : "",
+    report.deletedLocally.length > 0 ? `🗑 Удалены в Hugo, удалены и здесь: ${report.deletedLocally.join(", ")}` : "",
+    report.queued.length > 0 ? `⏳ Ждут отправки в Hugo (/pending): ${report.queued.join(", ")}` : "",
+    `✔️ Без изменений: ${report.unchanged}`,
+    report.skipped > 0 ? `⏭ Пропущено постов без имени файла: ${report.skipped}` : "",
+    report.conflicts.length > 0
+      ? `⚠️ Конфликты (${report.conflicts.length}): ${report.conflicts.map(c => `#${c.id} ${c.filename}`).join(", ")}`
+      : "",
+    report.errors.length > 0 ? `❌ Ошибки:\n${report.errors.map(e => `• ${e}`).join("\n")}` : "",
+  ];
+  return `🔄 Синхронизация завершена:\n\n${lines.filter(Boolean).join("\n")}`;
+}
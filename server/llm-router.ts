@@ -0,0 +1,229 @@
+import { z } from "zod";
+import { invokeLLM, readChatCompletionStream } from "./_core/llm";
+import { getSetting, setSetting } from "./db";
+
+// ─── LLM providers: an ordered fallback chain configured in settings ───
+export const LLM_PROVIDERS_SETTING = "llm_providers";
+export const DEFAULT_PROVIDER_TIMEOUT_MS = 60_000;
+/** Consecutive failures that open a provider's circuit */
+export const CIRCUIT_FAILURE_THRESHOLD = 3;
+/** How long an open circuit skips the provider before it is tried again */
+export const CIRCUIT_COOLDOWN_MS = 5 * 60_000;
+
+export const LLM_PROVIDER_TYPES = ["ollama", "lmstudio", "openai", "builtin"] as const;
+
+export const PROVIDER_TYPE_LABELS: Record<LLMProviderType, string> = {
+  ollama: "Ollama",
+  lmstudio: "LM Studio",
+  openai: "OpenAI-совместимый",
+  builtin: "Встроенный",
+};
+
+export const llmProviderSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]{1,32}$/, "Только латиница в нижнем регистре, цифры, - и _"),
+  name: z.string().min(1).max(64),
+  type: z.enum(LLM_PROVIDER_TYPES),
+  /** Base URL without /v1; required for every type except builtin */
+  endpoint: z.url().max(1024).optional(),
+  apiKey: z.string().min(1).max(512).optional(),
+  model: z.string().min(1).max(256).optional(),
+  timeoutMs: z.number().int().min(1000).max(600_000).optional(),
+  /** Lower runs first */
+  priority: z.number().int().min(0).max(1000),
+  enabled: z.boolean().default(true),
+}).refine(p => p.type === "builtin" || p.endpoint, { message: "Для этого типа нужен endpoint", path: ["endpoint"] });
+
+export type LLMProviderType = (typeof LLM_PROVIDER_TYPES)[number];
+export type LLMProviderConfig = z.infer<typeof llmProviderSchema>;
+
+export const BUILTIN_PROVIDER: LLMProviderConfig = {
+  id: "builtin", name: "Встроенный", type: "builtin", priority: 100, enabled: true,
+};
+
+/** The chain implied by the older single-endpoint settings (llm_use_local, llm_endpoint, ...) */
+export function legacyProviders(settings: {
+  useLocal: string | null; endpoint: string | null; model: string | null; apiKey: string | null;
+}): LLMProviderConfig[] {
+  if (settings.useLocal !== "true" || !settings.endpoint) return [BUILTIN_PROVIDER];
+  return [
+    {
+      id: "local", name: "Локальная LLM", type: "openai", endpoint: settings.endpoint, priority: 10, enabled: true,
+      ...(settings.model ? { model: settings.model } : {}),
+      ...(settings.apiKey ? { apiKey: settings.apiKey } : {}),
+    },
+    BUILTIN_PROVIDER,
+  ];
+}
+
+export function sortProviders(providers: LLMProviderConfig[]): LLMProviderConfig[] {
+  return [...providers].sort((a, b) => a.priority - b.priority);
+}
+
+/** Configured chain sorted by priority; invalid entries are skipped */
+export async function getLLMProviders(): Promise<LLMProviderConfig[]> {
+  const raw = await getSetting(LLM_PROVIDERS_SETTING);
+  if (raw) {
+    try {
+      const parsed = z.array(z.unknown()).parse(JSON.parse(raw));
+      const providers = parsed.flatMap(entry => {
+        const result = llmProviderSchema.safeParse(entry);
+        if (!result.success) console.warn(`[LLM] Ignoring invalid provider in settings: ${JSON.stringify(entry).slice(0, 200)}`);
+        return result.success ? [result.data] : [];
+      });
+      return sortProviders(providers);
+    } catch (e: any) {
+      console.warn(`[LLM] Invalid ${LLM_PROVIDERS_SETTING} setting: ${e.message}, using legacy settings`);
+    }
+  }
+  return legacyProviders({
+    useLocal: await getSetting("llm_use_local"),
+    endpoint: await getSetting("llm_endpoint"),
+    model: await getSetting("llm_model"),
+    apiKey: await getSetting("llm_api_key"),
+  });
+}
+
+export async function saveLLMProviders(providers: LLMProviderConfig[]) {
+  await setSetting(LLM_PROVIDERS_SETTING, JSON.stringify(sortProviders(providers)));
+}
+
+export function describeProvider(provider: Pick<LLMProviderConfig, "name" | "model">, model?: string): string {
+  const shownModel = model || provider.model;
+  return shownModel ? `${provider.name} · ${shownModel}` : provider.name;
+}
+
+// ─── Circuit breaker ───
+type CircuitState = { failures: number; openUntil: number; lastError?: string };
+
+const circuits = new Map<string, CircuitState>();
+
+export function getCircuitState(providerId: string): CircuitState {
+  return circuits.get(providerId) ?? { failures: 0, openUntil: 0 };
+}
+
+export function isCircuitOpen(providerId: string, now = Date.now()): boolean {
+  return getCircuitState(providerId).openUntil > now;
+}
+
+export function recordProviderSuccess(providerId: string) {
+  circuits.delete(providerId);
+}
+
+export function recordProviderFailure(providerId: string, error: string, now = Date.now()) {
+  const state = getCircuitState(providerId);
+  const failures = state.failures + 1;
+  // After the cooldown one trial request goes through; a failure re-opens the circuit right away
+  const openUntil = failures >= CIRCUIT_FAILURE_THRESHOLD ? now + CIRCUIT_COOLDOWN_MS : 0;
+  if (openUntil && !state.openUntil) console.warn(`[LLM] Circuit opened for provider "${providerId}" after ${failures} failures`);
+  circuits.set(providerId, { failures, openUntil, lastError: error });
+}
+
+export function resetCircuits() {
+  circuits.clear();
+}
+
+// ─── Requests ───
+export type ChatRequest = {
+  messages: Array<Record<string, any>>;
+  tools?: any[];
+  tool_choice?: "none" | "auto" | "required";
+  onText?: (text: string) => void;
+};
+
+export type ProviderAttempt = { provider: LLMProviderConfig; response?: any; error?: string; latencyMs: number };
+
+/** The completion plus which provider produced it */
+export type RoutedResponse = { response: any; provider: LLMProviderConfig };
+
+async function requestProvider(provider: LLMProviderConfig, request: ChatRequest, signal: AbortSignal): Promise<any> {
+  const stream = Boolean(request.onText);
+  if (provider.type === "builtin") {
+    return invokeLLM({
+      messages: request.messages.map(m => ({
+        role: m.role,
+        content: m.content,
+        ...(m.tool_call_id ? { tool_call_id: m.tool_call_id } : {}),
+        ...(m.tool_calls ? { tool_calls: m.tool_calls } : {}),
+      })),
+      ...(request.tools ? { tools: request.tools, tool_choice: (request.tool_choice || "auto") as "auto" } : {}),
+      ...(stream ? { stream: true, onText: request.onText } : {}),
+      model: provider.model,
+      signal,
+    });
+  }
+
+  // Ollama and LM Studio both serve the OpenAI-compatible API under /v1
+  const body: any = {
+    model: provider.model || "default",
+    messages: request.messages,
+    max_tokens: 8192,
+    temperature: 0.7,
+  };
+  if (request.tools) { body.tools = request.tools; body.tool_choice = request.tool_choice || "auto"; }
+  if (stream) { body.stream = true; body.stream_options = { include_usage: true }; }
+
+  const res = await fetch(`${provider.endpoint!.replace(/\/+$/, "")}/v1/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(provider.apiKey ? { Authorization: `Bearer ${provider.apiKey}` } : {}),
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`HTTP ${res.status}: ${text.slice(0, 300)}`);
+  }
+  return stream && res.body ? readChatCompletionStream(res.body, request.onText) : res.json();
+}
+
+/** One provider with its timeout covering the whole response, streamed body included */
+async function attemptProvider(provider: LLMProviderConfig, request: ChatRequest): Promise<any> {
+  const timeoutMs = provider.timeoutMs ?? DEFAULT_PROVIDER_TIMEOUT_MS;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await requestProvider(provider, request, controller.signal);
+    if (!response?.choices?.length) throw new Error("Empty response");
+    return response;
+  } catch (e: any) {
+    if (controller.signal.aborted) throw new Error(`Timeout after ${Math.round(timeoutMs / 1000)} s`);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Tries enabled providers in priority order, skipping those with an open circuit
+ * (unless every one is open). `onAttempt` sees each try, failed ones included.
+ */
+export async function routeChatCompletion(
+  request: ChatRequest,
+  onAttempt?: (attempt: ProviderAttempt) => Promise<void> | void,
+  providers?: LLMProviderConfig[]
+): Promise<RoutedResponse> {
+  const enabled = sortProviders(providers ?? await getLLMProviders()).filter(p => p.enabled);
+  if (enabled.length === 0) throw new Error("Нет включённых LLM-провайдеров. Добавьте провайдера в настройках.");
+  const closed = enabled.filter(p => !isCircuitOpen(p.id));
+  const chain = closed.length > 0 ? closed : enabled;
+
+  const errors: string[] = [];
+  for (const provider of chain) {
+    const startedAt = Date.now();
+    try {
+      const response = await attemptProvider(provider, request);
+      recordProviderSuccess(provider.id);
+      await onAttempt?.({ provider, response, latencyMs: Date.now() - startedAt });
+      return { response, provider };
+    } catch (e: any) {
+      const error = e?.message ?? String(e);
+      console.warn(`[LLM] Provider "${provider.id}" failed: ${error}`);
+      recordProviderFailure(provider.id, error);
+      await onAttempt?.({ provider, error, latencyMs: Date.now() - startedAt });
+      errors.push(`${provider.name}: ${error}`);
+    }
+  }
+  throw new Error(`Все LLM-провайдеры недоступны (${errors.join("; ")})`);
+}
@@ -0,0 +1,121 @@
+import { z } from "zod";
+import type { AiGeneration } from "../drizzle/schema";
+import { getSetting, setSetting, type ConversationOwner } from "./db";
+import { recordLLMCall } from "./usage";
+import { assertWithinBudget, checkBudgetAlerts } from "./budget";
+import { routeChatCompletion, describeProvider, getLLMProviders, type LLMProviderConfig } from "./llm-router";
+
+// ─── Per-task models: a small fast model for routing, a large one for writing ───
+export const LLM_TASK_MODELS_SETTING = "llm_task_models";
+
+export const LLM_TASKS = ["chat", "article", "seo", "translation", "image_prompt"] as const;
+export type LLMTask = (typeof LLM_TASKS)[number];
+
+export const LLM_TASK_LABELS: Record<LLMTask, string> = {
+  chat: "Диалог и выбор инструментов",
+  article: "Написание статей",
+  seo: "SEO-метаданные",
+  translation: "Перевод",
+  image_prompt: "Промпты для изображений",
+};
+
+// How each task is labelled in ai_generations
+const TASK_GENERATION_TYPES: Record<LLMTask, AiGeneration["type"]> = {
+  chat: "assistant",
+  article: "article_generate",
+  seo: "seo_optimize",
+  translation: "article_edit",
+  image_prompt: "image_generate",
+};
+
+export const taskModelSchema = z.object({
+  model: z.string().min(1).max(256),
+  /** Provider that runs the model; the head of the chain when omitted */
+  provider: z.string().regex(/^[a-z0-9_-]{1,32}$/).optional(),
+});
+
+export type TaskModel = z.infer<typeof taskModelSchema>;
+export type TaskModels = Partial<Record<LLMTask, TaskModel>>;
+
+const taskModelsSchema = z.partialRecord(z.enum(LLM_TASKS), taskModelSchema);
+
+export async function getTaskModels(): Promise<TaskModels> {
+  const raw = await getSetting(LLM_TASK_MODELS_SETTING);
+  if (!raw) return {};
+  try {
+    return taskModelsSchema.parse(JSON.parse(raw));
+  } catch (e: any) {
+    console.warn(`[LLM] Invalid ${LLM_TASK_MODELS_SETTING} setting: ${e.message}`);
+    return {};
+  }
+}
+
+export async function saveTaskModels(models: TaskModels) {
+  await setSetting(LLM_TASK_MODELS_SETTING, JSON.stringify(models));
+}
+
+/**
+ * The chain with the task's model swapped in on its provider. The order stays by priority,
+ * so fallbacks keep their own models.
+ */
+export function applyTaskModel(providers: LLMProviderConfig[], taskModel?: TaskModel): LLMProviderConfig[] {
+  if (!taskModel) return providers;
+  const targetId = taskModel.provider ?? providers.find(p => p.enabled)?.id;
+  if (!providers.some(p => p.id === targetId)) {
+    console.warn(`[LLM] Task model provider "${taskModel.provider}" is not in the chain, using default models`);
+    return providers;
+  }
+  return providers.map(p => (p.id === targetId ? { ...p, model: taskModel.model } : p));
+}
+
+// ─── Accounted LLM calls over the provider chain (llm-router.ts) ───
+export type CallLLMOptions = {
+  tools?: any[];
+  tool_choice?: "none" | "auto" | "required";
+  onText?: (text: string) => void;
+  owner?: ConversationOwner;
+  /** Picks the model from the per-task settings; "chat" when omitted */
+  task?: LLMTask;
+};
+
+// Passing `onText` switches every provider to SSE streaming and reports the accumulated text as it arrives.
+// Every attempt, including failed ones before a fallback, is logged for `owner` in ai_generations;
+// the owner's daily token budgets are checked first and throw TokenBudgetExceededError once spent.
+// The response carries `servedBy`: the provider and model that answered.
+export async function callLLM(messages: Array<Record<string, any>>, options?: CallLLMOptions): Promise<any> {
+  const task = options?.task ?? "chat";
+  await assertWithinBudget(options?.owner);
+  const chain = applyTaskModel(await getLLMProviders(), (await getTaskModels())[task]);
+  const { response, provider } = await routeChatCompletion(
+    { messages, tools: options?.tools, tool_choice: options?.tool_choice, onText: options?.onText },
+    ({ provider, response, error }) => recordLLMCall({
+      owner: options?.owner, type: TASK_GENERATION_TYPES[task], provider: provider.id, model: provider.model,
+      messages: messages as Array<{ role: string; content?: unknown }>, response, error,
+    }),
+    chain
+  );
+  await checkBudgetAlerts(options?.owner);
+  return { ...response, servedBy: describeProvider(provider, response.model) };
+}
+
+/** Plain text completion for one task, used by tools that write content themselves */
+export async function completeTask(
+  task: LLMTask,
+  messages: Array<{ role: "system" | "user" | "assistant"; content: string }>,
+  owner?: ConversationOwner
+): Promise<string> {
+  const response = await callLLM(messages, { owner, task });
+  const content = response.choices?.[0]?.message?.content;
+  const text = typeof content === "string" ? content.trim() : "";
+  if (!text) throw new Error("LLM вернула пустой ответ");
+  return text;
+}
+
+/** Models often wrap JSON in a ```json fence or add a sentence around it */
+export function parseJsonReply(text: string): any {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(text)?.[1] ?? text;
+  const start = fenced.indexOf("{");
+  const end = fenced.lastIndexOf("}");
+  if (start === -1 || end < start) throw new Error("В ответе модели нет JSON");
+  return JSON.parse(fenced.slice(start, end + 1));
+}
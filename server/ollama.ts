@@ -0,0 +1,153 @@
+import { fetchWithTimeout } from "./tools/helpers";
+import { getLLMProviders, saveLLMProviders, recordProviderSuccess, type LLMProviderConfig } from "./llm-router";
+
+// ─── Native Ollama API: installed models, model details and downloads ───
+// Chat goes through the OpenAI-compatible /v1 API in llm-router.ts; this covers what /v1 lacks
+const OLLAMA_REQUEST_TIMEOUT_MS = 15_000;
+
+export type OllamaModel = {
+  name: string;
+  size: number;
+  modifiedAt: string;
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+};
+
+export type OllamaModelDetails = { name: string; contextLength?: number };
+
+/** One line of the /api/pull stream */
+export type OllamaPullProgress = { status: string; digest?: string; total?: number; completed?: number };
+
+// The same server is often configured with the /v1 suffix for chat
+function ollamaUrl(endpoint: string, path: string): string {
+  return `${endpoint.replace(/\/+$/, "").replace(/\/v1$/, "")}${path}`;
+}
+
+async function ollamaRequest(endpoint: string, path: string, body?: unknown): Promise<any> {
+  const res = await fetchWithTimeout(ollamaUrl(endpoint, path), body === undefined ? {} : {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }, OLLAMA_REQUEST_TIMEOUT_MS);
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`Ollama ${path}: HTTP ${res.status}: ${text.slice(0, 200)}`);
+  }
+  return res.json();
+}
+
+export async function listOllamaModels(endpoint: string): Promise<OllamaModel[]> {
+  const data = await ollamaRequest(endpoint, "/api/tags");
+  const models: OllamaModel[] = (data?.models ?? []).map((m: any) => ({
+    name: m.name ?? m.model,
+    size: m.size ?? 0,
+    modifiedAt: m.modified_at ?? "",
+    family: m.details?.family || undefined,
+    parameterSize: m.details?.parameter_size || undefined,
+    quantization: m.details?.quantization_level || undefined,
+  }));
+  return models.filter(m => m.name).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Context length from model_info ("<arch>.context_length"); a num_ctx parameter overrides it */
+export async function showOllamaModel(endpoint: string, name: string): Promise<OllamaModelDetails> {
+  const data = await ollamaRequest(endpoint, "/api/show", { model: name });
+  const numCtx = /(?:^|\n)\s*num_ctx\s+(\d+)/.exec(data?.parameters ?? "")?.[1];
+  const infoKey = Object.keys(data?.model_info ?? {}).find(key => key.endsWith(".context_length"));
+  const contextLength = numCtx ? Number(numCtx) : infoKey ? Number(data.model_info[infoKey]) : undefined;
+  return { name, ...(contextLength ? { contextLength } : {}) };
+}
+
+/** Downloads a model; resolves when Ollama reports success. No timeout: large models take a while */
+export async function pullOllamaModel(
+  endpoint: string,
+  name: string,
+  onProgress?: (progress: OllamaPullProgress) => void
+): Promise<void> {
+  const res = await fetch(ollamaUrl(endpoint, "/api/pull"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: name, stream: true }),
+  });
+  if (!res.ok || !res.body) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`Ollama /api/pull: HTTP ${res.status}: ${text.slice(0, 200)}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let lastStatus = "";
+  // The stream is newline-delimited JSON, one progress object per line
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const progress = JSON.parse(line);
+    if (progress.error) throw new Error(`Ollama: ${progress.error}`);
+    lastStatus = progress.status ?? lastStatus;
+    onProgress?.(progress);
+  };
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode());
+  if (lastStatus !== "success") throw new Error(`Ollama: загрузка прервана (${lastStatus || "нет ответа"})`);
+}
+
+// ─── Formatting ───
+export function formatModelSize(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} ГБ`;
+  return `${Math.max(1, Math.round(bytes / 1024 ** 2))} МБ`;
+}
+
+export function formatPullProgress(name: string, progress: OllamaPullProgress): string {
+  const header = `⬇️ Загрузка ${name}: ${progress.status}`;
+  if (!progress.total || progress.completed === undefined) return header;
+  const percent = Math.floor((progress.completed / progress.total) * 100);
+  return `${header}\n${percent}% (${formatModelSize(progress.completed)} из ${formatModelSize(progress.total)})`;
+}
+
+export function formatOllamaModel(model: OllamaModel, details?: OllamaModelDetails, active = false): string {
+  const facts = [
+    formatModelSize(model.size),
+    model.parameterSize,
+    model.quantization,
+    details?.contextLength ? `контекст ${details.contextLength.toLocaleString("ru-RU")}` : undefined,
+  ].filter(Boolean).join(", ");
+  return `${active ? "✅" : "•"} ${model.name} — ${facts}`;
+}
+
+// ─── Which provider /models manages ───
+/**
+ * The first Ollama provider in the chain. Before the chain existed llm_endpoint pointed at
+ * the Ollama VM, so the provider derived from it counts as well.
+ */
+export async function getOllamaProvider(): Promise<LLMProviderConfig | null> {
+  const providers = await getLLMProviders();
+  return providers.find(p => p.type === "ollama" && p.enabled)
+    ?? providers.find(p => p.type === "ollama")
+    ?? providers.find(p => p.id === "local")
+    ?? null;
+}
+
+/** Makes `model` the provider's model; the first change stores the chain in settings */
+export async function selectProviderModel(providerId: string, model: string) {
+  const providers = await getLLMProviders();
+  await saveLLMProviders(providers.map(p => (p.id === providerId ? { ...p, model } : p)));
+  // A new model deserves a fresh start after failures with the old one
+  recordProviderSuccess(providerId);
+}
+
+/** Installed models with their details; a failed /api/show only hides the context length */
+export async function describeOllamaModels(endpoint: string): Promise<Array<{ model: OllamaModel; details?: OllamaModelDetails }>> {
+  const models = await listOllamaModels(endpoint);
+  return Promise.all(models.map(async model => ({
+    model,
+    details: await showOllamaModel(endpoint, model.name).catch(() => undefined),
+  })));
+}
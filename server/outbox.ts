@@ -0,0 +1,243 @@
+import { nanoid } from "nanoid";
+import type { HugoOutboxEntry, InsertHugoOutboxEntry } from "../drizzle/schema";
+import {
+  getArticleByFilename, insertOutboxEntry, getOutboxEntry, getPendingOutboxEntries, claimOutboxEntry,
+  updateOutboxEntry, deleteOutboxEntry, deleteAbandonedOutboxEntries, setArticleSyncState, renameArticle,
+  deleteArticle, deleteSyncConflict, ownerColumns, ownerFromColumns, type ConversationOwner,
+} from "./db";
+import type { ArticleInput, ArticlePatch } from "./articles";
+import { contentAuthorFor, getContentBackend } from "./content-backend";
+import { GitCommandError } from "./git-content";
+import { HugoApiError, HugoTimeoutError } from "./hugo-api";
+import { articleSyncHash, sanitizeErrorForUser } from "./tools/helpers";
+
+// ─── Hugo write outbox ───
+// Every create, edit and delete is stored before it is sent. Writes Hugo does not accept are retried
+// with exponential backoff; writes to one article reach Hugo in the order they were made.
+export const OUTBOX_MAX_ATTEMPTS = 8;
+const OUTBOX_BASE_DELAY_MS = 30_000;
+const OUTBOX_MAX_DELAY_MS = 60 * 60_000;
+const OUTBOX_INTERVAL_MS = 30_000;
+// Abandoned writes stay visible in /pending for a week
+const ABANDONED_TTL_MS = 7 * 24 * 60 * 60_000;
+
+export type HugoWrite =
+  | { operation: "create"; filename: string; body: ArticleInput; revision: number | null }
+  | { operation: "edit"; filename: string; body: ArticlePatch; revision: number | null }
+  | { operation: "delete"; filename: string };
+
+/** pending: will be retried; abandoned: Hugo refused it or the retries ran out */
+export type HugoWriteResult =
+  | { status: "done"; filename: string }
+  | { status: "pending" | "abandoned"; filename: string; error: string };
+
+/** Delay before the next attempt after `attempts` failed ones: 30s, 1m, 2m… up to an hour */
+export function outboxRetryDelayMs(attempts: number): number {
+  return Math.min(OUTBOX_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), OUTBOX_MAX_DELAY_MS);
+}
+
+// Connection failures Node reports by code; mysql2 adds PROTOCOL_CONNECTION_LOST
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNREFUSED", "ECONNRESET", "ETIMEDOUT", "ENOTFOUND", "EAI_AGAIN", "EHOSTUNREACH", "ENETUNREACH", "EPIPE",
+  "UND_ERR_SOCKET", "UND_ERR_CONNECT_TIMEOUT", "PROTOCOL_CONNECTION_LOST",
+]);
+
+function isNetworkError(error: unknown): boolean {
+  // fetch wraps socket errors in TypeError("fetch failed") with the system error as the cause
+  if (error instanceof TypeError && error.message === "fetch failed") return true;
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" && NETWORK_ERROR_CODES.has(code);
+}
+
+/**
+ * Network errors, timeouts, failed git commands, 5xx, 408 and 429 may pass on retry. Everything else —
+ * other 4xx answers, bodies the client does not understand, rejected writes, missing settings — will not.
+ */
+export function isRetryableHugoError(error: unknown): boolean {
+  if (error instanceof HugoApiError) return error.status >= 500 || error.status === 408 || error.status === 429;
+  if (error instanceof HugoTimeoutError || error instanceof GitCommandError) return true;
+  return isNetworkError(error);
+}
+
+// Sends the write and applies it locally; returns the filename the article ends up under
+async function deliver(entry: InsertHugoOutboxEntry): Promise<string> {
+  const body = entry.payload ? JSON.parse(entry.payload) : {};
+  const backend = await getContentBackend();
+  const requestedBy = ownerFromColumns(entry.requestedBy ?? null, entry.requestedByUserId ?? null);
+  const write = { idempotencyKey: entry.idempotencyKey, author: await contentAuthorFor(requestedBy) };
+  if (entry.operation === "delete") {
+    await backend.deletePost(entry.filename, write);
+    await deleteArticle(entry.filename);
+    await deleteSyncConflict(entry.filename);
+    return entry.filename;
+  }
+  if (entry.operation === "edit") {
+    await backend.updatePost(entry.filename, body, write);
+    if (entry.syncedHash) await setArticleSyncState(entry.filename, { syncedHash: entry.syncedHash, syncedRevision: entry.revision ?? null });
+    return entry.filename;
+  }
+  const data = await backend.createPost(body, write);
+  let filename = data.filename || data.slug || entry.filename;
+  if (filename !== entry.filename) {
+    if (await getArticleByFilename(filename)) {
+      console.warn(`[Outbox] Hugo named "${entry.filename}" as "${filename}", which is taken locally; keeping the local name`);
+      filename = entry.filename;
+    } else {
+      await renameArticle(entry.filename, filename);
+    }
+  }
+  if (entry.syncedHash) {
+    await setArticleSyncState(filename, {
+      syncedHash: entry.syncedHash, syncedRevision: entry.revision ?? null, hugoUrl: data.url ?? undefined, slug: data.slug ?? undefined,
+    });
+  }
+  return filename;
+}
+
+// One attempt; null when another worker took the entry first
+async function attemptDelivery(id: number): Promise<HugoWriteResult | null> {
+  const entry = await getOutboxEntry(id);
+  if (!entry || entry.status !== "pending" || !await claimOutboxEntry(entry)) return null;
+  const attempts = entry.attempts + 1;
+  try {
+    const filename = await deliver(entry);
+    await deleteOutboxEntry(entry.id);
+    return { status: "done", filename };
+  } catch (e: any) {
+    const error = sanitizeErrorForUser(e);
+    if (!isRetryableHugoError(e) || attempts >= OUTBOX_MAX_ATTEMPTS) {
+      await updateOutboxEntry(entry.id, { status: "abandoned", lastError: error });
+      return { status: "abandoned", filename: entry.filename, error };
+    }
+    await updateOutboxEntry(entry.id, { lastError: error, nextAttemptAt: new Date(Date.now() + outboxRetryDelayMs(attempts)) });
+    return { status: "pending", filename: entry.filename, error };
+  }
+}
+
+/**
+ * Stores the write and sends it right away, unless an earlier write to the same article is still
+ * waiting: then it goes out after that one.
+ */
+export async function sendHugoWrite(write: HugoWrite, requestedBy?: ConversationOwner): Promise<HugoWriteResult> {
+  const { telegramUserId, userId } = ownerColumns(requestedBy);
+  const local = write.operation === "delete" ? null : await getArticleByFilename(write.filename);
+  const entry: InsertHugoOutboxEntry = {
+    idempotencyKey: nanoid(), operation: write.operation, filename: write.filename,
+    payload: write.operation === "delete" ? null : JSON.stringify(write.body),
+    revision: write.operation === "delete" ? null : write.revision,
+    syncedHash: local ? articleSyncHash(local) : null,
+    requestedBy: telegramUserId, requestedByUserId: userId,
+  };
+  const waiting = (await getPendingOutboxEntries()).some(e => e.filename === write.filename);
+  const id = await insertOutboxEntry(entry);
+  if (id === null) {
+    // No database to retry from: a single attempt
+    try {
+      return { status: "done", filename: await deliver(entry) };
+    } catch (e: any) {
+      return { status: "abandoned", filename: write.filename, error: sanitizeErrorForUser(e) };
+    }
+  }
+  if (waiting) return { status: "pending", filename: write.filename, error: "ждёт отправки предыдущих изменений статьи" };
+  return await attemptDelivery(id) ?? { status: "pending", filename: write.filename, error: "отправляется" };
+}
+
+// ─── Background retries ───
+const OPERATION_LABELS: Record<HugoOutboxEntry["operation"], string> = {
+  create: "создание", edit: "изменение", delete: "удаление",
+};
+
+type OutboxNotifier = (owner: ConversationOwner, text: string) => Promise<void>;
+
+let notifier: OutboxNotifier | null = null;
+let outboxInterval: ReturnType<typeof setInterval> | null = null;
+let outboxBusy = false;
+
+/** The server registers how users learn about writes that went through late or never */
+export function setOutboxNotifier(handler: OutboxNotifier | null) {
+  notifier = handler;
+}
+
+export function outboxOutcomeText(entry: Pick<HugoOutboxEntry, "operation" | "filename" | "attempts">, result: HugoWriteResult): string {
+  const what = `${OPERATION_LABELS[entry.operation]} «${entry.filename}»`;
+  if (result.status === "done") {
+    const renamed = result.filename !== entry.filename ? ` (в Hugo: ${result.filename})` : "";
+    return `✅ Hugo принял отложенное ${what}${renamed}.`;
+  }
+  const kept = entry.operation === "delete"
+    ? "Статья осталась в Hugo и в базе."
+    : "Локальная версия сохранена, её отправит следующая синхронизация (/sync).";
+  return `❌ Hugo так и не принял ${what} (попыток: ${entry.attempts + 1}): ${result.error}. ${kept}`;
+}
+
+/** Retries due writes in order; an article whose earlier write is still waiting is skipped */
+export async function retryDueHugoWrites(now = Date.now()): Promise<void> {
+  const blocked = new Set<string>();
+  for (const entry of await getPendingOutboxEntries()) {
+    if (blocked.has(entry.filename) || entry.nextAttemptAt.getTime() > now) {
+      blocked.add(entry.filename);
+      continue;
+    }
+    const result = await attemptDelivery(entry.id);
+    if (!result) continue;
+    if (result.status === "pending") {
+      blocked.add(entry.filename);
+      continue;
+    }
+    console.warn(result.status === "done"
+      ? `[Outbox] ${entry.operation} ${entry.filename} delivered after ${entry.attempts + 1} attempts`
+      : `[Outbox] ${entry.operation} ${entry.filename} abandoned after ${entry.attempts + 1} attempts: ${result.error}`);
+    const owner = ownerFromColumns(entry.requestedBy ?? null, entry.requestedByUserId ?? null);
+    if (owner && notifier) {
+      await notifier(owner, outboxOutcomeText(entry, result))
+        .catch((e: any) => console.warn(`[Outbox] Failed to notify ${JSON.stringify(owner)}: ${e.message}`));
+    }
+  }
+  await deleteAbandonedOutboxEntries(new Date(now - ABANDONED_TTL_MS));
+}
+
+async function runOutbox() {
+  if (outboxBusy) return;
+  outboxBusy = true;
+  try {
+    await retryDueHugoWrites();
+  } catch (e: any) {
+    console.warn(`[Outbox] Failed to retry Hugo writes: ${e.message}`);
+  } finally {
+    outboxBusy = false;
+  }
+}
+
+export function startOutboxWorker() {
+  if (outboxInterval) return;
+  // Writes left over from before a restart go out right away
+  void runOutbox();
+  outboxInterval = setInterval(() => void runOutbox(), OUTBOX_INTERVAL_MS);
+}
+
+export function stopOutboxWorker() {
+  if (outboxInterval) {
+    clearInterval(outboxInterval);
+    outboxInterval = null;
+  }
+}
+
+// ─── /pending ───
+/** For replies about a write that is saved locally and waits in the outbox */
+export function pendingWriteNotice(error?: string): string {
+  return `⏳ Hugo пока не принял изменения${error ? ` (${error})` : ""}: отправка повторится автоматически, очередь — /pending.`;
+}
+
+function formatWait(ms: number): string {
+  const minutes = Math.ceil(ms / 60_000);
+  return minutes <= 1 ? "меньше минуты" : minutes < 60 ? `${minutes} мин` : `${Math.round(minutes / 60)} ч`;
+}
+
+export function formatOutboxEntry(entry: HugoOutboxEntry, now = Date.now()): string {
+  const what = `#${entry.id} ${OPERATION_LABELS[entry.operation]} «${entry.filename}»`;
+  const error = entry.lastError ? `\n   Ошибка: ${entry.lastError}` : "";
+  if (entry.status === "abandoned") return `❌ ${what} — брошено после ${entry.attempts} попыток${error}`;
+  const wait = entry.nextAttemptAt.getTime() - now;
+  const next = wait > 0 ? `следующая через ${formatWait(wait)}` : "следующая вот-вот";
+  return `⏳ ${what} — попыток: ${entry.attempts} из ${OUTBOX_MAX_ATTEMPTS}, ${next}${error}`;
+}
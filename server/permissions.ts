@@ -0,0 +1,59 @@
+import type { TelegramUser } from "../drizzle/schema";
+import type { ToolPermission } from "./tools/registry";
+import { getTelegramUser, getUserById, listTelegramUsers, type ConversationOwner } from "./db";
+
+// ─── Roles and what they may do ───
+export type Role = TelegramUser["role"];
+
+export const ROLES: readonly Role[] = ["viewer", "author", "editor", "admin"];
+
+const ROLE_PERMISSIONS: Record<Role, readonly ToolPermission[]> = {
+  viewer: ["read"],
+  author: ["read", "write"],
+  editor: ["read", "write", "publish"],
+  admin: ["read", "write", "publish", "admin"],
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: "👀 читатель",
+  author: "✍️ автор",
+  editor: "📢 редактор",
+  admin: "🛡 администратор",
+};
+
+export function roleAllows(role: Role, permission: ToolPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function parseRole(input: string): Role | null {
+  const value = input.trim().toLowerCase();
+  return (ROLES as readonly string[]).includes(value) ? value as Role : null;
+}
+
+// ─── Role resolution ───
+// IDs in TELEGRAM_ALLOWED_USERS are owners: always admin, so a wrong /revoke cannot lock everyone out
+export function getEnvAdminIds(): number[] {
+  const envVal = process.env.TELEGRAM_ALLOWED_USERS || "";
+  if (!envVal) return [];
+  return envVal.split(",").map(id => parseInt(id.trim())).filter(id => !isNaN(id));
+}
+
+/** Everyone who gets admin notifications: owners from env plus users granted the admin role */
+export async function getAdminTelegramIds(): Promise<number[]> {
+  const granted = (await listTelegramUsers()).filter(u => u.role === "admin").map(u => u.telegramUserId);
+  return Array.from(new Set([...getEnvAdminIds(), ...granted]));
+}
+
+export async function getTelegramRole(telegramUserId: number): Promise<Role | null> {
+  if (getEnvAdminIds().includes(telegramUserId)) return "admin";
+  const user = await getTelegramUser(telegramUserId);
+  return user?.role ?? null;
+}
+
+// Web dashboard users can already publish and delete through the articles API; settings stay with admins
+export async function getOwnerRole(owner: ConversationOwner): Promise<Role | null> {
+  if ("telegramUserId" in owner) return getTelegramRole(owner.telegramUserId);
+  const user = await getUserById(owner.userId);
+  if (!user) return null;
+  return user.role === "admin" ? "admin" : "editor";
+}
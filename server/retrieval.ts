@@ -0,0 +1,262 @@
+import { createHash } from "crypto";
+import { invokeEmbeddings } from "./_core/llm";
+import {
+  getSetting, listArticlesForIndex, listArticleHeadlines, getIndexedArticleHashes, replaceArticleChunks, deleteArticleChunks,
+  getArticleChunks,
+} from "./db";
+import { getLLMProviders, type LLMProviderConfig, type LLMProviderType } from "./llm-router";
+import { fetchWithTimeout } from "./tools/helpers";
+
+// ─── Retrieval over blog posts: chunked embeddings stored in article_chunks ───
+export const EMBEDDING_PROVIDER_SETTING = "embedding_provider";
+export const EMBEDDING_MODEL_SETTING = "embedding_model";
+const CHUNK_SIZE = 1200;
+const EMBED_BATCH_SIZE = 32;
+const EMBED_TIMEOUT_MS = 60_000;
+const CONTEXT_PASSAGE_LENGTH = 600;
+const INDEX_INTERVAL_MS = 10 * 60_000; // catches changes no save reported, e.g. outbox deletes
+const INDEX_DEBOUNCE_MS = 5_000; // a burst of saves (sync, generation) is indexed once
+
+const DEFAULT_EMBEDDING_MODELS: Record<LLMProviderType, string> = {
+  ollama: "nomic-embed-text",
+  lmstudio: "text-embedding-nomic-embed-text-v1.5",
+  openai: "text-embedding-3-small",
+  builtin: "text-embedding-3-small",
+};
+
+export type EmbeddingConfig = { provider: LLMProviderConfig; model: string };
+
+export type RelatedPassage = {
+  filename: string;
+  title: string;
+  hugoUrl: string | null;
+  draft: boolean;
+  content: string;
+  score: number;
+};
+
+/** The provider from embedding_provider (the head of the chain by default) and its embedding model */
+export async function getEmbeddingConfig(): Promise<EmbeddingConfig | null> {
+  const providers = await getLLMProviders();
+  const providerId = await getSetting(EMBEDDING_PROVIDER_SETTING);
+  const provider = providerId ? providers.find(p => p.id === providerId) : providers.find(p => p.enabled);
+  if (!provider) return null;
+  return { provider, model: await getSetting(EMBEDDING_MODEL_SETTING) || DEFAULT_EMBEDDING_MODELS[provider.type] };
+}
+
+async function requestEmbeddings(config: EmbeddingConfig, input: string[]): Promise<number[][]> {
+  const { provider, model } = config;
+  if (provider.type === "builtin") return invokeEmbeddings({ input, model, signal: AbortSignal.timeout(EMBED_TIMEOUT_MS) });
+  // Ollama, LM Studio and OpenAI-compatible servers all serve /v1/embeddings
+  const res = await fetchWithTimeout(`${provider.endpoint!.replace(/\/+$/, "")}/v1/embeddings`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(provider.apiKey ? { Authorization: `Bearer ${provider.apiKey}` } : {}),
+    },
+    body: JSON.stringify({ model, input }),
+  }, EMBED_TIMEOUT_MS);
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`Embeddings: HTTP ${res.status}: ${text.slice(0, 200)}`);
+  }
+  const data = await res.json() as { data: Array<{ index: number; embedding: number[] }> };
+  return [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+}
+
+export async function embedTexts(config: EmbeddingConfig, texts: string[]): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+    vectors.push(...await requestEmbeddings(config, texts.slice(i, i + EMBED_BATCH_SIZE)));
+  }
+  if (vectors.length !== texts.length) throw new Error(`Embeddings: expected ${texts.length} vectors, got ${vectors.length}`);
+  return vectors;
+}
+
+// ─── Chunking ───
+// Paragraphs longer than a chunk are cut at the last space before the limit
+function splitLongParagraph(paragraph: string, size: number): string[] {
+  const pieces: string[] = [];
+  let rest = paragraph;
+  while (rest.length > size) {
+    const cut = rest.lastIndexOf(" ", size);
+    const at = cut > size / 2 ? cut : size;
+    pieces.push(rest.slice(0, at).trim());
+    rest = rest.slice(at).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/** Groups whole paragraphs into chunks of up to `size` characters */
+export function chunkText(text: string, size = CHUNK_SIZE): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+    for (const piece of splitLongParagraph(paragraph, size)) {
+      if (current && current.length + piece.length + 2 > size) {
+        chunks.push(current);
+        current = "";
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+export function articleContentHash(title: string, content: string | null): string {
+  return createHash("sha256").update(`${title}\n${content ?? ""}`).digest("hex");
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// ─── Index maintenance ───
+// Queries only read the index; it is brought up to date in the background after articles change.
+let refreshing: Promise<{ indexed: number; removed: number }> | null = null;
+let indexInterval: ReturnType<typeof setInterval> | null = null;
+let indexTimer: ReturnType<typeof setTimeout> | null = null;
+
+type IndexedChunk = { filename: string; content: string; vector: number[] };
+// Parsed vectors of one model, dropped whenever the index changes
+let chunkCache: { model: string; chunks: IndexedChunk[] } | null = null;
+
+async function rebuildStaleEntries(config: EmbeddingConfig): Promise<{ indexed: number; removed: number }> {
+  const [articles, indexedHashes] = await Promise.all([listArticlesForIndex(), getIndexedArticleHashes()]);
+  let indexed = 0;
+  for (const article of articles) {
+    const contentHash = articleContentHash(article.title, article.content);
+    const current = indexedHashes.get(article.filename);
+    if (current?.contentHash === contentHash && current.model === config.model) continue;
+    const chunks = chunkText(article.content ?? "");
+    if (chunks.length === 0) {
+      await deleteArticleChunks(article.filename);
+      chunkCache = null;
+      continue;
+    }
+    // The title goes into every vector so short passages still know what the post is about
+    const vectors = await embedTexts(config, chunks.map(chunk => `${article.title}\n\n${chunk}`));
+    await replaceArticleChunks(article.filename, chunks.map((content, chunkIndex) => ({
+      filename: article.filename, chunkIndex, content, embedding: JSON.stringify(vectors[chunkIndex]),
+      model: config.model, contentHash,
+    })));
+    chunkCache = null;
+    indexed++;
+  }
+  const live = new Set(articles.map(a => a.filename));
+  const orphaned = Array.from(indexedHashes.keys()).filter(filename => !live.has(filename));
+  for (const filename of orphaned) await deleteArticleChunks(filename);
+  if (orphaned.length > 0) chunkCache = null;
+  if (indexed > 0 || orphaned.length > 0) console.log(`[Retrieval] Indexed ${indexed} articles, removed ${orphaned.length}`);
+  return { indexed, removed: orphaned.length };
+}
+
+/** Embeds new and changed articles and drops deleted ones; concurrent callers share one run */
+export async function refreshArticleIndex(config?: EmbeddingConfig): Promise<{ indexed: number; removed: number }> {
+  const resolved = config ?? await getEmbeddingConfig();
+  if (!resolved) throw new Error("Нет LLM-провайдера для эмбеддингов");
+  refreshing ??= rebuildStaleEntries(resolved).finally(() => { refreshing = null; });
+  return refreshing;
+}
+
+async function refreshInBackground() {
+  // Without a provider there is nothing to index with; semantic search says so when asked
+  if (!await getEmbeddingConfig().catch(() => null)) return;
+  await refreshArticleIndex().catch((e: any) => console.warn(`[Retrieval] Index refresh failed: ${e.message}`));
+}
+
+/** Call after articles are saved or deleted; the index catches up a few seconds later */
+export function requestArticleIndexRefresh() {
+  if (indexTimer) clearTimeout(indexTimer);
+  indexTimer = setTimeout(() => {
+    indexTimer = null;
+    void refreshInBackground();
+  }, INDEX_DEBOUNCE_MS);
+  indexTimer.unref?.();
+}
+
+export function startArticleIndexWorker() {
+  if (indexInterval) return;
+  // Articles changed while the process was down are indexed right away
+  void refreshInBackground();
+  indexInterval = setInterval(() => void refreshInBackground(), INDEX_INTERVAL_MS);
+}
+
+export function stopArticleIndexWorker() {
+  if (indexInterval) {
+    clearInterval(indexInterval);
+    indexInterval = null;
+  }
+  if (indexTimer) {
+    clearTimeout(indexTimer);
+    indexTimer = null;
+  }
+}
+
+async function loadIndexedChunks(model: string): Promise<IndexedChunk[]> {
+  if (chunkCache?.model === model) return chunkCache.chunks;
+  const chunks = (await getArticleChunks(model)).map(chunk => ({
+    filename: chunk.filename, content: chunk.content, vector: JSON.parse(chunk.embedding) as number[],
+  }));
+  chunkCache = { model, chunks };
+  return chunks;
+}
+
+// ─── Search ───
+/** Best passage of each related article, most similar first; articles not indexed yet are left out */
+export async function findRelatedPassages(
+  query: string,
+  options: { limit?: number; exclude?: string; publishedOnly?: boolean } = {}
+): Promise<RelatedPassage[]> {
+  const config = await getEmbeddingConfig();
+  if (!config) throw new Error("Нет LLM-провайдера для эмбеддингов");
+  const chunks = await loadIndexedChunks(config.model);
+  if (chunks.length === 0) return [];
+  const [[queryVector], articles] = await Promise.all([embedTexts(config, [query]), listArticleHeadlines()]);
+  const byFilename = new Map(articles.map(a => [a.filename, a]));
+  const best = new Map<string, RelatedPassage>();
+  for (const chunk of chunks) {
+    const article = byFilename.get(chunk.filename);
+    if (!article || chunk.filename === options.exclude || (options.publishedOnly && article.draft)) continue;
+    const score = cosineSimilarity(queryVector, chunk.vector);
+    if ((best.get(chunk.filename)?.score ?? -Infinity) >= score) continue;
+    best.set(chunk.filename, {
+      filename: chunk.filename, title: article.title, hugoUrl: article.hugoUrl, draft: Boolean(article.draft),
+      content: chunk.content, score,
+    });
+  }
+  return Array.from(best.values()).sort((a, b) => b.score - a.score).slice(0, options.limit ?? 5);
+}
+
+/** Hugo resolves ref shortcodes at build time, so posts without a known URL can still be linked */
+export function articleLink(passage: Pick<RelatedPassage, "filename" | "hugoUrl">): string {
+  return passage.hugoUrl || `{{< ref "${passage.filename}" >}}`;
+}
+
+export function formatRelatedContext(passages: RelatedPassage[]): string {
+  if (passages.length === 0) return "";
+  const items = passages.map(p => {
+    const excerpt = p.content.length > CONTEXT_PASSAGE_LENGTH ? `${p.content.slice(0, CONTEXT_PASSAGE_LENGTH)}…` : p.content;
+    return `«${p.title}» (ссылка: ${articleLink(p)}):\n${excerpt}`;
+  });
+  return "Связанные статьи блога. Ссылайся на них Markdown-ссылками, где это уместно, и не противоречь им:\n\n" +
+    items.join("\n\n");
+}
+
+/** Context for generation prompts; retrieval problems never block writing */
+export async function relatedArticlesContext(query: string, limit = 3): Promise<string> {
+  try {
+    return formatRelatedContext(await findRelatedPassages(query, { limit, publishedOnly: true }));
+  } catch (e: any) {
+    console.warn(`[Retrieval] Related articles unavailable: ${e.message}`);
+    return "";
+  }
+}
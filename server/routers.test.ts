@@ -3,11 +3,68 @@ import { appRouter } from "./routers";
 import { COOKIE_NAME } from "../shared/const";
 import type { TrpcContext } from "./_core/context";
 import {
-  escapeLikePattern,
-  sanitizeToolArgs,
   splitMessage,
-  isUserAllowed,
+  normalizeThreadTitle,
+  createStreamingReply,
+  parseAuditFilter,
+  formatAuditEvent,
+  formatUsageLine,
+  parseBudgetValue,
+  replyText,
+  parseSearchCommand,
 } from "./telegram-bot";
+import {
+  parseTokenLimit, budgetAlertText, assertWithinBudget, getBudgetStatus, TokenBudgetExceededError,
+} from "./budget";
+import { promptOf, resultOf, usagePeriodStart } from "./usage";
+import {
+  legacyProviders, sortProviders, describeProvider, routeChatCompletion, recordProviderFailure,
+  recordProviderSuccess, isCircuitOpen, resetCircuits, BUILTIN_PROVIDER, CIRCUIT_COOLDOWN_MS,
+  type LLMProviderConfig,
+} from "./llm-router";
+import {
+  listOllamaModels, showOllamaModel, pullOllamaModel, getOllamaProvider, formatModelSize, formatPullProgress,
+  formatOllamaModel, type OllamaPullProgress,
+} from "./ollama";
+import { applyTaskModel, parseJsonReply } from "./llm-tasks";
+import {
+  formatOutline, stripLeadingHeading, assembleArticle, saveOutlineDraft, getOutlineDraft,
+  pruneOutlineDrafts, articleOutlineSchema, OUTLINE_TTL_MS, type ArticleOutline,
+} from "./article-generation";
+import { uniqueArticleFilename } from "./articles";
+import {
+  chunkText, cosineSimilarity, embedTexts, formatRelatedContext, relatedArticlesContext, articleContentHash,
+  type RelatedPassage,
+} from "./retrieval";
+import { matchesArticleFilters, articleExcerpt, describeSearch, formatSearchHit } from "./search";
+import { fulltextBooleanQuery, ownerOfToolCall, ownerColumns, ownerFromColumns } from "./db";
+import { contentAuthorFor } from "./content-backend";
+import {
+  outboxRetryDelayMs, isRetryableHugoError, outboxOutcomeText, formatOutboxEntry, sendHugoWrite, OUTBOX_MAX_ATTEMPTS,
+} from "./outbox";
+import { HugoApiError, HugoResponseError, HugoTimeoutError } from "./hugo-api";
+import { validateFrontMatter, formatSiteSchema, DEFAULT_SITE_SCHEMA } from "./site-schema";
+import { normalizeRemotePost, decideSyncAction, mergeSyncFields, formatSyncReport, syncFieldsOf } from "./hugo-sync";
+import type { Article, HugoOutboxEntry } from "../drizzle/schema";
+import { formatTaskModels } from "./tools/providers";
+import { sanitizeAuditArgs, outcomeOfResult } from "./audit";
+import {
+  trimContextMessages,
+  requiresConfirmation,
+  createPendingAction,
+  takePendingAction,
+  notifyOwner,
+  setTelegramMessenger,
+} from "./agent";
+import { escapeLikePattern, articleSyncHash } from "./tools/helpers";
+import { parseScheduleTime, formatScheduleTime } from "./tools/schedule";
+import {
+  defineTool, registerTool, getTool, listTools, getLLMTools, prepareToolCall, resolvePermission,
+  parseToolArguments, runTool, authorizeToolCall,
+} from "./tools";
+import { roleAllows, parseRole, getEnvAdminIds, getTelegramRole } from "./permissions";
+import { z } from "zod";
+import { readChatCompletionStream } from "./_core/llm";
 
 // ─── Helper: create mock context ───
 type CookieCall = { name: string; options: Record<string, unknown> };
@@ -83,6 +140,66 @@ describe("tRPC Router", () => {
     });
   });
 
+  describe("articles", () => {
+    it("requires authentication", async () => {
+      const caller = appRouter.createCaller(createAnonContext());
+      await expect(caller.articles.list({})).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+      await expect(caller.articles.delete({ filename: "a.md" })).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+      await expect(caller.articles.sync()).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    });
+
+    it("validates input before touching storage", async () => {
+      const { ctx } = createAuthContext();
+      const caller = appRouter.createCaller(ctx);
+      await expect(caller.articles.list({ limit: 1000 })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+      await expect(caller.articles.create({ title: "", content: "" })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    });
+
+    it("reports missing articles as NOT_FOUND", async () => {
+      const { ctx } = createAuthContext();
+      const caller = appRouter.createCaller(ctx);
+      await expect(caller.articles.get({ filename: "missing.md" })).rejects.toMatchObject({ code: "NOT_FOUND" });
+      await expect(caller.articles.update({ filename: "missing.md", title: "T" })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    });
+  });
+
+  describe("chat", () => {
+    it("requires authentication", async () => {
+      const caller = appRouter.createCaller(createAnonContext());
+      await expect(caller.chat.send({ message: "hi" })).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+      await expect(caller.chat.history()).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+      await expect(caller.chat.reset()).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    });
+
+    it("rejects empty messages", async () => {
+      const { ctx } = createAuthContext();
+      const caller = appRouter.createCaller(ctx);
+      await expect(caller.chat.send({ message: "   " })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    });
+
+    it("only confirms actions created for the same web user", async () => {
+      const { ctx } = createAuthContext();
+      const caller = appRouter.createCaller(ctx);
+      const foreign = createPendingAction({ telegramUserId: ctx.user!.id }, "delete_article", { filename: "a.md" });
+      await expect(caller.chat.confirm({ id: foreign.id, decision: "cancel" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+      await expect(caller.chat.confirm({ id: "missing", decision: "cancel" })).rejects.toMatchObject({ code: "NOT_FOUND" });
+      const own = createPendingAction({ userId: ctx.user!.id }, "delete_article", { filename: "a.md" });
+      await expect(caller.chat.confirm({ id: own.id, decision: "cancel" })).resolves.toMatchObject({
+        summary: own.summary, outcome: "❌ Действие отменено.",
+      });
+    });
+  });
+
+  describe("audit", () => {
+    it("is limited to admins", async () => {
+      await expect(appRouter.createCaller(createAnonContext()).audit.list()).rejects.toMatchObject({ code: "FORBIDDEN" });
+      const { ctx } = createAuthContext();
+      await expect(appRouter.createCaller(ctx).audit.list()).rejects.toMatchObject({ code: "FORBIDDEN" });
+      const admin = { ...ctx, user: { ...ctx.user!, role: "admin" as const } };
+      await expect(appRouter.createCaller(admin).audit.list({ tool: "delete_article" })).resolves.toEqual({ items: [], total: 0 });
+    });
+  });
+
   describe("router structure", () => {
     it("has auth and system routers", () => {
       const procedures = Object.keys((appRouter as any)._def.procedures);
@@ -90,12 +207,6 @@ describe("tRPC Router", () => {
       expect(procedures).toContain("auth.logout");
       expect(procedures).toContain("system.notifyOwner");
     });
-
-    it("does not have chat router (moved to Telegram)", () => {
-      const procedures = Object.keys((appRouter as any)._def.procedures);
-      const chatProcedures = procedures.filter(p => p.startsWith("chat."));
-      expect(chatProcedures).toHaveLength(0);
-    });
   });
 });
 
@@ -157,60 +268,104 @@ describe("escapeLikePattern", () => {
 });
 
 // ═══════════════════════════════════════════════════
-// sanitizeToolArgs TESTS
+// Tool registry TESTS
 // ═══════════════════════════════════════════════════
-describe("sanitizeToolArgs", () => {
-  it("passes through safe string values", () => {
-    const result = sanitizeToolArgs({ title: "Hello", content: "World" });
-    expect(result.title).toBe("Hello");
-    expect(result.content).toBe("World");
+describe("tool registry", () => {
+  it("exposes every registered tool to the LLM with a JSON schema", () => {
+    const tools = getLLMTools();
+    expect(tools.map(t => t.function.name)).toEqual(listTools().map(t => t.name));
+    expect(tools.map(t => t.function.name)).toEqual(expect.arrayContaining([
+      "list_articles", "create_article", "delete_article", "schedule_article", "save_settings",
+    ]));
+    const create = tools.find(t => t.function.name === "create_article")!;
+    expect(create.function.parameters).toMatchObject({
+      type: "object",
+      required: ["title", "content"],
+      properties: { title: { type: "string" }, draft: { type: "boolean" } },
+    });
+    expect(create.function.parameters).not.toHaveProperty("$schema");
   });
 
-  it("truncates strings longer than 50000 chars", () => {
-    const longStr = "a".repeat(60000);
-    const result = sanitizeToolArgs({ content: longStr });
-    expect(result.content.length).toBe(50000);
+  it("accepts valid arguments and strips unknown keys", () => {
+    const prepared = prepareToolCall("list_articles", { search: "hugo", limit: 5, nested: { key: "value" } });
+    expect(prepared).toMatchObject({ args: { search: "hugo", limit: 5 } });
+    expect("args" in prepared && prepared.args).not.toHaveProperty("nested");
   });
 
-  it("clamps numbers to 0-1000 range", () => {
-    expect(sanitizeToolArgs({ limit: -5 }).limit).toBe(0);
-    expect(sanitizeToolArgs({ limit: 5000 }).limit).toBe(1000);
-    expect(sanitizeToolArgs({ limit: 50 }).limit).toBe(50);
+  it("rejects unknown tools and invalid arguments", () => {
+    expect(prepareToolCall("drop_database", {})).toMatchObject({ error: { error: "unknown_tool", tool: "drop_database" } });
+    expect(prepareToolCall("get_article", {})).toHaveProperty("error");
+    expect(prepareToolCall("list_articles", { limit: "ten" })).toHaveProperty("error");
+    expect(prepareToolCall("save_settings", { timezone: "Mars/Olympus" })).toHaveProperty("error");
   });
 
-  it("passes through boolean values", () => {
-    expect(sanitizeToolArgs({ draft: true }).draft).toBe(true);
-    expect(sanitizeToolArgs({ draft: false }).draft).toBe(false);
+  it("reports invalid arguments as machine-readable issues", () => {
+    const prepared = prepareToolCall("list_articles", { limit: 500, search: 42 });
+    expect(prepared).toMatchObject({ error: { error: "invalid_arguments", tool: "list_articles" } });
+    const issues = "error" in prepared ? prepared.error.issues! : [];
+    expect(issues).toEqual(expect.arrayContaining([
+      expect.objectContaining({ path: "limit", code: "too_big", maximum: 50 }),
+      expect.objectContaining({ path: "search", code: "invalid_type", expected: "string" }),
+    ]));
   });
 
-  it("ignores arrays and objects for safety", () => {
-    const result = sanitizeToolArgs({
-      name: "test",
-      nested: { key: "value" },
-      list: [1, 2, 3],
+  it("parses tool call argument JSON and reports malformed JSON", () => {
+    expect(parseToolArguments("get_stats", "")).toEqual({ args: {} });
+    expect(parseToolArguments("get_article", '{"filename":"a.md"}')).toEqual({ args: { filename: "a.md" } });
+    expect(parseToolArguments("get_article", '{"filename": "a.md"')).toMatchObject({
+      error: { error: "invalid_json", tool: "get_article" },
     });
-    expect(result.name).toBe("test");
-    expect(result.nested).toBeUndefined();
-    expect(result.list).toBeUndefined();
   });
 
-  it("handles empty object", () => {
-    expect(sanitizeToolArgs({})).toEqual({});
+  it("returns rejected calls as a JSON tool message", async () => {
+    const { result, metadata } = await runTool("get_article", { filename: "" }, { role: "viewer" });
+    expect(metadata).toMatchObject({ type: "tool_error" });
+    expect(JSON.parse(result)).toMatchObject({ error: "invalid_arguments", issues: [{ path: "filename", code: "too_small" }] });
   });
 
-  it("handles mixed types correctly", () => {
-    const result = sanitizeToolArgs({
-      title: "My Article", limit: 10, draft: false, ignored: [1, 2],
-    });
-    expect(result).toEqual({ title: "My Article", limit: 10, draft: false });
+  it("resolves permissions from the arguments", () => {
+    expect(resolvePermission(getTool("get_stats")!, {})).toBe("read");
+    expect(resolvePermission(getTool("create_article")!, { draft: true })).toBe("write");
+    expect(resolvePermission(getTool("create_article")!, { draft: false })).toBe("publish");
+    expect(resolvePermission(getTool("save_settings")!, {})).toBe("admin");
+  });
+
+  it("lets authors draft but only editors publish or delete", () => {
+    const create = getTool("create_article")!;
+    expect(authorizeToolCall(create, { title: "T", content: "", draft: true }, "author")).toBeNull();
+    expect(authorizeToolCall(create, { title: "T", content: "" }, "author")).toMatchObject({ error: "forbidden", tool: "create_article" });
+    expect(authorizeToolCall(create, { title: "T", content: "" }, "editor")).toBeNull();
+    expect(authorizeToolCall(getTool("delete_article")!, { filename: "a.md" }, "author")).toHaveProperty("error", "forbidden");
+    expect(authorizeToolCall(getTool("delete_article")!, { filename: "a.md" }, "editor")).toBeNull();
+    expect(authorizeToolCall(getTool("save_settings")!, {}, "editor")).toHaveProperty("error", "forbidden");
+    expect(authorizeToolCall(getTool("save_settings")!, {}, "admin")).toBeNull();
+  });
+
+  it("needs publish permission to change an article that is already published", () => {
+    const edit = getTool("edit_article")!;
+    expect(authorizeToolCall(edit, { filename: "a.md", title: "New" }, "author", { published: false })).toBeNull();
+    expect(authorizeToolCall(edit, { filename: "a.md", title: "New" }, "author", { published: true })).toHaveProperty("error", "forbidden");
+    expect(authorizeToolCall(edit, { filename: "a.md", draft: true }, "author", { published: true })).toHaveProperty("error", "forbidden");
+    expect(authorizeToolCall(edit, { filename: "a.md", title: "New" }, "editor", { published: true })).toBeNull();
+    expect(edit.confirm!({ filename: "a.md", title: "New" }, { published: false })).toBeUndefined();
+    expect(edit.confirm!({ filename: "a.md", title: "New" }, { published: true })).toBe("📢 Изменить опубликованную статью «a.md» с изменениями: title");
   });
 
-  it("handles zero as a valid number", () => {
-    expect(sanitizeToolArgs({ count: 0 }).count).toBe(0);
+  it("rejects forbidden calls before running the handler", async () => {
+    const { result, metadata } = await runTool("delete_article", { filename: "a.md" }, { role: "viewer" });
+    expect(metadata).toMatchObject({ type: "tool_error" });
+    expect(JSON.parse(result)).toMatchObject({ error: "forbidden", tool: "delete_article" });
   });
 
-  it("handles empty string as valid", () => {
-    expect(sanitizeToolArgs({ title: "" }).title).toBe("");
+  it("refuses to register a tool name twice", () => {
+    const tool = defineTool({
+      name: "list_articles",
+      description: "duplicate",
+      input: z.object({}),
+      permission: "read",
+      handler: async () => ({ result: "" }),
+    });
+    expect(() => registerTool(tool)).toThrow(/already registered/);
   });
 });
 
@@ -268,45 +423,1066 @@ describe("splitMessage", () => {
 });
 
 // ═══════════════════════════════════════════════════
-// isUserAllowed TESTS
+// trimContextMessages TESTS
 // ═══════════════════════════════════════════════════
-describe("isUserAllowed", () => {
-  const originalEnv = process.env.TELEGRAM_ALLOWED_USERS;
+describe("trimContextMessages", () => {
+  it("keeps short histories unchanged", () => {
+    const msgs = [{ role: "user" }, { role: "assistant" }];
+    expect(trimContextMessages(msgs)).toEqual(msgs);
+  });
 
-  it("allows all users when TELEGRAM_ALLOWED_USERS is not set", () => {
-    delete process.env.TELEGRAM_ALLOWED_USERS;
-    expect(isUserAllowed(12345)).toBe(true);
-    expect(isUserAllowed(99999)).toBe(true);
+  it("keeps only the last `max` messages", () => {
+    const msgs = Array.from({ length: 10 }, (_, i) => ({ role: i % 2 === 0 ? "user" : "assistant", i }));
+    const result = trimContextMessages(msgs, 4);
+    expect(result.map(m => m.i)).toEqual([6, 7, 8, 9]);
+  });
+
+  it("drops orphaned tool results at the start of the window", () => {
+    const msgs = [
+      { role: "user" }, { role: "assistant", tool_calls: [{}] }, { role: "tool" },
+      { role: "assistant" }, { role: "user" }, { role: "assistant" },
+    ];
+    const result = trimContextMessages(msgs, 4);
+    expect(result).toEqual([{ role: "user" }, { role: "assistant" }]);
+  });
+
+  it("returns empty history when the window has no user turn", () => {
+    expect(trimContextMessages([{ role: "tool" }, { role: "assistant" }])).toEqual([]);
+  });
+});
+
+// ═══════════════════════════════════════════════════
+// normalizeThreadTitle TESTS
+// ═══════════════════════════════════════════════════
+describe("normalizeThreadTitle", () => {
+  it("trims and collapses whitespace", () => {
+    expect(normalizeThreadTitle("  Статья   про\n AI ")).toBe("Статья про AI");
+  });
+
+  it("limits title length to 64 chars", () => {
+    expect(normalizeThreadTitle("a".repeat(100))).toHaveLength(64);
+  });
+
+  it("returns empty string for blank input", () => {
+    expect(normalizeThreadTitle("   ")).toBe("");
+  });
+});
+
+// ═══════════════════════════════════════════════════
+// readChatCompletionStream TESTS
+// ═══════════════════════════════════════════════════
+function sseBody(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe("readChatCompletionStream", () => {
+  it("assembles content deltas and reports accumulated text", async () => {
+    const seen: string[] = [];
+    const result = await readChatCompletionStream(sseBody([
+      'data: {"id":"c1","model":"m","choices":[{"delta":{"content":"При"}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":"вет"},"finish_reason":"stop"}]}\n\n',
+      "data: [DONE]\n\n",
+    ]), text => seen.push(text));
+    expect(result.choices[0].message.content).toBe("Привет");
+    expect(result.choices[0].finish_reason).toBe("stop");
+    expect(result.model).toBe("m");
+    expect(seen).toEqual(["При", "Привет"]);
+  });
+
+  it("handles events split across network chunks", async () => {
+    const result = await readChatCompletionStream(sseBody([
+      'data: {"choices":[{"delta":{"con',
+      'tent":"ok"}}]}\n\ndata: {"choices":[],"usage":{"prompt_tokens":3,"completion_tokens":1,"total_tokens":4}}\n',
+    ]));
+    expect(result.choices[0].message.content).toBe("ok");
+    expect(result.usage?.total_tokens).toBe(4);
+  });
+
+  it("merges tool call argument fragments by index", async () => {
+    const result = await readChatCompletionStream(sseBody([
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"t1","type":"function","function":{"name":"get_article","arguments":"{\\"file"}}]}}]}\n',
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"name\\":\\"a.md\\"}"}}]}}]}\n',
+    ]));
+    const calls = result.choices[0].message.tool_calls!;
+    expect(calls).toHaveLength(1);
+    expect(calls[0].id).toBe("t1");
+    expect(calls[0].function.name).toBe("get_article");
+    expect(JSON.parse(calls[0].function.arguments)).toEqual({ filename: "a.md" });
+  });
+
+  it("throws on an error event", async () => {
+    await expect(readChatCompletionStream(sseBody([
+      'data: {"error":{"message":"model not found"}}\n',
+    ]))).rejects.toThrow("model not found");
+  });
+});
+
+// ═══════════════════════════════════════════════════
+// createStreamingReply TESTS
+// ═══════════════════════════════════════════════════
+describe("createStreamingReply", () => {
+  it("throttles preview edits", async () => {
+    const edits: string[] = [];
+    const streaming = createStreamingReply(async text => { edits.push(text); }, 60_000);
+    streaming.update("a");
+    streaming.update("ab");
+    streaming.update("abc");
+    await streaming.finish("abc");
+    expect(edits).toEqual(["a", "abc"]);
+  });
+
+  it("skips the final edit when the preview already shows the text", async () => {
+    const edits: string[] = [];
+    const streaming = createStreamingReply(async text => { edits.push(text); }, 0);
+    streaming.update("done");
+    expect(await streaming.finish("done")).toEqual([]);
+    expect(edits).toEqual(["done"]);
+  });
+
+  it("returns overflow parts when the text exceeds one message", async () => {
+    const edits: string[] = [];
+    const streaming = createStreamingReply(async text => { edits.push(text); }, 0);
+    const rest = await streaming.finish("a".repeat(9000));
+    expect(edits[0]).toHaveLength(4000);
+    expect(rest.map(p => p.length)).toEqual([4000, 1000]);
+  });
+
+  it("retries the final text when a preview edit failed", async () => {
+    const edits: string[] = [];
+    let calls = 0;
+    const streaming = createStreamingReply(async text => {
+      if (calls++ === 0) throw new Error("429 Too Many Requests");
+      edits.push(text);
+    }, 0);
+    streaming.update("partial");
+    await expect(streaming.finish("partial")).resolves.toEqual([]);
+    expect(edits).toEqual(["partial"]);
+  });
+});
+
+// ═══════════════════════════════════════════════════
+// Pending action confirmation TESTS
+// ═══════════════════════════════════════════════════
+describe("requiresConfirmation", () => {
+  it("always gates deletion and settings changes", () => {
+    expect(requiresConfirmation("delete_article", { filename: "a.md" })).toBe(true);
+    expect(requiresConfirmation("save_settings", { llm_model: "llama3.2" })).toBe(true);
+  });
+
+  it("gates publishing but not drafts", () => {
+    expect(requiresConfirmation("edit_article", { filename: "a.md", draft: false })).toBe(true);
+    expect(requiresConfirmation("edit_article", { filename: "a.md", title: "New" })).toBe(false);
+    expect(requiresConfirmation("create_article", { title: "T", content: "C" })).toBe(true);
+    expect(requiresConfirmation("create_article", { title: "T", content: "C", draft: true })).toBe(false);
+  });
+
+  it("does not gate read-only tools", () => {
+    expect(requiresConfirmation("list_articles", {})).toBe(false);
+    expect(requiresConfirmation("get_settings", {})).toBe(false);
+  });
+});
+
+describe("pending actions", () => {
+  it("can be taken once by the requesting user", () => {
+    const action = createPendingAction({ telegramUserId: 100 }, "delete_article", { filename: "a.md" });
+    expect(action.summary).toContain("a.md");
+    const taken = takePendingAction(action.id, { telegramUserId: 100 });
+    expect("action" in taken && taken.action.tool).toBe("delete_article");
+    expect(takePendingAction(action.id, { telegramUserId: 100 })).toEqual({ error: "not_found" });
+  });
+
+  it("remembers the thread it was proposed in", () => {
+    expect(createPendingAction({ telegramUserId: 100 }, "delete_article", { filename: "a.md" }, undefined, 12).conversationId).toBe(12);
+    expect(createPendingAction({ telegramUserId: 100 }, "delete_article", { filename: "a.md" }).conversationId).toBeNull();
+  });
+
+  it("keeps Telegram and web owners apart", () => {
+    const action = createPendingAction({ userId: 100 }, "delete_article", { filename: "a.md" });
+    expect(takePendingAction(action.id, { telegramUserId: 100 })).toEqual({ error: "forbidden" });
+    expect("action" in takePendingAction(action.id, { userId: 100 })).toBe(true);
+  });
+
+  it("rejects other users without consuming the action", () => {
+    const action = createPendingAction({ telegramUserId: 100 }, "delete_article", { filename: "a.md" });
+    expect(takePendingAction(action.id, { telegramUserId: 200 })).toEqual({ error: "forbidden" });
+    expect("action" in takePendingAction(action.id, { telegramUserId: 100 })).toBe(true);
+  });
+
+  it("expires after the confirmation timeout", () => {
+    vi.useFakeTimers();
+    try {
+      const action = createPendingAction({ telegramUserId: 100 }, "delete_article", { filename: "a.md" });
+      vi.advanceTimersByTime(6 * 60 * 1000);
+      expect(takePendingAction(action.id, { telegramUserId: 100 })).toEqual({ error: "expired" });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("does not echo secret values in the settings summary", () => {
+    const action = createPendingAction({ telegramUserId: 100 }, "save_settings", { hugo_api_key: "super-secret" });
+    expect(action.summary).toContain("Hugo API Key");
+    expect(action.summary).not.toContain("super-secret");
+  });
+});
+
+// ═══════════════════════════════════════════════════
+// Schedule time parsing TESTS
+// ═══════════════════════════════════════════════════
+describe("parseScheduleTime", () => {
+  it("parses wall clock time in UTC by default", () => {
+    expect(parseScheduleTime("2026-03-02 09:00")?.toISOString()).toBe("2026-03-02T09:00:00.000Z");
+  });
+
+  it("applies the configured time zone", () => {
+    expect(parseScheduleTime("2026-03-02 09:00", "Europe/Moscow")?.toISOString()).toBe("2026-03-02T06:00:00.000Z");
+  });
+
+  it("respects daylight saving time of the target date", () => {
+    expect(parseScheduleTime("2026-01-15 12:00", "Europe/Berlin")?.toISOString()).toBe("2026-01-15T11:00:00.000Z");
+    expect(parseScheduleTime("2026-07-15 12:00", "Europe/Berlin")?.toISOString()).toBe("2026-07-15T10:00:00.000Z");
+  });
+
+  it("accepts ISO 8601 with an explicit offset", () => {
+    expect(parseScheduleTime("2026-03-02T09:00:00+03:00")?.toISOString()).toBe("2026-03-02T06:00:00.000Z");
+    expect(parseScheduleTime("2026-03-02T09:00:00Z", "Europe/Moscow")?.toISOString()).toBe("2026-03-02T09:00:00.000Z");
+  });
+
+  it("rejects malformed or impossible dates", () => {
+    expect(parseScheduleTime("tomorrow")).toBeNull();
+    expect(parseScheduleTime("2026-02-30 10:00")).toBeNull();
+    expect(parseScheduleTime("2026-03-02 25:00")).toBeNull();
+  });
+
+  it("rejects unknown time zones", () => {
+    expect(parseScheduleTime("2026-03-02 09:00", "Mars/Olympus")).toBeNull();
+  });
+
+  it("round-trips through formatScheduleTime", () => {
+    const date = parseScheduleTime("2026-03-02 09:00", "Europe/Moscow")!;
+    expect(formatScheduleTime(date, "Europe/Moscow")).toBe("2026-03-02 09:00 (Europe/Moscow)");
+  });
+
+  it("confirms the local publication time of the checked draft", async () => {
+    const schedule = getTool("schedule_article")!;
+    const target = { article: { title: "Docker", filename: "docker.md" }, publishAt: new Date("2030-01-01T09:00:00Z"), timeZone: "Europe/Moscow" };
+    expect(schedule.confirm!({ filename: "docker.md", publish_at: "2030-01-01 12:00" }, target))
+      .toBe("🗓 Запланировать публикацию статьи «Docker» на 2030-01-01 12:00 (Europe/Moscow)");
+    expect(schedule.confirm!({ filename: "docker.md", cancel: true })).toBeUndefined();
+    expect((await runTool("schedule_article", { filename: "missing.md", publish_at: "2030-01-01 12:00" }, { role: "editor" })).result)
+      .toBe('Статья "missing.md" не найдена.');
+  });
+});
+
+// ═══════════════════════════════════════════════════
+// AUDIT LOG TESTS
+// ═══════════════════════════════════════════════════
+describe("audit log", () => {
+  it("redacts secrets and shortens long arguments", () => {
+    const stored = JSON.parse(sanitizeAuditArgs({
+      hugo_api_key: "s3cret", llm_model: "gpt", content: "x".repeat(1000), nested: { token: "t" },
+    })!);
+    expect(stored.hugo_api_key).toBe("[скрыто]");
+    expect(stored.nested.token).toBe("[скрыто]");
+    expect(stored.llm_model).toBe("gpt");
+    expect(stored.content.length).toBeLessThan(250);
+    expect(sanitizeAuditArgs(undefined)).toBeNull();
+  });
+
+  it("treats ❌ tool results as errors", () => {
+    expect(outcomeOfResult("❌ Ошибка удаления: 500")).toBe("error");
+    expect(outcomeOfResult("🗑 Статья \"a.md\" удалена.")).toBe("success");
+  });
+
+  it("parses /audit filters", () => {
+    expect(parseAuditFilter("")).toEqual({ filter: {} });
+    const parsed = parseAuditFilter("user:42 tool:delete_article from:2026-03-01 to:2026-03-01", "Europe/Moscow");
+    expect(parsed).toEqual({
+      filter: {
+        telegramUserId: 42,
+        tool: "delete_article",
+        from: new Date("2026-02-28T21:00:00Z"),
+        to: new Date("2026-03-01T20:59:59.999Z"),
+      },
+    });
+    expect(parseAuditFilter("user:abc")).toHaveProperty("error");
+    expect(parseAuditFilter("from:2026-02-30")).toHaveProperty("error");
+    expect(parseAuditFilter("delete")).toHaveProperty("error");
+  });
+
+  it("formats an event with its actor, arguments and failure reason", () => {
+    const text = formatAuditEvent({
+      id: 1, telegramUserId: 42, userId: null, tool: "delete_article", args: '{"filename":"a.md"}',
+      outcome: "denied", result: "needs publish", latencyMs: 0, createdAt: new Date("2026-03-01T09:00:00Z"),
+    });
+    expect(text).toContain("⛔ 2026-03-01 09:00 · delete_article · 👤 42");
+    expect(text).toContain('{"filename":"a.md"}');
+    expect(text).toContain("→ needs publish");
+  });
+});
+
+// ═══════════════════════════════════════════════════
+// AI USAGE TESTS
+// ═══════════════════════════════════════════════════
+describe("AI usage accounting", () => {
+  it("logs the latest user message as the prompt", () => {
+    expect(promptOf([
+      { role: "system", content: "system prompt" },
+      { role: "user", content: "first" },
+      { role: "assistant", content: "answer" },
+      { role: "user", content: "второй вопрос" },
+      { role: "tool", content: "{}" },
+    ])).toBe("второй вопрос");
+    expect(promptOf([{ role: "user", content: "x".repeat(5000) }]).length).toBeLessThan(2100);
+  });
+
+  it("logs assistant text or the requested tools as the result", () => {
+    expect(resultOf({ choices: [{ message: { content: "Готово" } }] })).toBe("Готово");
+    expect(resultOf({
+      choices: [{ message: { content: "", tool_calls: [{ function: { name: "get_stats" } }, { function: { name: "list_articles" } }] } }],
+    })).toBe("tool_calls: get_stats, list_articles");
+    expect(resultOf(undefined)).toBe("");
+  });
+
+  it("starts usage periods at local midnight", () => {
+    const now = new Date("2026-03-15T22:30:00Z"); // already March 16 in Moscow
+    expect(usagePeriodStart("day", "Europe/Moscow", now)).toEqual(new Date("2026-03-15T21:00:00Z"));
+    expect(usagePeriodStart("month", "Europe/Moscow", now)).toEqual(new Date("2026-02-28T21:00:00Z"));
+    expect(usagePeriodStart("day", "UTC", now)).toEqual(new Date("2026-03-15T00:00:00Z"));
+  });
+
+  it("formats token totals", () => {
+    const line = formatUsageLine("local · llama3", { requests: 3, failed: 1, promptTokens: 1200, completionTokens: 300, totalTokens: 1500 });
+    expect(line).toMatch(/^• local · llama3: 3 запр\., ошибок 1, 1\s500 ток\. \(вход 1\s200 \/ выход 300\)$/);
+  });
+});
+
+// ═══════════════════════════════════════════════════
+// TOKEN BUDGET TESTS
+// ═══════════════════════════════════════════════════
+describe("token budgets", () => {
+  it("treats empty, zero and invalid limits as unlimited", () => {
+    expect(parseTokenLimit("50000")).toBe(50000);
+    expect(parseTokenLimit("0")).toBeNull();
+    expect(parseTokenLimit("-5")).toBeNull();
+    expect(parseTokenLimit("1.5")).toBeNull();
+    expect(parseTokenLimit(null)).toBeNull();
+  });
+
+  it("parses /budget values", () => {
+    expect(parseBudgetValue("100000")).toBe(100000);
+    expect(parseBudgetValue("off")).toBe(0);
+    expect(parseBudgetValue("default")).toBeNull();
+    expect(parseBudgetValue("lots")).toBeUndefined();
+    expect(parseBudgetValue(undefined)).toBeUndefined();
+  });
+
+  it("explains which budget was exceeded", () => {
+    const error = new TokenBudgetExceededError({ scope: "user", used: 120000, limit: 100000, telegramUserId: 42 });
+    expect(error.message).toMatch(/^⛔ Ваш дневной лимит токенов исчерпан \(120\s000 из 100\s000\)/);
+    expect(new TokenBudgetExceededError({ scope: "global", used: 1, limit: 1 }).message).toContain("Общий");
+  });
+
+  it("formats the 80% admin alert", () => {
+    expect(budgetAlertText({ scope: "user", used: 85000, limit: 100000, telegramUserId: 42 }))
+      .toMatch(/пользователя 42 израсходован на 85%/);
+    expect(budgetAlertText({ scope: "global", used: 800, limit: 1000 })).toMatch(/^⚠️ Общий дневной лимит токенов израсходован на 80%/);
+  });
+
+  it("does not block requests when no budgets are configured", async () => {
+    expect(await getBudgetStatus({ telegramUserId: 42 })).toEqual([]);
+    await expect(assertWithinBudget({ telegramUserId: 42 })).resolves.toBeUndefined();
+  });
+});
+
+// ═══════════════════════════════════════════════════
+// LLM PROVIDER ROUTING TESTS
+// ═══════════════════════════════════════════════════
+describe("LLM provider routing", () => {
+  const provider = (id: string, priority: number): LLMProviderConfig => ({
+    id, name: id.toUpperCase(), type: "openai", endpoint: `http://${id}.test`, model: `${id}-model`, priority, enabled: true,
+  });
+  const completion = { model: "served-model", choices: [{ message: { role: "assistant", content: "ok" } }] };
+
+  it("derives the chain from legacy single-endpoint settings", () => {
+    expect(legacyProviders({ useLocal: "false", endpoint: "http://x.test", model: null, apiKey: null })).toEqual([BUILTIN_PROVIDER]);
+    const chain = legacyProviders({ useLocal: "true", endpoint: "http://x.test", model: "llama3", apiKey: null });
+    expect(chain.map(p => p.id)).toEqual(["local", "builtin"]);
+    expect(chain[0]).toMatchObject({ endpoint: "http://x.test", model: "llama3" });
+    expect(chain[0]).not.toHaveProperty("apiKey");
+  });
+
+  it("orders providers by priority and describes them", () => {
+    expect(sortProviders([provider("b", 20), provider("a", 10)]).map(p => p.id)).toEqual(["a", "b"]);
+    expect(describeProvider(provider("a", 10))).toBe("A · a-model");
+    expect(describeProvider(provider("a", 10), "other")).toBe("A · other");
+    expect(describeProvider(BUILTIN_PROVIDER)).toBe("Встроенный");
   });
 
-  it("allows all users when TELEGRAM_ALLOWED_USERS is empty", () => {
-    process.env.TELEGRAM_ALLOWED_USERS = "";
-    expect(isUserAllowed(12345)).toBe(true);
+  it("opens the circuit after repeated failures until the cooldown passes", () => {
+    resetCircuits();
+    const now = 1_000_000;
+    recordProviderFailure("flaky", "HTTP 500", now);
+    recordProviderFailure("flaky", "HTTP 500", now);
+    expect(isCircuitOpen("flaky", now)).toBe(false);
+    recordProviderFailure("flaky", "HTTP 500", now);
+    expect(isCircuitOpen("flaky", now + 1)).toBe(true);
+    expect(isCircuitOpen("flaky", now + CIRCUIT_COOLDOWN_MS + 1)).toBe(false);
+    recordProviderSuccess("flaky");
+    expect(isCircuitOpen("flaky", now + 1)).toBe(false);
   });
 
-  it("allows only listed users when set", () => {
-    process.env.TELEGRAM_ALLOWED_USERS = "111,222,333";
-    expect(isUserAllowed(111)).toBe(true);
-    expect(isUserAllowed(222)).toBe(true);
-    expect(isUserAllowed(333)).toBe(true);
-    expect(isUserAllowed(444)).toBe(false);
+  it("falls back to the next provider and reports every attempt", async () => {
+    resetCircuits();
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async (url) =>
+      String(url).startsWith("http://a.test")
+        ? new Response("down", { status: 502 })
+        : new Response(JSON.stringify(completion), { status: 200, headers: { "Content-Type": "application/json" } })
+    );
+    try {
+      const attempts: Array<{ id: string; error?: string }> = [];
+      const { response, provider: served } = await routeChatCompletion(
+        { messages: [{ role: "user", content: "hi" }] },
+        attempt => { attempts.push({ id: attempt.provider.id, error: attempt.error }); },
+        [provider("b", 20), provider("a", 10)]
+      );
+      expect(served.id).toBe("b");
+      expect(response.choices[0].message.content).toBe("ok");
+      expect(attempts).toEqual([{ id: "a", error: expect.stringContaining("HTTP 502") }, { id: "b", error: undefined }]);
+      expect(String(fetchSpy.mock.calls[0][0])).toBe("http://a.test/v1/chat/completions");
+    } finally {
+      fetchSpy.mockRestore();
+      resetCircuits();
+    }
+  });
+
+  it("skips providers with an open circuit", async () => {
+    resetCircuits();
+    for (let i = 0; i < 3; i++) recordProviderFailure("a", "HTTP 500");
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async () =>
+      new Response(JSON.stringify(completion), { status: 200, headers: { "Content-Type": "application/json" } })
+    );
+    try {
+      const { provider: served } = await routeChatCompletion({ messages: [] }, undefined, [provider("a", 10), provider("b", 20)]);
+      expect(served.id).toBe("b");
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    } finally {
+      fetchSpy.mockRestore();
+      resetCircuits();
+    }
+  });
+
+  it("fails with every provider's error when the whole chain is down", async () => {
+    resetCircuits();
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response("", { status: 503 }));
+    try {
+      await expect(routeChatCompletion({ messages: [] }, undefined, [provider("a", 10), provider("b", 20)]))
+        .rejects.toThrow(/^Все LLM-провайдеры недоступны \(A: HTTP 503.*; B: HTTP 503/);
+      await expect(routeChatCompletion({ messages: [] }, undefined, [{ ...provider("a", 10), enabled: false }]))
+        .rejects.toThrow("Нет включённых LLM-провайдеров");
+    } finally {
+      fetchSpy.mockRestore();
+      resetCircuits();
+    }
+  });
+
+  it("shows which provider answered", () => {
+    expect(replyText({ text: "Готово", provider: "Ollama · llama3" })).toBe("Готово\n\n🤖 Ollama · llama3");
+    expect(replyText({ text: "Готово" })).toBe("Готово");
+  });
+
+  it("lets only admins change the provider chain", () => {
+    expect(authorizeToolCall(getTool("list_llm_providers")!, {}, "viewer")).toBeNull();
+    expect(authorizeToolCall(getTool("save_llm_provider")!, { id: "ollama" }, "editor")).toHaveProperty("error", "forbidden");
+    expect(authorizeToolCall(getTool("remove_llm_provider")!, { id: "ollama" }, "admin")).toBeNull();
+    expect(requiresConfirmation("save_llm_provider", { id: "ollama" })).toBe(true);
+  });
+});
+
+// ═══════════════════════════════════════════════════
+// PER-TASK MODEL TESTS
+// ═══════════════════════════════════════════════════
+describe("per-task models", () => {
+  const chain: LLMProviderConfig[] = [
+    { id: "ollama", name: "Ollama", type: "ollama", endpoint: "http://ollama.test", model: "llama3.2:3b", priority: 10, enabled: true },
+    { id: "builtin", name: "Встроенный", type: "builtin", priority: 100, enabled: true },
+  ];
+
+  it("swaps the task model in on the head of the chain by default", () => {
+    const routed = applyTaskModel(chain, { model: "qwen2.5:32b" });
+    expect(routed.map(p => [p.id, p.model])).toEqual([["ollama", "qwen2.5:32b"], ["builtin", undefined]]);
+    expect(chain[0].model).toBe("llama3.2:3b");
+  });
+
+  it("targets the named provider and keeps the priority order", () => {
+    const routed = applyTaskModel(chain, { model: "gemini-2.5-pro", provider: "builtin" });
+    expect(routed.map(p => [p.id, p.model])).toEqual([["ollama", "llama3.2:3b"], ["builtin", "gemini-2.5-pro"]]);
+  });
+
+  it("skips disabled providers and ignores unknown ones", () => {
+    const disabledHead = [{ ...chain[0], enabled: false }, chain[1]];
+    expect(applyTaskModel(disabledHead, { model: "big" })[1].model).toBe("big");
+    expect(applyTaskModel(chain, { model: "big", provider: "missing" })).toEqual(chain);
+    expect(applyTaskModel(chain, undefined)).toBe(chain);
+  });
+
+  it("charges tool LLM calls to the caller", () => {
+    expect(ownerOfToolCall({ telegramUserId: 42 })).toEqual({ telegramUserId: 42 });
+    expect(ownerOfToolCall({ userId: 7 })).toEqual({ userId: 7 });
+    expect(ownerOfToolCall({})).toBeUndefined();
+  });
+
+  it("lists task models with provider defaults", () => {
+    const text = formatTaskModels({ article: { model: "qwen2.5:32b", provider: "ollama" } });
+    expect(text).toContain("• Написание статей [article]: qwen2.5:32b (ollama)");
+    expect(text).toContain("• Диалог и выбор инструментов [chat]: модель провайдера");
+  });
+
+  it("parses JSON replies wrapped in prose or code fences", () => {
+    expect(parseJsonReply('```json\n{"title": "T", "tags": ["a"]}\n```')).toEqual({ title: "T", tags: ["a"] });
+    expect(parseJsonReply('Вот результат: {"title": "T"} — готово')).toEqual({ title: "T" });
+    expect(() => parseJsonReply("нет данных")).toThrow("В ответе модели нет JSON");
+  });
+
+  it("lets only admins assign task models", async () => {
+    expect(authorizeToolCall(getTool("save_task_model")!, { task: "article", model: "big" }, "editor")).toHaveProperty("error", "forbidden");
+    expect(requiresConfirmation("save_task_model", { task: "article", model: "big" })).toBe(true);
+    expect(authorizeToolCall(getTool("suggest_seo")!, { filename: "a.md" }, "viewer")).toBeNull();
+    expect((await runTool("suggest_seo", { filename: "missing.md" }, { role: "viewer" })).result).toBe('Статья "missing.md" не найдена.');
+  });
+});
+
+// ═══════════════════════════════════════════════════
+// ARTICLE GENERATION TESTS
+// ═══════════════════════════════════════════════════
+describe("article generation", () => {
+  const outline: ArticleOutline = {
+    title: "Docker для начинающих",
+    description: "Что такое контейнеры и как начать",
+    tags: ["docker", "devops"],
+    categories: ["Инструменты"],
+    sections: [
+      { heading: "Зачем нужны контейнеры", points: ["изоляция", "воспроизводимость"] },
+      { heading: "Первый контейнер", points: [] },
+    ],
+  };
+
+  it("validates outlines from the model", () => {
+    expect(articleOutlineSchema.safeParse(outline).success).toBe(true);
+    expect(articleOutlineSchema.safeParse({ ...outline, sections: outline.sections.slice(0, 1) }).success).toBe(false);
+  });
+
+  it("formats the outline for review", () => {
+    expect(formatOutline(outline)).toBe(
+      "📝 Docker для начинающих\nЧто такое контейнеры и как начать\n\n" +
+      "1. Зачем нужны контейнеры\n   • изоляция\n   • воспроизводимость\n2. Первый контейнер\n\n" +
+      "Теги: docker, devops\nКатегории: Инструменты"
+    );
+  });
+
+  it("drops a repeated section heading but keeps subheadings", () => {
+    expect(stripLeadingHeading("## Первый контейнер\n\nТекст", "Первый контейнер")).toBe("Текст");
+    expect(stripLeadingHeading("**Первый контейнер**\nТекст", "Первый контейнер")).toBe("Текст");
+    expect(stripLeadingHeading("### Установка\nТекст", "Первый контейнер")).toBe("### Установка\nТекст");
+    expect(stripLeadingHeading("Текст", "Первый контейнер")).toBe("Текст");
+  });
+
+  it("assembles sections under their headings", () => {
+    expect(assembleArticle(outline, ["Потому что.\n", "docker run hello-world"]))
+      .toBe("## Зачем нужны контейнеры\n\nПотому что.\n\n## Первый контейнер\n\ndocker run hello-world\n");
+  });
+
+  it("derives the draft filename from the title", async () => {
+    expect(await uniqueArticleFilename("Docker для начинающих!")).toBe("docker-для-начинающих");
+    expect(await uniqueArticleFilename("???")).toBe("article");
   });
 
-  it("handles whitespace in user IDs", () => {
-    process.env.TELEGRAM_ALLOWED_USERS = " 111 , 222 , 333 ";
-    expect(isUserAllowed(111)).toBe(true);
-    expect(isUserAllowed(222)).toBe(true);
+  it("keeps outlines for their author until they expire", () => {
+    const draft = saveOutlineDraft({ telegramUserId: 1 }, "docker", outline);
+    expect(getOutlineDraft(draft.id, { telegramUserId: 1 })).toEqual({ draft });
+    expect(getOutlineDraft(draft.id, { telegramUserId: 2 })).toEqual({ error: "forbidden" });
+    expect(getOutlineDraft(draft.id, { userId: 1 })).toEqual({ error: "forbidden" });
+    pruneOutlineDrafts(Date.now() + OUTLINE_TTL_MS + 1);
+    expect(getOutlineDraft(draft.id, { telegramUserId: 1 })).toEqual({ error: "not_found" });
   });
 
-  it("ignores invalid (NaN) entries", () => {
-    process.env.TELEGRAM_ALLOWED_USERS = "111,abc,333";
-    expect(isUserAllowed(111)).toBe(true);
-    expect(isUserAllowed(333)).toBe(true);
+  it("requires write access and a live outline", async () => {
+    expect(authorizeToolCall(getTool("generate_article")!, { topic: "Docker" }, "viewer")).toHaveProperty("error", "forbidden");
+    expect(authorizeToolCall(getTool("write_article_from_outline")!, { outline_id: "x" }, "author")).toBeNull();
+    const { result } = await runTool("write_article_from_outline", { outline_id: "missing" }, { role: "author", telegramUserId: 1 });
+    expect(result).toMatch(/^❌ План не найден/);
+    const draft = saveOutlineDraft({ telegramUserId: 1 }, "docker", outline);
+    expect((await runTool("revise_article_outline", { outline_id: draft.id, feedback: "короче" }, { role: "author", telegramUserId: 2 })).result)
+      .toBe("❌ Этот план составлен для другого пользователя.");
   });
+});
+
+// ═══════════════════════════════════════════════════
+// OLLAMA API TESTS
+// ═══════════════════════════════════════════════════
+describe("Ollama API", () => {
+  const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+
+  it("lists installed models sorted by name", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async () => json({
+      models: [
+        { name: "qwen2.5:7b", size: 4_700_000_000, modified_at: "2025-01-01", details: { family: "qwen2", parameter_size: "7.6B", quantization_level: "Q4_K_M" } },
+        { name: "llama3.1:8b", size: 4_900_000_000, modified_at: "2025-01-02", details: {} },
+      ],
+    }));
+    try {
+      const models = await listOllamaModels("http://ollama.test:11434/v1/");
+      expect(String(fetchSpy.mock.calls[0][0])).toBe("http://ollama.test:11434/api/tags");
+      expect(models.map(m => m.name)).toEqual(["llama3.1:8b", "qwen2.5:7b"]);
+      expect(models[1]).toMatchObject({ parameterSize: "7.6B", quantization: "Q4_K_M" });
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it("reads the context length from /api/show", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch")
+      .mockImplementationOnce(async () => json({ model_info: { "general.architecture": "llama", "llama.context_length": 131072 } }))
+      .mockImplementationOnce(async () => json({ parameters: "stop \"<|eot|>\"\nnum_ctx 8192", model_info: { "llama.context_length": 131072 } }))
+      .mockImplementationOnce(async () => json({}));
+    try {
+      expect(await showOllamaModel("http://ollama.test", "llama3.1:8b")).toEqual({ name: "llama3.1:8b", contextLength: 131072 });
+      expect(JSON.parse(String(fetchSpy.mock.calls[0][1]?.body))).toEqual({ model: "llama3.1:8b" });
+      expect((await showOllamaModel("http://ollama.test", "custom")).contextLength).toBe(8192);
+      expect(await showOllamaModel("http://ollama.test", "bare")).toEqual({ name: "bare" });
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it("streams pull progress until success", async () => {
+    // Chunk boundaries fall inside a JSON line on purpose
+    const chunks = [
+      '{"status":"pulling manifest"}\n{"status":"pulling abc","digest":"abc","tot',
+      'al":1000,"completed":500}\n{"status":"success"}\n',
+    ];
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response(new ReadableStream({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+        controller.close();
+      },
+    })));
+    try {
+      const progress: OllamaPullProgress[] = [];
+      await pullOllamaModel("http://ollama.test", "llama3.1:8b", p => progress.push(p));
+      expect(progress.map(p => p.status)).toEqual(["pulling manifest", "pulling abc", "success"]);
+      expect(progress[1]).toMatchObject({ total: 1000, completed: 500 });
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it("fails a pull that Ollama reports as an error", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async () =>
+      new Response('{"status":"pulling manifest"}\n{"error":"pull model manifest: file does not exist"}\n'));
+    try {
+      await expect(pullOllamaModel("http://ollama.test", "nope")).rejects.toThrow("Ollama: pull model manifest: file does not exist");
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it("formats sizes, progress and model lines", () => {
+    expect(formatModelSize(4_920_000_000)).toBe("4.6 ГБ");
+    expect(formatModelSize(300 * 1024 ** 2)).toBe("300 МБ");
+    expect(formatPullProgress("llama3", { status: "pulling manifest" })).toBe("⬇️ Загрузка llama3: pulling manifest");
+    expect(formatPullProgress("llama3", { status: "pulling abc", total: 2 * 1024 ** 3, completed: 1024 ** 3 }))
+      .toBe("⬇️ Загрузка llama3: pulling abc\n50% (1.0 ГБ из 2.0 ГБ)");
+    expect(formatOllamaModel({ name: "llama3", size: 1024 ** 3, modifiedAt: "", parameterSize: "8B" }, { name: "llama3", contextLength: 8192 }, true))
+      .toMatch(/^✅ llama3 — 1\.0 ГБ, 8B, контекст 8\s192$/);
+  });
+
+  it("has no Ollama provider when only the built-in model is configured", async () => {
+    expect(await getOllamaProvider()).toBeNull();
+  });
+});
 
-  it("blocks user ID 0 when list is set", () => {
+// ═══════════════════════════════════════════════════
+// RETRIEVAL TESTS
+// ═══════════════════════════════════════════════════
+describe("related articles retrieval", () => {
+  const provider: LLMProviderConfig = {
+    id: "ollama", name: "Ollama", type: "ollama", endpoint: "http://ollama.test:11434/", model: "llama3", priority: 1, enabled: true,
+  };
+
+  it("groups paragraphs into chunks and splits long ones at spaces", () => {
+    expect(chunkText("Первый абзац.\n\nВторой абзац.\n\n\n", 100)).toEqual(["Первый абзац.\n\nВторой абзац."]);
+    expect(chunkText("aaaa bbbb\n\ncccc dddd", 10)).toEqual(["aaaa bbbb", "cccc dddd"]);
+    const long = chunkText("слово ".repeat(50).trim(), 40);
+    expect(long.every(chunk => chunk.length <= 40 && !chunk.startsWith(" "))).toBe(true);
+    expect(long.join(" ")).toBe("слово ".repeat(50).trim());
+    expect(chunkText("  \n\n ")).toEqual([]);
+  });
+
+  it("scores vectors by cosine similarity", () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 3])).toBeCloseTo(0);
+    expect(cosineSimilarity([1, 1], [-1, -1])).toBeCloseTo(-1);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+
+  it("changes the content hash when the title or text changes", () => {
+    expect(articleContentHash("A", "text")).toBe(articleContentHash("A", "text"));
+    expect(articleContentHash("A", "text")).not.toBe(articleContentHash("B", "text"));
+    expect(articleContentHash("A", null)).toBe(articleContentHash("A", ""));
+  });
+
+  it("requests embeddings from the provider's /v1/embeddings in index order", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response(JSON.stringify({
+      data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }],
+    })));
+    try {
+      const vectors = await embedTexts({ provider: { ...provider, apiKey: "secret" }, model: "nomic-embed-text" }, ["a", "b"]);
+      expect(vectors).toEqual([[1, 0], [0, 1]]);
+      expect(String(fetchSpy.mock.calls[0][0])).toBe("http://ollama.test:11434/v1/embeddings");
+      const init = fetchSpy.mock.calls[0][1]!;
+      expect(JSON.parse(String(init.body))).toEqual({ model: "nomic-embed-text", input: ["a", "b"] });
+      expect((init.headers as Record<string, string>).Authorization).toBe("Bearer secret");
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it("fails when the provider returns fewer vectors than texts", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async () =>
+      new Response(JSON.stringify({ data: [{ index: 0, embedding: [1] }] })));
+    try {
+      await expect(embedTexts({ provider, model: "nomic-embed-text" }, ["a", "b"])).rejects.toThrow("expected 2 vectors, got 1");
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it("formats related passages as prompt context with links", () => {
+    const passages: RelatedPassage[] = [
+      { filename: "docker-basics", title: "Основы Docker", hugoUrl: "https://blog.test/posts/docker-basics/", draft: false, content: "Контейнеры", score: 0.9 },
+      { filename: "compose", title: "Compose", hugoUrl: null, draft: false, content: "x".repeat(700), score: 0.7 },
+    ];
+    const context = formatRelatedContext(passages);
+    expect(context).toContain("«Основы Docker» (ссылка: https://blog.test/posts/docker-basics/):\nКонтейнеры");
+    expect(context).toContain('«Compose» (ссылка: {{< ref "compose" >}}):');
+    expect(context).toContain(`${"x".repeat(600)}…`);
+    expect(formatRelatedContext([])).toBe("");
+  });
+
+  it("adds no context when nothing is indexed", async () => {
+    expect(await relatedArticlesContext("Docker")).toBe("");
+  });
+
+  it("is a read tool that needs a query or an article", async () => {
+    expect(authorizeToolCall(getTool("find_related_articles")!, { query: "Docker" }, "viewer")).toBeNull();
+    expect((await runTool("find_related_articles", {}, { role: "viewer" })).result).toBe("❌ Укажите запрос или статью.");
+  });
+});
+
+// ═══════════════════════════════════════════════════
+// ARTICLE SEARCH TESTS
+// ═══════════════════════════════════════════════════
+describe("article search", () => {
+  const article = {
+    id: 7, filename: "docker-basics", title: "Основы Docker", content: "Вступление.\n\nКонтейнеры изолируют процессы.",
+    categories: "DevOps, Machine Learning", draft: false, createdAt: new Date("2026-03-10T12:00:00Z"),
+  } as Article;
+
+  it("builds a boolean full-text query with prefixes and phrases", () => {
+    expect(fulltextBooleanQuery("docker compose")).toBe("docker* compose*");
+    expect(fulltextBooleanQuery('"docker compose" +volumes -(x)')).toBe('"docker compose" volumes* x*');
+    expect(fulltextBooleanQuery("50\\% @* ~")).toBe("50%*");
+    expect(fulltextBooleanQuery('"" ***')).toBe("");
+  });
+
+  it("parses /search filters and keeps other words as the query", () => {
+    const parsed = parseSearchCommand('"docker compose" category:Machine_Learning status:draft from:2026-01-01 to:2026-01-31 mode:semantic');
+    expect(parsed).toEqual({
+      search: {
+        query: '"docker compose"', category: "Machine Learning", draft: true, mode: "semantic",
+        from: new Date("2026-01-01T00:00:00Z"), to: new Date("2026-01-31T23:59:59.999Z"),
+      },
+    });
+    expect(parseSearchCommand("http://example.com")).toEqual({ search: { query: "http://example.com" } });
+    expect(parseSearchCommand("status:archived")).toEqual({ error: "Неизвестный статус: archived (draft или published)" });
+    expect(parseSearchCommand("mode:fuzzy")).toHaveProperty("error");
+    expect(parseSearchCommand("from:2026-02-30")).toEqual({ error: "Неверная дата: 2026-02-30" });
+  });
+
+  it("filters semantic hits by category, status and date", () => {
+    expect(matchesArticleFilters(article, { category: "machine learning", draft: false })).toBe(true);
+    expect(matchesArticleFilters(article, { category: "Frontend" })).toBe(false);
+    expect(matchesArticleFilters(article, { draft: true })).toBe(false);
+    expect(matchesArticleFilters(article, { from: new Date("2026-03-01"), to: new Date("2026-03-31") })).toBe(true);
+    expect(matchesArticleFilters(article, { from: new Date("2026-04-01") })).toBe(false);
+  });
+
+  it("shows the text around the first matching word", () => {
+    expect(articleExcerpt(article.content, "изолируют")).toBe("Вступление. Контейнеры изолируют процессы.");
+    const long = `${"а".repeat(300)} docker ${"б".repeat(300)}`;
+    const excerpt = articleExcerpt(long, "Docker");
+    expect(excerpt).toMatch(/^….*docker.*…$/);
+    expect(excerpt.length).toBe(162);
+    expect(articleExcerpt(null)).toBe("");
+  });
+
+  it("formats hits and describes the search", () => {
+    expect(formatSearchHit({ ...article, excerpt: "…процессы." }, 3)).toBe("3. Основы Docker (docker-basics) — опубликована\n   …процессы.");
+    expect(describeSearch({ query: "docker", mode: "semantic", category: "DevOps", draft: true }))
+      .toBe("«docker», по смыслу, категория DevOps, черновики");
+    expect(describeSearch({})).toBe("все статьи");
+  });
+
+  it("rejects impossible dates in list_articles", async () => {
+    expect((await runTool("list_articles", { from: "2026-02-30" }, { role: "viewer" })).result).toBe("❌ Неверная дата: 2026-02-30");
+    expect(prepareToolCall("list_articles", { to: "31.01.2026" })).toHaveProperty("error");
+    expect((await runTool("list_articles", { search: "docker", category: "DevOps" }, { role: "viewer" })).result).toBe("Статьи не найдены.");
+  });
+});
+
+describe("Hugo sync", () => {
+  const fields = { title: "Docker", description: "", content: "a\nb\nc", tags: "docker", categories: "DevOps", draft: false };
+  const synced = { ...fields, filename: "docker", hugoUrl: "https://blog/docker", syncedHash: articleSyncHash(fields) } as Article;
+  const remote = (patch = {}) => ({ ...fields, filename: "docker", updatedAt: null, ...patch });
+
+  it("normalizes Hugo posts", () => {
+    expect(normalizeRemotePost({ slug: "x", title: "X", tags: ["a", "b"], lastmod: "2026-05-01T10:00:00Z" })).toEqual({
+      filename: "x", slug: "x", url: undefined, title: "X", description: "", content: "",
+      tags: "a, b", categories: "", draft: false, frontMatter: {}, updatedAt: new Date("2026-05-01T10:00:00Z"),
+    });
+    // lastmod is Hugo's to set; the article keeps it as remoteUpdatedAt
+    expect(normalizeRemotePost({ filename: "z", front_matter: { author: "Ann", weight: 2, lastmod: "2026-05-01", title: "Z" } })?.frontMatter)
+      .toEqual({ author: "Ann", weight: 2 });
+    expect(normalizeRemotePost({ title: "no name" })).toBeNull();
+    expect(normalizeRemotePost({ filename: "y", date: "not a date" })?.updatedAt).toBeNull();
+  });
+
+  it("tells which side changed since the last sync", () => {
+    expect(decideSyncAction(undefined, remote())).toEqual({ type: "pull" });
+    expect(decideSyncAction(synced, remote())).toEqual({ type: "unchanged" });
+    expect(decideSyncAction(synced, remote({ title: "Docker 2" }))).toEqual({ type: "pull" });
+    expect(decideSyncAction({ ...synced, title: "Docker 2" }, remote())).toEqual({ type: "push" });
+    expect(decideSyncAction({ ...synced, title: "Local" }, remote({ title: "Remote" })))
+      .toEqual({ type: "conflict", kind: "both_changed" });
+  });
+
+  it("skips posts whose lastmod has not moved since the last sync", () => {
+    const lastmod = new Date("2026-05-01T10:00:00Z");
+    const pulled = { ...synced, remoteUpdatedAt: lastmod };
+    expect(decideSyncAction(pulled, remote({ title: "Docker 2", updatedAt: new Date("2026-05-01T10:00:00.400Z") })))
+      .toEqual({ type: "unchanged" });
+    expect(decideSyncAction({ ...pulled, title: "Local" }, remote({ title: "Remote", updatedAt: lastmod }))).toEqual({ type: "push" });
+    expect(decideSyncAction(pulled, remote({ title: "Docker 2", updatedAt: new Date("2026-05-02T10:00:00Z") }))).toEqual({ type: "pull" });
+    expect(decideSyncAction({ ...pulled, syncedHash: null }, remote({ title: "Remote", updatedAt: lastmod }))).toEqual({ type: "pull" });
+    // The publication date says nothing about edits
+    expect(normalizeRemotePost({ filename: "y", date: "2026-01-01" })?.updatedAt).toBeNull();
+  });
+
+  it("handles posts deleted in Hugo and never synced articles", () => {
+    expect(decideSyncAction(synced, undefined)).toEqual({ type: "delete_local" });
+    expect(decideSyncAction({ ...synced, content: "edited" }, undefined)).toEqual({ type: "conflict", kind: "deleted_remotely" });
+    const draft = { ...synced, hugoUrl: null, syncedHash: null };
+    expect(decideSyncAction(draft, undefined)).toEqual({ type: "upload" });
+    expect(decideSyncAction({ ...synced, syncedHash: null }, remote({ title: "Remote" }))).toEqual({ type: "pull" });
+    expect(decideSyncAction(draft, remote({ title: "Remote" }))).toEqual({ type: "conflict", kind: "both_changed" });
+  });
+
+  it("merges fields changed on different sides", () => {
+    const base = syncFieldsOf(synced);
+    const result = mergeSyncFields(base,
+      { ...base, title: "Local title", tags: "docker, compose", content: "A\nb\nc" },
+      { ...base, description: "Remote", tags: "docker, k8s", content: "a\nb\nC" });
+    expect(result).toEqual({ merged: {
+      ...base, title: "Local title", description: "Remote", tags: "docker, compose, k8s", content: "A\nb\nC",
+    } });
+    expect(mergeSyncFields(base, { ...base, title: "L", content: "X\nb\nc" }, { ...base, title: "R", content: "Y\nb\nc" }))
+      .toEqual({ conflicts: ["заголовок", "текст"] });
+  });
+
+  it("merges front matter key by key", () => {
+    const base = { ...syncFieldsOf(synced), frontMatter: { author: "Ann", weight: 1, series: ["k8s"] } };
+    const result = mergeSyncFields(base,
+      { ...base, frontMatter: { author: "Bob", weight: 1, series: ["k8s"] } },
+      { ...base, frontMatter: { author: "Ann", weight: 1, aliases: ["/old/"] } });
+    expect(result).toEqual({ merged: { ...base, frontMatter: { author: "Bob", weight: 1, aliases: ["/old/"] } } });
+    expect(mergeSyncFields(base, { ...base, frontMatter: { weight: 2 } }, { ...base, frontMatter: { weight: 3 } }))
+      .toEqual({ conflicts: ["front matter: weight"] });
+  });
+
+  it("hashes the front matter map whatever order MySQL keeps its keys in", () => {
+    expect(articleSyncHash({ ...fields, frontMatter: {} })).toBe(articleSyncHash(fields));
+    expect(articleSyncHash({ ...fields, frontMatter: { b: 1, params: { y: 1, x: 2 } } }))
+      .toBe(articleSyncHash({ ...fields, frontMatter: { params: { x: 2, y: 1 }, b: 1 } }));
+    expect(articleSyncHash({ ...fields, frontMatter: { weight: 1 } })).not.toBe(articleSyncHash(fields));
+  });
+
+  it("reports what the sync did", () => {
+    const text = formatSyncReport({
+      pulled: ["a", "b"], pushed: ["c"], uploaded: [], deletedLocally: [], queued: ["e"], unchanged: 4, skipped: 0, errors: [],
+      conflicts: [{ id: 3, filename: "d", kind: "both_changed", remote: null, remoteUpdatedAt: null, createdAt: new Date() }],
+    });
+    expect(text).toContain("📥 Загружено из Hugo: 2");
+    expect(text).toContain("📤 Отправлено в Hugo: c");
+    expect(text).toContain("⚠️ Конфликты (1): #3 d");
+    expect(text).toContain("⏳ Ждут отправки в Hugo (/pending): e");
+    expect(text).not.toContain("Выгружены");
+  });
+
+  it("lets only editors resolve conflicts", async () => {
+    const args = { conflict_id: 1, resolution: "merge" };
+    const { result } = await runTool("resolve_sync_conflict", args, { role: "viewer" });
+    expect(JSON.parse(result)).toMatchObject({ error: "forbidden", tool: "resolve_sync_conflict" });
+    expect(authorizeToolCall(getTool("resolve_sync_conflict")!, args, "author")).toHaveProperty("error", "forbidden");
+    expect(authorizeToolCall(getTool("sync_articles")!, {}, "author")).toHaveProperty("error", "forbidden");
+    expect(authorizeToolCall(getTool("sync_articles")!, {}, "editor")).toBeNull();
+    expect(prepareToolCall("resolve_sync_conflict", { conflict_id: 1, resolution: "both" })).toHaveProperty("error");
+  });
+});
+
+describe("Hugo write outbox", () => {
+  const entry = {
+    id: 4, operation: "edit", filename: "docker", attempts: 3, status: "pending", lastError: "Hugo API: 503",
+    nextAttemptAt: new Date(1_000_000 + 5 * 60_000),
+  } as HugoOutboxEntry;
+
+  it("backs off exponentially up to an hour", () => {
+    expect([1, 2, 3, 4].map(outboxRetryDelayMs)).toEqual([30_000, 60_000, 120_000, 240_000]);
+    expect(outboxRetryDelayMs(20)).toBe(60 * 60_000);
+  });
+
+  it("retries only errors that may pass", () => {
+    expect(isRetryableHugoError(new HugoApiError(503))).toBe(true);
+    expect(isRetryableHugoError(new HugoApiError(429))).toBe(true);
+    expect(isRetryableHugoError(new HugoApiError(400))).toBe(false);
+    expect(isRetryableHugoError(new HugoApiError(404))).toBe(false);
+    expect(isRetryableHugoError(new TypeError("fetch failed"))).toBe(true);
+    expect(isRetryableHugoError(new HugoTimeoutError(30_000))).toBe(true);
+    expect(isRetryableHugoError(new HugoResponseError("/api/posts/list", "not JSON"))).toBe(false);
+    expect(isRetryableHugoError(new Error("Hugo API key не настроен. Используйте /settings для настройки."))).toBe(false);
+  });
+
+  it("describes waiting and abandoned writes", () => {
+    expect(formatOutboxEntry(entry, 1_000_000))
+      .toBe(`⏳ #4 изменение «docker» — попыток: 3 из ${OUTBOX_MAX_ATTEMPTS}, следующая через 5 мин\n   Ошибка: Hugo API: 503`);
+    expect(formatOutboxEntry({ ...entry, status: "abandoned", attempts: 8, lastError: null }))
+      .toBe("❌ #4 изменение «docker» — брошено после 8 попыток");
+  });
+
+  it("tells the author how a retried write ended", () => {
+    expect(outboxOutcomeText({ ...entry, operation: "create" }, { status: "done", filename: "docker.md" }))
+      .toBe("✅ Hugo принял отложенное создание «docker» (в Hugo: docker.md).");
+    expect(outboxOutcomeText({ ...entry, operation: "delete" }, { status: "abandoned", filename: "docker", error: "Hugo API: 403" }))
+      .toBe("❌ Hugo так и не принял удаление «docker» (попыток: 4): Hugo API: 403. Статья осталась в Hugo и в базе.");
+  });
+
+  it("does not report a delete Hugo did not confirm", async () => {
+    const result = await sendHugoWrite({ operation: "delete", filename: "docker" });
+    expect(result).toMatchObject({ status: "abandoned", filename: "docker" });
+    expect((await runTool("delete_article", { filename: "docker" }, { role: "editor" })).result).toMatch(/^❌ Ошибка удаления/);
+  });
+
+  it("keeps who asked for a write, Telegram or web", async () => {
+    expect(ownerColumns({ userId: 7 })).toEqual({ telegramUserId: null, userId: 7 });
+    expect(ownerFromColumns(null, 7)).toEqual({ userId: 7 });
+    expect(ownerFromColumns(42, null)).toEqual({ telegramUserId: 42 });
+    expect(ownerFromColumns(null, null)).toBeUndefined();
+    expect(await contentAuthorFor({ userId: 7 })).toEqual({ name: "Web 7", email: "7@web.invalid" });
+    expect(await contentAuthorFor(undefined)).toBeUndefined();
+  });
+
+  it("sends notices to Telegram users through the bot and to web users into their chat", async () => {
+    const sent: Array<[number, string]> = [];
+    setTelegramMessenger(async (telegramUserId, text) => { sent.push([telegramUserId, text]); });
+    try {
+      await notifyOwner({ telegramUserId: 42 }, "✅ Hugo принял");
+      // Without a database the web user's thread cannot be opened, which must not throw
+      await notifyOwner({ userId: 7 }, "✅ Hugo принял");
+      expect(sent).toEqual([[42, "✅ Hugo принял"]]);
+    } finally {
+      setTelegramMessenger(null);
+    }
+  });
+
+  it("lists pending writes for viewers", async () => {
+    expect((await runTool("list_pending_writes", {}, { role: "viewer" })).result).toBe("📮 Все изменения доставлены в Hugo.");
+  });
+});
+
+describe("front matter schema", () => {
+  const schema = {
+    keys: {
+      author: { type: "string" as const, required: true },
+      level: { type: "string" as const, enum: ["beginner", "advanced"] },
+      series: { type: "list" as const },
+    },
+    allowUnknown: false,
+  };
+
+  it("accepts Hugo's own keys by default", () => {
+    expect(validateFrontMatter({ date: "2026-05-01T10:00:00Z", author: ["Ann", "Bob"], weight: 3, theme_key: 1 }, DEFAULT_SITE_SCHEMA)).toEqual([]);
+    expect(validateFrontMatter({ date: "вчера", weight: "3" }, DEFAULT_SITE_SCHEMA)).toEqual(["date: ожидается дата", "weight: ожидается число"]);
+  });
+
+  it("reports missing, mistyped, disallowed and unknown keys", () => {
+    expect(validateFrontMatter({ level: "expert", series: "k8s", cover: "a.png" }, schema)).toEqual([
+      "author: обязательный ключ", "level: допустимо beginner, advanced", "series: ожидается список", "cover: ключа нет в схеме сайта",
+    ]);
+  });
+
+  it("describes the schema", () => {
+    expect(formatSiteSchema(schema)).toBe(
+      "• author — строка (обязательный)\n• level — строка (значения: beginner, advanced)\n• series — список\nДругие ключи запрещены.");
+  });
+
+  it("asks to publish when front matter clears the draft flag", () => {
+    expect(resolvePermission(getTool("set_front_matter")!, { filename: "docker", set: { draft: false } })).toBe("publish");
+    expect(resolvePermission(getTool("set_front_matter")!, { filename: "docker", set: { author: "Ann" } })).toBe("write");
+    expect(resolvePermission(getTool("set_front_matter")!, { filename: "docker", set: { author: "Ann" } }, { published: true })).toBe("publish");
+    expect(authorizeToolCall(getTool("set_front_matter_schema")!, { keys: {} }, "editor")).toHaveProperty("error", "forbidden");
+  });
+});
+
+// ═══════════════════════════════════════════════════
+// PERMISSIONS TESTS
+// ═══════════════════════════════════════════════════
+describe("permissions", () => {
+  const originalEnv = process.env.TELEGRAM_ALLOWED_USERS;
+
+  it("maps roles to tool permissions", () => {
+    expect(roleAllows("viewer", "read")).toBe(true);
+    expect(roleAllows("viewer", "write")).toBe(false);
+    expect(roleAllows("author", "write")).toBe(true);
+    expect(roleAllows("author", "publish")).toBe(false);
+    expect(roleAllows("editor", "publish")).toBe(true);
+    expect(roleAllows("editor", "admin")).toBe(false);
+    expect(roleAllows("admin", "admin")).toBe(true);
+  });
+
+  it("parses role names", () => {
+    expect(parseRole("Editor ")).toBe("editor");
+    expect(parseRole("owner")).toBeNull();
+    expect(parseRole("")).toBeNull();
+  });
+
+  it("reads admin IDs from TELEGRAM_ALLOWED_USERS", () => {
+    delete process.env.TELEGRAM_ALLOWED_USERS;
+    expect(getEnvAdminIds()).toEqual([]);
+    process.env.TELEGRAM_ALLOWED_USERS = " 111 , abc, 333 ";
+    expect(getEnvAdminIds()).toEqual([111, 333]);
+  });
+
+  it("treats listed users as admins and unknown users as having no access", async () => {
     process.env.TELEGRAM_ALLOWED_USERS = "100,200";
-    expect(isUserAllowed(0)).toBe(false);
+    expect(await getTelegramRole(100)).toBe("admin");
+    expect(await getTelegramRole(300)).toBeNull();
+    expect(await getTelegramRole(0)).toBeNull();
   });
 
   // Cleanup
@@ -326,31 +1502,23 @@ describe("Security", () => {
     expect(escapeLikePattern("_secret_")).toBe("\\_secret\\_");
   });
 
-  it("sanitizeToolArgs prevents excessively long strings", () => {
-    const result = sanitizeToolArgs({ content: "x".repeat(100000) });
-    expect(result.content.length).toBeLessThanOrEqual(50000);
+  it("tool schemas reject excessively long strings", () => {
+    expect(prepareToolCall("create_article", { title: "T", content: "x".repeat(100000) })).toHaveProperty("error");
   });
 
-  it("sanitizeToolArgs prevents negative numbers", () => {
-    expect(sanitizeToolArgs({ limit: -100 }).limit).toBe(0);
+  it("tool schemas reject out-of-range numbers", () => {
+    expect(prepareToolCall("list_articles", { limit: -100 })).toHaveProperty("error");
+    expect(prepareToolCall("list_articles", { limit: 999999 })).toHaveProperty("error");
   });
 
-  it("sanitizeToolArgs prevents excessively large numbers", () => {
-    expect(sanitizeToolArgs({ limit: 999999 }).limit).toBe(1000);
+  it("tool schemas reject nested objects in place of strings", () => {
+    expect(prepareToolCall("get_article", { filename: { $ne: "" } })).toHaveProperty("error");
   });
 
-  it("sanitizeToolArgs strips nested objects", () => {
-    const result = sanitizeToolArgs({ name: "safe", nested: { key: "value" } });
-    expect(result.name).toBe("safe");
-    expect(result.nested).toBeUndefined();
-  });
-
-  it("access control blocks unauthorized users when list is set", () => {
+  it("access control does not let unknown users in when no list is set", async () => {
     const original = process.env.TELEGRAM_ALLOWED_USERS;
-    process.env.TELEGRAM_ALLOWED_USERS = "100,200";
-    expect(isUserAllowed(100)).toBe(true);
-    expect(isUserAllowed(300)).toBe(false);
+    delete process.env.TELEGRAM_ALLOWED_USERS;
+    expect(await getTelegramRole(12345)).toBeNull();
     if (original !== undefined) process.env.TELEGRAM_ALLOWED_USERS = original;
-    else delete process.env.TELEGRAM_ALLOWED_USERS;
   });
 });
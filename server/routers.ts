@@ -1,7 +1,143 @@
 import { COOKIE_NAME } from "@shared/const";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, router } from "./_core/trpc";
+import { adminProcedure, protectedProcedure, publicProcedure, router } from "./_core/trpc";
+import { createArticle, updateArticle, removeArticle } from "./articles";
+import { syncArticles, formatSyncReport } from "./hugo-sync";
+import {
+  processMessage, clearUserContext, getChatHistory, takePendingAction, completePendingAction,
+} from "./agent";
+import { getArticles, getArticleByFilename, getArticleStats, getAuditEvents } from "./db";
+import { audited } from "./audit";
+import { escapeLikePattern, sanitizeErrorForUser } from "./tools/helpers";
+import { FrontMatterValidationError } from "./site-schema";
+
+const filenameInput = z.object({ filename: z.string().min(1).max(512) });
+
+const articleFields = z.object({
+  title: z.string().min(1).max(512),
+  content: z.string().max(50000),
+  description: z.string().max(2000).optional(),
+  tags: z.string().max(1000).optional(),
+  categories: z.string().max(1000).optional(),
+  draft: z.boolean().optional(),
+  frontMatter: z.record(z.string().max(128), z.unknown()).optional(),
+});
+
+// Hugo failures surface as a readable error instead of a generic 500
+async function withHugo<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (e: any) {
+    if (e instanceof FrontMatterValidationError) throw new TRPCError({ code: "BAD_REQUEST", message: e.message });
+    throw new TRPCError({ code: "BAD_GATEWAY", message: sanitizeErrorForUser(e) });
+  }
+}
+
+export const articlesRouter = router({
+  list: protectedProcedure
+    .input(z.object({
+      search: z.string().max(200).optional(),
+      draft: z.boolean().optional(),
+      limit: z.number().int().min(1).max(100).default(20),
+      offset: z.number().int().min(0).default(0),
+    }))
+    .query(({ input }) => getArticles({
+      search: input.search ? escapeLikePattern(input.search) : undefined,
+      draft: input.draft, limit: input.limit, offset: input.offset,
+    })),
+
+  stats: protectedProcedure.query(() => getArticleStats()),
+
+  get: protectedProcedure.input(filenameInput).query(async ({ input }) => {
+    const article = await getArticleByFilename(input.filename);
+    if (!article) throw new TRPCError({ code: "NOT_FOUND", message: `Article "${input.filename}" not found` });
+    return article;
+  }),
+
+  // Web mutations are logged under the same names as the matching tools
+  create: protectedProcedure.input(articleFields).mutation(({ ctx, input }) =>
+    withHugo(() => audited({ userId: ctx.user.id }, "create_article", input, () => createArticle(input, { userId: ctx.user.id }),
+      ({ hugoError, queued }) => {
+        if (queued) return { outcome: "success", result: `В очереди на отправку в Hugo: ${hugoError}` };
+        return hugoError ? { outcome: "error", result: `⚠️ Сохранено локально. Ошибка Hugo: ${hugoError}` } : { outcome: "success" };
+      }))
+  ),
+
+  update: protectedProcedure
+    .input(filenameInput.extend(articleFields.partial().shape))
+    .mutation(async ({ ctx, input }) => {
+      const { filename, ...patch } = input;
+      if (!await getArticleByFilename(filename)) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Article "${filename}" not found` });
+      }
+      const { queued } = await withHugo(() => audited({ userId: ctx.user.id }, "edit_article", input, () => updateArticle(filename, patch, { userId: ctx.user.id })));
+      return { success: true, queued: Boolean(queued) } as const;
+    }),
+
+  delete: protectedProcedure.input(filenameInput).mutation(async ({ ctx, input }) => {
+    const { queued } = await withHugo(() => audited({ userId: ctx.user.id }, "delete_article", input, () => removeArticle(input.filename, { userId: ctx.user.id })));
+    return { success: true, queued: Boolean(queued) } as const;
+  }),
+
+  // Conflicts are resolved from the bot or the assistant (resolve_sync_conflict)
+  sync: protectedProcedure.mutation(async ({ ctx }) => {
+    const report = await withHugo(() => audited({ userId: ctx.user.id }, "sync_articles", {}, () => syncArticles({ userId: ctx.user.id }),
+      report => ({ outcome: report.errors.length > 0 ? "error" : "success", result: formatSyncReport(report) })));
+    return {
+      synced: report.pulled.length + report.pushed.length + report.uploaded.length + report.deletedLocally.length,
+      conflicts: report.conflicts.map(c => ({ id: c.id, filename: c.filename, kind: c.kind })),
+      errors: report.errors,
+    };
+  }),
+});
+
+// Same agent as the Telegram bot; the conversation belongs to the logged-in user
+export const chatRouter = router({
+  history: protectedProcedure.query(({ ctx }) => getChatHistory({ userId: ctx.user.id })),
+
+  send: protectedProcedure
+    .input(z.object({ message: z.string().trim().min(1).max(4000) }))
+    .mutation(({ ctx, input }) => processMessage(input.message, { userId: ctx.user.id })),
+
+  confirm: protectedProcedure
+    .input(z.object({ id: z.string().min(1).max(64), decision: z.enum(["confirm", "cancel"]) }))
+    .mutation(async ({ ctx, input }) => {
+      const taken = takePendingAction(input.id, { userId: ctx.user.id });
+      if ("error" in taken) {
+        const errors = {
+          not_found: { code: "NOT_FOUND", message: "Действие уже выполнено или отменено." },
+          expired: { code: "PRECONDITION_FAILED", message: "Время подтверждения истекло. Повторите запрос." },
+          forbidden: { code: "FORBIDDEN", message: "Подтвердить может только автор запроса." },
+        } as const;
+        throw new TRPCError(errors[taken.error]);
+      }
+      const outcome = await completePendingAction(taken.action, input.decision);
+      return { summary: taken.action.summary, outcome };
+    }),
+
+  reset: protectedProcedure.mutation(async ({ ctx }) => {
+    await clearUserContext({ userId: ctx.user.id });
+    return { success: true } as const;
+  }),
+});
+
+// Who did what: tool calls from Telegram and the web, admins only
+export const auditRouter = router({
+  list: adminProcedure
+    .input(z.object({
+      telegramUserId: z.number().int().positive().optional(),
+      userId: z.number().int().positive().optional(),
+      tool: z.string().min(1).max(64).optional(),
+      from: z.date().optional(),
+      to: z.date().optional(),
+      limit: z.number().int().min(1).max(200).default(50),
+      offset: z.number().int().min(0).default(0),
+    }).default({ limit: 50, offset: 0 }))
+    .query(({ input }) => getAuditEvents(input)),
+});
 
 export const appRouter = router({
   system: systemRouter,
@@ -13,8 +149,10 @@ export const appRouter = router({
       return { success: true } as const;
     }),
   }),
-  // All bot functionality is handled via Telegram (server/telegram-bot.ts)
-  // The web UI is a minimal landing page directing users to the Telegram bot
+  // Article management for the web dashboard; the Telegram bot (server/telegram-bot.ts) shares the same helpers
+  articles: articlesRouter,
+  chat: chatRouter,
+  audit: auditRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,94 @@
+import type { Article } from "../drizzle/schema";
+import { getArticles, getArticlesByFilenames, type ArticleFilters } from "./db";
+import { findRelatedPassages } from "./retrieval";
+import { escapeLikePattern } from "./tools/helpers";
+import { parseScheduleTime } from "./tools/schedule";
+
+// ─── Article search: MySQL full-text with filters, or semantic over the embeddings index ───
+export const SEARCH_MODES = ["fulltext", "semantic"] as const;
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+// Semantic results are ranked in memory, so filters and pages apply to this many closest articles
+const SEMANTIC_CANDIDATES = 50;
+const EXCERPT_LENGTH = 160;
+
+export type ArticleSearch = ArticleFilters & {
+  query?: string;
+  mode?: SearchMode;
+  limit?: number;
+  offset?: number;
+};
+
+export type ArticleSearchHit = Article & { score?: number; excerpt?: string };
+
+/** A day in the schedule time zone; `to` days include the whole day */
+export function parseSearchDate(value: string, bound: "from" | "to", timeZone: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = parseScheduleTime(`${value} ${bound === "from" ? "00:00" : "23:59"}`, timeZone);
+  return date && bound === "to" ? new Date(date.getTime() + 59_999) : date;
+}
+
+function splitList(value: string | null): string[] {
+  return (value ?? "").split(",").map(item => item.trim().toLowerCase()).filter(Boolean);
+}
+
+export function matchesArticleFilters(article: Article, filters: ArticleFilters): boolean {
+  if (filters.category && !splitList(article.categories).some(c => c.includes(filters.category!.toLowerCase()))) return false;
+  if (filters.draft !== undefined && Boolean(article.draft) !== filters.draft) return false;
+  const created = new Date(article.createdAt).getTime();
+  if (filters.from && created < filters.from.getTime()) return false;
+  if (filters.to && created > filters.to.getTime()) return false;
+  return true;
+}
+
+/** The piece of text around the first query word found, or the start of the article */
+export function articleExcerpt(content: string | null, query?: string): string {
+  const text = (content ?? "").replace(/\s+/g, " ").trim();
+  const lower = text.toLowerCase();
+  const words = (query ?? "").toLowerCase().replace(/"/g, " ").split(/\s+/).filter(w => w.length >= 3);
+  const hit = words.map(w => lower.indexOf(w)).filter(i => i >= 0).sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, hit - EXCERPT_LENGTH / 4);
+  const excerpt = text.slice(start, start + EXCERPT_LENGTH);
+  return `${start > 0 ? "…" : ""}${excerpt}${start + EXCERPT_LENGTH < text.length ? "…" : ""}`;
+}
+
+async function semanticSearch(search: ArticleSearch & { query: string }): Promise<{ items: ArticleSearchHit[]; total: number }> {
+  const passages = await findRelatedPassages(search.query, { limit: SEMANTIC_CANDIDATES });
+  const byFilename = new Map((await getArticlesByFilenames(passages.map(p => p.filename))).map(a => [a.filename, a]));
+  const hits: ArticleSearchHit[] = [];
+  for (const passage of passages) {
+    const article = byFilename.get(passage.filename);
+    if (!article || !matchesArticleFilters(article, search)) continue;
+    hits.push({ ...article, score: passage.score, excerpt: articleExcerpt(passage.content) });
+  }
+  const offset = search.offset ?? 0;
+  return { items: hits.slice(offset, offset + (search.limit ?? 10)), total: hits.length };
+}
+
+/** Without a query both modes list the filtered articles, newest first */
+export async function searchArticles(search: ArticleSearch): Promise<{ items: ArticleSearchHit[]; total: number }> {
+  const query = search.query?.trim();
+  if (query && search.mode === "semantic") return semanticSearch({ ...search, query });
+  const { items, total } = await getArticles({
+    search: query ? escapeLikePattern(query) : undefined,
+    category: search.category ? escapeLikePattern(search.category) : undefined,
+    draft: search.draft, from: search.from, to: search.to,
+    limit: search.limit ?? 10, offset: search.offset ?? 0,
+  });
+  return { items: items.map(a => ({ ...a, excerpt: query ? articleExcerpt(a.content, query) : undefined })), total };
+}
+
+export function describeSearch(search: ArticleSearch): string {
+  const parts = [
+    search.query ? `«${search.query}»` : "все статьи",
+    search.mode === "semantic" && search.query ? "по смыслу" : undefined,
+    search.category ? `категория ${search.category}` : undefined,
+    search.draft === undefined ? undefined : search.draft ? "черновики" : "опубликованные",
+  ];
+  return parts.filter(Boolean).join(", ");
+}
+
+export function formatSearchHit(hit: ArticleSearchHit, position: number): string {
+  const line = `${position}. ${hit.title} (${hit.filename}) — ${hit.draft ? "черновик" : "опубликована"}`;
+  return hit.excerpt ? `${line}\n   ${hit.excerpt}` : line;
+}
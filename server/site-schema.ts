@@ -0,0 +1,122 @@
+import { z } from "zod";
+import type { FrontMatter } from "../drizzle/schema";
+import { getSetting } from "./db";
+
+// ─── Front matter schema of the site ───
+// Which front matter keys the site's theme reads and what they hold. Stored as JSON in the
+// front_matter_schema setting; without it Hugo's own keys are checked and any other key is allowed.
+export const SITE_SCHEMA_SETTING = "front_matter_schema";
+
+export const FRONT_MATTER_TYPES = ["string", "number", "boolean", "date", "list", "object"] as const;
+export type FrontMatterType = (typeof FRONT_MATTER_TYPES)[number];
+
+const keyRuleSchema = z.object({
+  type: z.union([z.enum(FRONT_MATTER_TYPES), z.array(z.enum(FRONT_MATTER_TYPES)).min(1)]),
+  required: z.boolean().optional(),
+  /** Allowed values; for lists, allowed items */
+  enum: z.array(z.union([z.string(), z.number()])).min(1).optional(),
+  description: z.string().max(500).optional(),
+});
+
+export const siteSchemaSchema = z.object({
+  keys: z.record(z.string().min(1).max(128), keyRuleSchema),
+  /** Keys the schema does not describe are rejected when false */
+  allowUnknown: z.boolean().default(true),
+});
+
+export type SiteSchema = z.infer<typeof siteSchemaSchema>;
+export type FrontMatterKeyRule = z.infer<typeof keyRuleSchema>;
+
+/** Hugo's predefined front matter keys */
+export const DEFAULT_SITE_SCHEMA: SiteSchema = {
+  keys: {
+    date: { type: "date" },
+    publishDate: { type: "date" },
+    expiryDate: { type: "date" },
+    author: { type: ["string", "list"] },
+    series: { type: "list" },
+    aliases: { type: "list" },
+    keywords: { type: "list" },
+    weight: { type: "number" },
+    slug: { type: "string" },
+    url: { type: "string" },
+    summary: { type: "string" },
+    params: { type: "object" },
+  },
+  allowUnknown: true,
+};
+
+const TYPE_LABELS: Record<FrontMatterType, string> = {
+  string: "строка", number: "число", boolean: "true/false", date: "дата", list: "список", object: "набор ключей",
+};
+
+export async function getSiteSchema(): Promise<SiteSchema> {
+  const raw = await getSetting(SITE_SCHEMA_SETTING);
+  if (!raw) return DEFAULT_SITE_SCHEMA;
+  try {
+    return siteSchemaSchema.parse(JSON.parse(raw));
+  } catch (e: any) {
+    console.warn(`[SiteSchema] Invalid ${SITE_SCHEMA_SETTING} setting, using Hugo defaults: ${e.message}`);
+    return DEFAULT_SITE_SCHEMA;
+  }
+}
+
+function hasType(value: unknown, type: FrontMatterType): boolean {
+  switch (type) {
+    case "string": return typeof value === "string";
+    case "number": return typeof value === "number" && Number.isFinite(value);
+    case "boolean": return typeof value === "boolean";
+    case "date": return typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(new Date(value).getTime());
+    case "list": return Array.isArray(value);
+    case "object": return !!value && typeof value === "object" && !Array.isArray(value);
+  }
+}
+
+/** Problems with the front matter map, one line per key; empty when it fits the schema */
+export function validateFrontMatter(frontMatter: FrontMatter, schema: SiteSchema): string[] {
+  const errors: string[] = [];
+  for (const [key, rule] of Object.entries(schema.keys)) {
+    const value = frontMatter[key];
+    if (value === undefined || value === null) {
+      if (rule.required) errors.push(`${key}: обязательный ключ`);
+      continue;
+    }
+    const types = Array.isArray(rule.type) ? rule.type : [rule.type];
+    if (!types.some(type => hasType(value, type))) {
+      errors.push(`${key}: ожидается ${types.map(type => TYPE_LABELS[type]).join(" или ")}`);
+      continue;
+    }
+    const allowed = rule.enum;
+    const items = Array.isArray(value) ? value : [value];
+    if (allowed && items.some(item => !allowed.includes(item as string | number))) {
+      errors.push(`${key}: допустимо ${allowed.join(", ")}`);
+    }
+  }
+  if (!schema.allowUnknown) {
+    for (const key of Object.keys(frontMatter)) {
+      if (!(key in schema.keys)) errors.push(`${key}: ключа нет в схеме сайта`);
+    }
+  }
+  return errors;
+}
+
+/** The front matter does not fit the site schema */
+export class FrontMatterValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`Front matter не соответствует схеме сайта: ${errors.join("; ")}`);
+    this.name = "FrontMatterValidationError";
+  }
+}
+
+export function formatSiteSchema(schema: SiteSchema): string {
+  const lines = Object.entries(schema.keys).map(([key, rule]) => {
+    const types = (Array.isArray(rule.type) ? rule.type : [rule.type]).map(type => TYPE_LABELS[type]).join(" или ");
+    const extras = [
+      rule.required ? "обязательный" : "",
+      rule.enum ? `значения: ${rule.enum.join(", ")}` : "",
+      rule.description ?? "",
+    ].filter(Boolean);
+    return `• ${key} — ${types}${extras.length > 0 ? ` (${extras.join("; ")})` : ""}`;
+  });
+  return `${lines.join("\n")}\n${schema.allowUnknown ? "Другие ключи разрешены." : "Другие ключи запрещены."}`;
+}
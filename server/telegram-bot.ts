@@ -1,49 +1,52 @@
+import { createHash } from "crypto";
 import { Bot, Context, InlineKeyboard } from "grammy";
-import { invokeLLM } from "./_core/llm";
-import { generateImage } from "./_core/imageGeneration";
+import { nanoid } from "nanoid";
 import { storagePut } from "./storage";
 import {
-  getSetting, setSetting, getArticles, getArticleByFilename,
-  upsertArticle, deleteArticle, getArticleStats,
+  getCurrentConversation, getConversationById, getConversationByTitle, listConversations,
+  createConversation, setCurrentConversation, renameConversation, archiveConversation,
+  getArticleRevision,
+  getTelegramUser, listTelegramUsers, upsertTelegramUser, updateTelegramUserProfile, deleteTelegramUser,
+  setTelegramUserTokenLimit, getSetting, setSetting,
+  getAuditEvents, type AuditEventFilter, getAiUsageByUser, getAiUsageByModel, type AiUsageTotals, getArticleById,
 } from "./db";
+import type { AuditEvent, Conversation } from "../drizzle/schema";
+import {
+  CONFIRMATION_TTL_MS, processMessage, clearUserContext, executeTool,
+  takePendingAction, completePendingAction, prunePendingActions, setTelegramMessenger,
+  type AgentReply,
+} from "./agent";
+import { runTool, type ToolResult } from "./tools";
+import { getOutlineDraft, discardOutlineDraft, pruneOutlineDrafts } from "./article-generation";
+import {
+  ROLES, ROLE_LABELS, roleAllows, parseRole, getEnvAdminIds, getAdminTelegramIds, getTelegramRole, type Role,
+} from "./permissions";
+import { audited, type AuditOutcome } from "./audit";
+import { usagePeriodStart } from "./usage";
+import {
+  GLOBAL_BUDGET_SETTING, USER_BUDGET_SETTING, formatTokens, parseTokenLimit, getBudgetStatus, setBudgetAlertHandler,
+} from "./budget";
+import { fetchWithTimeout, sanitizeErrorForUser } from "./tools/helpers";
+import {
+  getOllamaProvider, describeOllamaModels, listOllamaModels, pullOllamaModel, selectProviderModel,
+  formatOllamaModel, formatPullProgress,
+} from "./ollama";
+import { parseScheduleTime, formatScheduleTime, getScheduleTimeZone } from "./tools/schedule";
+import {
+  searchArticles, parseSearchDate, describeSearch, formatSearchHit, SEARCH_MODES, type ArticleSearch, type SearchMode,
+} from "./search";
 
 // ─── Constants ───
-const MAX_CONTEXT_MESSAGES = 20;
-const MAX_TOOL_ITERATIONS = 5;
-const FETCH_TIMEOUT_MS = 30000;
 const TG_MAX_MESSAGE_LENGTH = 4000;
+const STREAM_EDIT_INTERVAL_MS = 1500; // Telegram throttles frequent edits of one message
 const RATE_LIMIT_WINDOW_MS = 60_000; // 1 minute
 const RATE_LIMIT_MAX_MESSAGES = 10; // max messages per window
-const CONTEXT_TTL_MS = 60 * 60 * 1000; // 1 hour
-const MAX_CACHED_USERS = 500;
-
-// ─── Fetch with timeout ───
-async function fetchWithTimeout(url: string, options: RequestInit = {}, timeoutMs = FETCH_TIMEOUT_MS): Promise<Response> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
-  try {
-    return await fetch(url, { ...options, signal: controller.signal });
-  } finally {
-    clearTimeout(timer);
-  }
-}
-
-// ─── Escape LIKE wildcards ───
-export function escapeLikePattern(input: string): string {
-  return input.replace(/%/g, "\\%").replace(/_/g, "\\_");
-}
-
-// ─── Sanitize tool arguments from LLM ───
-export function sanitizeToolArgs(args: Record<string, any>): Record<string, any> {
-  const sanitized: Record<string, any> = {};
-  for (const [key, value] of Object.entries(args)) {
-    if (typeof value === "string") sanitized[key] = value.slice(0, 50000);
-    else if (typeof value === "number") sanitized[key] = Math.min(Math.max(value, 0), 1000);
-    else if (typeof value === "boolean") sanitized[key] = value;
-    // Ignore arrays, objects, etc. for safety
-  }
-  return sanitized;
-}
+const MAX_THREAD_TITLE_LENGTH = 64;
+const AUDIT_PAGE_SIZE = 20;
+const SEARCH_PAGE_SIZE = 5;
+const SEARCH_SESSION_TTL_MS = 60 * 60_000; // page buttons work for an hour
+const PENDING_REPLY_TTL_MS = 10 * 60_000; // a rename or outline edit prompt waits this long for the answer
+const OLLAMA_MODEL_NAME = /^[\w.\-/:]{1,200}$/;
 
 // ─── Split long messages for Telegram ───
 export function splitMessage(text: string, maxLen = TG_MAX_MESSAGE_LENGTH): string[] {
@@ -63,17 +66,38 @@ export function splitMessage(text: string, maxLen = TG_MAX_MESSAGE_LENGTH): stri
   return parts;
 }
 
-// ─── Sanitize error messages before sending to user ───
-function sanitizeErrorForUser(error: any): string {
-  const msg = error?.message || "Неизвестная ошибка";
-  // Strip sensitive info: connection strings, file paths, stack traces
-  const sanitized = msg
-    .replace(/mysql:\/\/[^\s]+/gi, "[DB_URL]")
-    .replace(/\/home\/[^\s]+/g, "[PATH]")
-    .replace(/at\s+\S+\s+\(\S+:\d+:\d+\)/g, "")
-    .replace(/Bearer\s+\S+/gi, "Bearer [TOKEN]")
-    .slice(0, 200);
-  return sanitized;
+// ─── Progressive edits of a placeholder message while the LLM streams ───
+export function createStreamingReply(
+  edit: (text: string) => Promise<unknown>,
+  intervalMs = STREAM_EDIT_INTERVAL_MS
+) {
+  let lastText = "";
+  let shownText = "";
+  let lastEditAt = 0;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    // Throttled preview; text beyond one Telegram message is cut until the final split
+    update(text: string) {
+      if (!text.trim() || Date.now() - lastEditAt < intervalMs) return;
+      const preview = text.length > TG_MAX_MESSAGE_LENGTH ? `${text.slice(0, TG_MAX_MESSAGE_LENGTH - 1)}…` : text;
+      if (preview === lastText) return;
+      lastText = preview;
+      lastEditAt = Date.now();
+      queue = queue
+        .then(() => edit(preview))
+        .then(() => { shownText = preview; })
+        .catch((e: any) => console.warn(`[TG] Stream edit failed: ${e.message}`));
+    },
+    // Puts the first part of the final text into the placeholder and returns the parts left to send
+    async finish(text: string): Promise<string[]> {
+      await queue;
+      const [first, ...rest] = splitMessage(text);
+      if (first !== shownText) await edit(first);
+      shownText = first;
+      return rest;
+    },
+  };
 }
 
 // ─── Rate limiter per user ───
@@ -90,32 +114,28 @@ function isRateLimited(userId: number): boolean {
   return false;
 }
 
-// ─── Per-user conversation context with TTL ───
-interface UserContext {
-  messages: Array<{ role: string; content: string; tool_call_id?: string; tool_calls?: any[] }>;
-  lastActivity: number;
-}
-
-const userContexts = new Map<number, UserContext>();
-
-// Periodic cleanup of stale contexts
+// ─── Periodic cleanup of rate limits and expired confirmations ───
 let cleanupInterval: ReturnType<typeof setInterval> | null = null;
 
 function startContextCleanup() {
   if (cleanupInterval) return;
   cleanupInterval = setInterval(() => {
     const now = Date.now();
-    for (const [userId, ctx] of Array.from(userContexts.entries())) {
-      if (now - ctx.lastActivity > CONTEXT_TTL_MS) {
-        userContexts.delete(userId);
-      }
-    }
-    // Also clean rate limit map
     for (const [userId, timestamps] of Array.from(rateLimitMap.entries())) {
       const valid = timestamps.filter((t: number) => now - t < RATE_LIMIT_WINDOW_MS);
       if (valid.length === 0) rateLimitMap.delete(userId);
       else rateLimitMap.set(userId, valid);
     }
+    prunePendingActions(now);
+    pruneOutlineDrafts(now);
+    for (const [id, session] of Array.from(searchSessions.entries())) {
+      if (now > session.expiresAt) searchSessions.delete(id);
+    }
+    for (const pending of [pendingThreadRenames, pendingOutlineEdits] as Map<number, { expiresAt: number }>[]) {
+      for (const [userId, entry] of Array.from(pending.entries())) {
+        if (now > entry.expiresAt) pending.delete(userId);
+      }
+    }
   }, 5 * 60 * 1000); // every 5 minutes
 }
 
@@ -126,613 +146,237 @@ function stopContextCleanup() {
   }
 }
 
-function getUserContext(telegramUserId: number): Array<{ role: string; content: string; tool_call_id?: string; tool_calls?: any[] }> {
-  // Enforce max cached users
-  if (!userContexts.has(telegramUserId) && userContexts.size >= MAX_CACHED_USERS) {
-    // Evict oldest entry
-    let oldestKey: number | null = null;
-    let oldestTime = Infinity;
-    for (const [key, val] of Array.from(userContexts.entries())) {
-      if (val.lastActivity < oldestTime) {
-        oldestTime = val.lastActivity;
-        oldestKey = key;
-      }
-    }
-    if (oldestKey !== null) userContexts.delete(oldestKey);
-  }
-
-  if (!userContexts.has(telegramUserId)) {
-    userContexts.set(telegramUserId, { messages: [], lastActivity: Date.now() });
-  }
-  const ctx = userContexts.get(telegramUserId)!;
-  ctx.lastActivity = Date.now();
-  return ctx.messages;
+// ─── Named conversation threads ───
+export function normalizeThreadTitle(input: string): string {
+  return input.replace(/\s+/g, " ").trim().slice(0, MAX_THREAD_TITLE_LENGTH);
 }
 
-function clearUserContext(telegramUserId: number) {
-  userContexts.set(telegramUserId, { messages: [], lastActivity: Date.now() });
+function threadLabel(thread: Conversation): string {
+  return thread.title || `Без названия #${thread.id}`;
 }
 
-// ─── Allowed Telegram user IDs (from env) ───
-function getAllowedUserIds(): number[] {
-  const envVal = process.env.TELEGRAM_ALLOWED_USERS || "";
-  if (!envVal) return [];
-  return envVal.split(",").map(id => parseInt(id.trim())).filter(id => !isNaN(id));
+// Switches to the thread with this title, creating it if needed
+async function openThread(telegramUserId: number, title: string): Promise<{ created: boolean }> {
+  const owner = { telegramUserId };
+  const existing = await getConversationByTitle(owner, title);
+  if (existing) {
+    await setCurrentConversation(owner, existing.id);
+    return { created: false };
+  }
+  await createConversation(owner, title);
+  return { created: true };
 }
 
-export function isUserAllowed(userId: number): boolean {
-  const allowed = getAllowedUserIds();
-  if (allowed.length === 0) return true;
-  return allowed.includes(userId);
-}
+const NO_PUBLISH_PERMISSION = "⛔ Для публикации и отката нужна роль редактора.";
 
-// ─── Tool definitions for the LLM ───
-const TOOLS_DEFINITION = [
-  {
-    type: "function" as const,
-    function: {
-      name: "list_articles",
-      description: "Получить список статей блога с возможностью поиска по заголовку или тегам.",
-      parameters: {
-        type: "object",
-        properties: {
-          search: { type: "string", description: "Поисковый запрос" },
-          limit: { type: "number", description: "Максимальное количество (по умолчанию 10)" },
-        },
-        required: [],
-      },
-    },
-  },
-  {
-    type: "function" as const,
-    function: {
-      name: "get_article",
-      description: "Получить полное содержимое статьи по имени файла.",
-      parameters: {
-        type: "object",
-        properties: {
-          filename: { type: "string", description: "Имя файла статьи" },
-        },
-        required: ["filename"],
-      },
-    },
-  },
-  {
-    type: "function" as const,
-    function: {
-      name: "create_article",
-      description: "Создать новую статью на Hugo-блоге.",
-      parameters: {
-        type: "object",
-        properties: {
-          title: { type: "string", description: "Заголовок статьи" },
-          content: { type: "string", description: "Содержимое в Markdown" },
-          description: { type: "string", description: "Краткое описание для SEO" },
-          tags: { type: "string", description: "Теги через запятую" },
-          categories: { type: "string", description: "Категории через запятую" },
-          draft: { type: "boolean", description: "Черновик (true) или публикация (false)" },
-        },
-        required: ["title", "content"],
-      },
-    },
-  },
-  {
-    type: "function" as const,
-    function: {
-      name: "edit_article",
-      description: "Редактировать существующую статью.",
-      parameters: {
-        type: "object",
-        properties: {
-          filename: { type: "string", description: "Имя файла статьи" },
-          title: { type: "string", description: "Новый заголовок" },
-          content: { type: "string", description: "Новое содержимое" },
-          description: { type: "string", description: "Новое описание" },
-          tags: { type: "string", description: "Новые теги" },
-          categories: { type: "string", description: "Новые категории" },
-          draft: { type: "boolean", description: "Черновик или публикация" },
-        },
-        required: ["filename"],
-      },
-    },
-  },
-  {
-    type: "function" as const,
-    function: {
-      name: "delete_article",
-      description: "Удалить статью из блога. Необратимое действие.",
-      parameters: {
-        type: "object",
-        properties: {
-          filename: { type: "string", description: "Имя файла статьи" },
-        },
-        required: ["filename"],
-      },
-    },
-  },
-  {
-    type: "function" as const,
-    function: {
-      name: "sync_articles",
-      description: "Синхронизировать статьи с Hugo-блогом.",
-      parameters: { type: "object", properties: {}, required: [] },
-    },
-  },
-  {
-    type: "function" as const,
-    function: {
-      name: "get_stats",
-      description: "Получить статистику блога.",
-      parameters: { type: "object", properties: {}, required: [] },
-    },
-  },
-  {
-    type: "function" as const,
-    function: {
-      name: "search_images",
-      description: "Поиск бесплатных изображений в интернете.",
-      parameters: {
-        type: "object",
-        properties: {
-          query: { type: "string", description: "Поисковый запрос на английском" },
-          count: { type: "number", description: "Количество (по умолчанию 6)" },
-        },
-        required: ["query"],
-      },
-    },
-  },
-  {
-    type: "function" as const,
-    function: {
-      name: "generate_image",
-      description: "Сгенерировать AI-изображение по описанию.",
-      parameters: {
-        type: "object",
-        properties: {
-          prompt: { type: "string", description: "Описание изображения на английском" },
-          style: { type: "string", description: "Стиль: realistic, illustration, digital-art" },
-        },
-        required: ["prompt"],
-      },
-    },
-  },
-  {
-    type: "function" as const,
-    function: {
-      name: "get_settings",
-      description: "Получить текущие настройки системы.",
-      parameters: { type: "object", properties: {}, required: [] },
-    },
-  },
-  {
-    type: "function" as const,
-    function: {
-      name: "save_settings",
-      description: "Сохранить настройки подключения.",
-      parameters: {
-        type: "object",
-        properties: {
-          hugo_base_url: { type: "string", description: "URL Hugo API" },
-          hugo_api_key: { type: "string", description: "API-ключ Hugo" },
-          llm_endpoint: { type: "string", description: "URL LLM API" },
-          llm_model: { type: "string", description: "Название модели" },
-          llm_api_key: { type: "string", description: "API-ключ LLM" },
-          llm_use_local: { type: "boolean", description: "Использовать локальную модель" },
-        },
-        required: [],
-      },
-    },
-  },
-];
-
-// ─── Hugo config helper ───
-async function getHugoConfig() {
-  const baseUrl = (await getSetting("hugo_base_url") ?? "https://admin.nodkeys.com").replace(/\/+$/, "");
-  const apiKey = await getSetting("hugo_api_key") ?? "";
-  if (!apiKey) throw new Error("Hugo API key не настроен. Используйте /settings для настройки.");
-  return { baseUrl, apiKey };
-}
-
-// ─── Tool execution engine ───
-async function executeTool(name: string, args: Record<string, any>): Promise<{ result: string; metadata?: any }> {
-  const safeArgs = sanitizeToolArgs(args);
-
-  switch (name) {
-    case "list_articles": {
-      const searchTerm = safeArgs.search ? escapeLikePattern(safeArgs.search) : undefined;
-      const { items, total } = await getArticles({ search: searchTerm, limit: safeArgs.limit || 10 });
-      if (items.length === 0) return { result: "Статьи не найдены." };
-      const list = items.map((a, i) => `${i + 1}. ${a.title} (${a.filename}) — ${a.draft ? "черновик" : "опубликована"}`).join("\n");
-      return { result: `Найдено ${total} статей:\n\n${list}`, metadata: { type: "articles", items } };
-    }
-
-    case "get_article": {
-      const article = await getArticleByFilename(safeArgs.filename);
-      if (!article) return { result: `Статья "${safeArgs.filename}" не найдена.` };
-      const content = article.content ? article.content.slice(0, 3000) : "(пусто)";
-      return {
-        result: `📄 ${article.title}\n\nФайл: ${article.filename}\nСтатус: ${article.draft ? "Черновик" : "Опубликована"}\nТеги: ${article.tags || "нет"}\nКатегории: ${article.categories || "нет"}\nОписание: ${article.description || "нет"}\n\n---\n\n${content}${article.content && article.content.length > 3000 ? "\n\n...(текст обрезан)" : ""}`,
-        metadata: { type: "article", article },
-      };
-    }
+// Threads awaiting a new title from the user's next text message
+const pendingThreadRenames = new Map<number, { threadId: number; expiresAt: number }>();
+// Article outlines awaiting the user's corrections in the next text message
+const pendingOutlineEdits = new Map<number, { outlineId: string; expiresAt: number }>();
 
-    case "create_article": {
-      try {
-        const { baseUrl, apiKey } = await getHugoConfig();
-        const res = await fetchWithTimeout(`${baseUrl}/api/posts/create`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json", "X-API-Key": apiKey },
-          body: JSON.stringify({
-            title: safeArgs.title, content: safeArgs.content,
-            description: safeArgs.description || "", tags: safeArgs.tags || "",
-            categories: safeArgs.categories || "", draft: safeArgs.draft ?? false,
-          }),
-        });
-        if (!res.ok) throw new Error(`Hugo API: ${res.status}`);
-        const data = await res.json();
-        await upsertArticle({
-          filename: data.filename || data.slug || safeArgs.title.toLowerCase().replace(/\s+/g, "-"),
-          title: safeArgs.title, slug: data.slug, description: safeArgs.description,
-          content: safeArgs.content, tags: safeArgs.tags, categories: safeArgs.categories,
-          draft: safeArgs.draft ?? false, hugoUrl: data.url, syncedAt: new Date(),
-        });
-        return { result: `✅ Статья "${safeArgs.title}" создана!` };
-      } catch (e: any) {
-        const filename = (safeArgs.title || "untitled").toLowerCase().replace(/[^a-zа-яё0-9]+/gi, "-").replace(/-+/g, "-");
-        await upsertArticle({
-          filename, title: safeArgs.title || "Untitled", content: safeArgs.content,
-          description: safeArgs.description, tags: safeArgs.tags, categories: safeArgs.categories,
-          draft: true, syncedAt: new Date(),
-        });
-        return { result: `⚠️ Статья сохранена локально как черновик. Ошибка Hugo: ${sanitizeErrorForUser(e)}` };
-      }
-    }
-
-    case "edit_article": {
-      try {
-        const { baseUrl, apiKey } = await getHugoConfig();
-        const { filename, ...data } = safeArgs;
-        const res = await fetchWithTimeout(`${baseUrl}/api/posts/edit/${encodeURIComponent(filename)}`, {
-          method: "PUT",
-          headers: { "Content-Type": "application/json", "X-API-Key": apiKey },
-          body: JSON.stringify(data),
-        });
-        if (!res.ok) throw new Error(`Hugo API: ${res.status}`);
-        const existing = await getArticleByFilename(filename);
-        if (existing) {
-          await upsertArticle({
-            filename, title: data.title ?? existing.title,
-            description: data.description ?? existing.description ?? undefined,
-            content: data.content ?? existing.content ?? undefined,
-            tags: data.tags ?? existing.tags ?? undefined,
-            categories: data.categories ?? existing.categories ?? undefined,
-            draft: data.draft ?? existing.draft ?? false, syncedAt: new Date(),
-          });
-        }
-        return { result: `✅ Статья "${filename}" обновлена!` };
-      } catch (e: any) {
-        return { result: `❌ Ошибка редактирования: ${sanitizeErrorForUser(e)}` };
-      }
-    }
-
-    case "delete_article": {
-      try {
-        const { baseUrl, apiKey } = await getHugoConfig();
-        await fetchWithTimeout(`${baseUrl}/api/posts/delete/${encodeURIComponent(safeArgs.filename)}`, {
-          method: "DELETE", headers: { "X-API-Key": apiKey },
-        });
-        await deleteArticle(safeArgs.filename);
-        return { result: `🗑 Статья "${safeArgs.filename}" удалена.` };
-      } catch (e: any) {
-        return { result: `❌ Ошибка удаления: ${sanitizeErrorForUser(e)}` };
-      }
-    }
-
-    case "sync_articles": {
-      try {
-        const { baseUrl, apiKey } = await getHugoConfig();
-        const res = await fetchWithTimeout(`${baseUrl}/api/posts/list`, { headers: { "X-API-Key": apiKey } });
-        if (!res.ok) throw new Error(`Hugo API: ${res.status}`);
-        const posts = await res.json() as any[];
-        let synced = 0;
-        for (const post of posts) {
-          await upsertArticle({
-            filename: post.filename || post.slug || `post-${synced}`,
-            title: post.title || "Untitled", slug: post.slug, description: post.description,
-            content: post.content, tags: post.tags, categories: post.categories,
-            draft: post.draft ?? false, hugoUrl: post.url, syncedAt: new Date(),
-          });
-          synced++;
-        }
-        return { result: `🔄 Синхронизация завершена! Загружено ${synced} статей.` };
-      } catch (e: any) {
-        return { result: `❌ Ошибка синхронизации: ${sanitizeErrorForUser(e)}` };
-      }
-    }
+// The prompt's answer, once; a stale prompt no longer claims the message
+function takePendingReply<T extends { expiresAt: number }>(pending: Map<number, T>, telegramUserId: number): T | undefined {
+  const entry = pending.get(telegramUserId);
+  pending.delete(telegramUserId);
+  return entry && Date.now() <= entry.expiresAt ? entry : undefined;
+}
 
-    case "get_stats": {
-      const stats = await getArticleStats();
-      return {
-        result: `📊 Статистика блога:\n\n• Всего статей: ${stats.total}\n• Опубликовано: ${stats.published}\n• Черновиков: ${stats.drafts}`,
-        metadata: { type: "stats", stats },
-      };
-    }
+/** Drops the user's rename and outline edit prompts; true if there was one */
+function clearPendingReplies(telegramUserId: number): boolean {
+  const had = pendingThreadRenames.has(telegramUserId) || pendingOutlineEdits.has(telegramUserId);
+  pendingThreadRenames.delete(telegramUserId);
+  pendingOutlineEdits.delete(telegramUserId);
+  return had;
+}
 
-    case "search_images": {
-      try {
-        const count = Math.min(safeArgs.count || 6, 20);
-        const unsplashKey = await getSetting("unsplash_api_key");
-        const pixabayKey = await getSetting("pixabay_api_key");
-
-        if (unsplashKey) {
-          const res = await fetchWithTimeout(
-            `https://api.unsplash.com/search/photos?query=${encodeURIComponent(safeArgs.query)}&per_page=${count}`,
-            { headers: { Authorization: `Client-ID ${unsplashKey}` } }
-          );
-          if (!res.ok) throw new Error("Unsplash API error");
-          const data = await res.json();
-          const images = data.results.map((img: any) => ({
-            url: img.urls.regular, thumb: img.urls.thumb,
-            description: img.description || img.alt_description || safeArgs.query,
-            author: img.user.name,
-          }));
-          return {
-            result: `🖼 Найдено ${images.length} изображений по "${safeArgs.query}"`,
-            metadata: { type: "images", images },
-          };
-        }
+// /search queries behind the page buttons: callback data is too short for the query itself
+const searchSessions = new Map<string, { telegramUserId: number; search: ArticleSearch; expiresAt: number }>();
 
-        if (pixabayKey) {
-          const res = await fetchWithTimeout(
-            `https://pixabay.com/api/?key=${encodeURIComponent(pixabayKey)}&q=${encodeURIComponent(safeArgs.query)}&per_page=${count}&image_type=photo`
-          );
-          if (!res.ok) throw new Error("Pixabay error");
-          const data = await res.json();
-          const images = data.hits.map((img: any) => ({
-            url: img.largeImageURL, thumb: img.previewURL,
-            description: img.tags, author: img.user,
-          }));
-          return { result: `🖼 Найдено ${images.length} изображений`, metadata: { type: "images", images } };
-        }
+// Answers end with the provider that produced them
+export function replyText(reply: AgentReply): string {
+  return reply.provider ? `${reply.text}\n\n🤖 ${reply.provider}` : reply.text;
+}
 
-        return { result: "⚠️ API-ключи для поиска изображений не настроены. Настройте через /settings или используйте генерацию AI-изображений." };
-      } catch (e: any) {
-        return { result: `❌ Ошибка поиска: ${sanitizeErrorForUser(e)}` };
-      }
-    }
+// ─── User management helpers ───
+export function formatUserLine(user: { telegramUserId: number; username?: string | null; firstName?: string | null; role: Role }): string {
+  const name = user.username ? `@${user.username}` : user.firstName || "без имени";
+  return `• ${user.telegramUserId} — ${name} — ${ROLE_LABELS[user.role]}`;
+}
 
-    case "generate_image": {
-      try {
-        const fullPrompt = safeArgs.style ? `${safeArgs.prompt}, ${safeArgs.style} style` : safeArgs.prompt;
-        const { url } = await generateImage({ prompt: fullPrompt });
-        return {
-          result: `🎨 Изображение сгенерировано!`,
-          metadata: { type: "generated_image", url, prompt: safeArgs.prompt },
-        };
-      } catch (e: any) {
-        return { result: `❌ Ошибка генерации: ${sanitizeErrorForUser(e)}` };
-      }
-    }
-
-    case "get_settings": {
-      const hugoUrl = await getSetting("hugo_base_url") ?? "не настроен";
-      const hugoKey = await getSetting("hugo_api_key");
-      const llmEndpoint = await getSetting("llm_endpoint") ?? "не настроен";
-      const llmModel = await getSetting("llm_model") ?? "не настроена";
-      const useLocal = await getSetting("llm_use_local") ?? "false";
-      const unsplashKey = await getSetting("unsplash_api_key");
-      const pixabayKey = await getSetting("pixabay_api_key");
-      return {
-        result: `⚙️ Настройки:\n\n🌐 Hugo API:\n• URL: ${hugoUrl}\n• Key: ${hugoKey ? "✅ настроен" : "❌ не настроен"}\n\n🤖 LLM:\n• Endpoint: ${llmEndpoint}\n• Модель: ${llmModel}\n• Локальная: ${useLocal === "true" ? "✅ вкл" : "❌ выкл"}\n\n🖼 Изображения:\n• Unsplash: ${unsplashKey ? "✅" : "❌"}\n• Pixabay: ${pixabayKey ? "✅" : "❌"}`,
-      };
-    }
+export function noAccessMessage(telegramUserId: number): string {
+  return `⛔ У вас нет доступа к этому боту.\n\nВаш Telegram ID: ${telegramUserId}\nПопросите администратора выполнить /grant ${telegramUserId} author`;
+}
 
-    case "save_settings": {
-      const saved: string[] = [];
-      if (safeArgs.hugo_base_url) { await setSetting("hugo_base_url", safeArgs.hugo_base_url); saved.push("Hugo URL"); }
-      if (safeArgs.hugo_api_key) { await setSetting("hugo_api_key", safeArgs.hugo_api_key); saved.push("Hugo API Key"); }
-      if (safeArgs.llm_endpoint) { await setSetting("llm_endpoint", safeArgs.llm_endpoint); saved.push("LLM Endpoint"); }
-      if (safeArgs.llm_model) { await setSetting("llm_model", safeArgs.llm_model); saved.push("LLM Model"); }
-      if (safeArgs.llm_api_key) { await setSetting("llm_api_key", safeArgs.llm_api_key); saved.push("LLM API Key"); }
-      if (safeArgs.llm_use_local !== undefined) { await setSetting("llm_use_local", safeArgs.llm_use_local ? "true" : "false"); saved.push("Use Local LLM"); }
-      return { result: saved.length > 0 ? `✅ Обновлено: ${saved.join(", ")}` : "Нет данных для сохранения." };
+// ─── Audit log ───
+const AUDIT_OUTCOME_ICONS: Record<AuditOutcome, string> = {
+  success: "✅", error: "❌", denied: "⛔", rejected: "⚠️", cancelled: "↩️",
+};
+
+// "/audit user:123 tool:delete_article from:2026-01-01 to:2026-01-31"; dates are days in the schedule time zone
+export function parseAuditFilter(input: string, timeZone = "UTC"): { filter: AuditEventFilter } | { error: string } {
+  const filter: AuditEventFilter = {};
+  for (const token of input.trim().split(/\s+/).filter(Boolean)) {
+    const separator = token.indexOf(":");
+    const key = token.slice(0, separator);
+    const value = separator > 0 ? token.slice(separator + 1) : "";
+    if (key === "user" && /^\d+$/.test(value)) {
+      filter.telegramUserId = Number(value);
+    } else if (key === "tool" && /^[a-z_]{1,64}$/.test(value)) {
+      filter.tool = value;
+    } else if ((key === "from" || key === "to") && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      const date = parseScheduleTime(`${value} 00:00`, timeZone);
+      if (!date) return { error: `Неверная дата: ${value}` };
+      // "to" includes the whole day
+      if (key === "from") filter.from = date;
+      else filter.to = new Date(parseScheduleTime(`${value} 23:59`, timeZone)!.getTime() + 59_999);
+    } else {
+      return { error: `Неизвестный фильтр: ${token}` };
     }
-
-    default:
-      return { result: `Неизвестный инструмент: ${name}` };
   }
+  return { filter };
 }
 
-// ─── LLM caller with local/built-in fallback ───
-async function callLLM(
-  messages: Array<{ role: string; content: string; tool_call_id?: string; tool_calls?: any[] }>,
-  options?: { tools?: any[]; tool_choice?: "none" | "auto" | "required" }
-): Promise<any> {
-  const useLocal = await getSetting("llm_use_local");
-  const localEndpoint = await getSetting("llm_endpoint");
-  const localModel = await getSetting("llm_model");
-  const localApiKey = await getSetting("llm_api_key");
-
-  if (useLocal === "true" && localEndpoint) {
-    const url = `${localEndpoint.replace(/\/+$/, "")}/v1/chat/completions`;
-    const body: any = {
-      model: localModel || "default",
-      messages,
-      max_tokens: 8192,
-      temperature: 0.7,
-    };
-    if (options?.tools) { body.tools = options.tools; body.tool_choice = options.tool_choice || "auto"; }
-
-    try {
-      const res = await fetchWithTimeout(url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(localApiKey ? { Authorization: `Bearer ${localApiKey}` } : {}),
-        },
-        body: JSON.stringify(body),
-      }, 60000);
-
-      if (!res.ok) {
-        const text = await res.text().catch(() => "");
-        console.warn(`[LLM] Local model error ${res.status}: ${text}, falling back to built-in`);
-      } else {
-        return res.json();
-      }
-    } catch (e: any) {
-      console.warn(`[LLM] Local model failed: ${e.message}, falling back to built-in`);
+// "/search docker category:DevOps status:draft from:2026-01-01 mode:semantic"; other words form the query
+export function parseSearchCommand(input: string, timeZone = "UTC"): { search: ArticleSearch } | { error: string } {
+  const search: ArticleSearch = {};
+  const words: string[] = [];
+  for (const token of input.trim().split(/\s+/).filter(Boolean)) {
+    const separator = token.indexOf(":");
+    const key = separator > 0 ? token.slice(0, separator) : "";
+    const value = token.slice(separator + 1);
+    if (key === "mode") {
+      if (!SEARCH_MODES.includes(value as SearchMode)) return { error: `Неизвестный режим: ${value} (fulltext или semantic)` };
+      search.mode = value as SearchMode;
+    } else if (key === "category" && value) {
+      search.category = value.replace(/_/g, " ");
+    } else if (key === "status") {
+      if (value !== "draft" && value !== "published") return { error: `Неизвестный статус: ${value} (draft или published)` };
+      search.draft = value === "draft";
+    } else if (key === "from" || key === "to") {
+      const date = parseSearchDate(value, key, timeZone);
+      if (!date) return { error: `Неверная дата: ${value}` };
+      search[key] = date;
+    } else {
+      words.push(token);
     }
   }
-
-  return invokeLLM({
-    messages: messages.map(m => ({
-      role: m.role as any,
-      content: m.content,
-      ...(m.tool_call_id ? { tool_call_id: m.tool_call_id } : {}),
-      ...(m.tool_calls ? { tool_calls: m.tool_calls } : {}),
-    })),
-    ...(options?.tools ? { tools: options.tools, tool_choice: (options.tool_choice || "auto") as "auto" } : {}),
-  });
+  if (words.length > 0) search.query = words.join(" ");
+  return { search };
 }
 
-// ─── System prompt ───
-const SYSTEM_PROMPT = `Ты — AI-ассистент для управления Hugo-блогом через Telegram. Ты помогаешь пользователю управлять контентом.
-
-Твои возможности:
-1. Статьи: просмотр, создание, редактирование, удаление статей
-2. AI-генерация: написание полных статей по теме с учётом существующего контента
-3. AI-редактирование: улучшение, переписывание, расширение текста
-4. SEO-оптимизация: мета-описания, теги, заголовки
-5. Изображения: поиск фото и AI-генерация уникальных изображений
-6. Настройки: конфигурация Hugo API и LLM
-
-Правила:
-- Отвечай на русском языке
-- Используй инструменты для действий, не придумывай данные
-- При создании статей пиши качественный Markdown-контент
-- Перед удалением статьи уточняй у пользователя
-- Если Hugo API не настроен, предложи настроить через save_settings
-- Будь кратким — это Telegram, длинные сообщения неудобны
-- Используй эмодзи для наглядности
-- При генерации статей учитывай контекст существующих статей блога`;
-
-// ─── Process message through LLM with tool calling ───
-async function processMessage(userMessage: string, telegramUserId: number): Promise<{
-  text: string;
-  images?: Array<{ url: string; caption?: string }>;
-}> {
-  const context = getUserContext(telegramUserId);
-
-  context.push({ role: "user", content: userMessage });
-
-  // Keep context manageable
-  while (context.length > MAX_CONTEXT_MESSAGES * 2) {
-    context.shift();
-  }
-
-  const llmMessages = [
-    { role: "system", content: SYSTEM_PROMPT },
-    ...context,
-  ];
-
-  let toolResults: Array<{ name: string; result: string; metadata?: any }> = [];
-  let finalContent = "";
-  let iterations = 0;
-  let response: any;
-  const images: Array<{ url: string; caption?: string }> = [];
-
-  try {
-    while (iterations < MAX_TOOL_ITERATIONS) {
-      iterations++;
-      response = await callLLM(llmMessages, {
-        tools: TOOLS_DEFINITION,
-        tool_choice: "auto",
-      });
-
-      const choice = response.choices?.[0];
-      if (!choice) break;
-
-      const message = choice.message;
-
-      if (message.tool_calls && message.tool_calls.length > 0) {
-        llmMessages.push({
-          role: "assistant",
-          content: message.content || "",
-          tool_calls: message.tool_calls,
-        });
-
-        for (const toolCall of message.tool_calls) {
-          const fnName = toolCall.function.name;
-          let fnArgs: Record<string, any> = {};
-          try { fnArgs = JSON.parse(toolCall.function.arguments || "{}"); } catch { }
-
-          const toolResult = await executeTool(fnName, fnArgs);
-          toolResults.push({ name: fnName, ...toolResult });
+export function formatAuditEvent(event: AuditEvent, timeZone = "UTC"): string {
+  const actor = event.telegramUserId ? `👤 ${event.telegramUserId}` : event.userId ? `🌐 веб #${event.userId}` : "🤖 система";
+  const time = formatScheduleTime(new Date(event.createdAt), timeZone).replace(/ \(.*\)$/, "");
+  const lines = [`${AUDIT_OUTCOME_ICONS[event.outcome]} ${time} · ${event.tool} · ${actor} · ${event.latencyMs} мс`];
+  if (event.args && event.args !== "{}") lines.push(`   ${event.args}`);
+  if (event.outcome !== "success" && event.result) lines.push(`   → ${event.result.split("\n")[0]}`);
+  return lines.join("\n");
+}
 
-          if (toolResult.metadata?.type === "images" && toolResult.metadata.images) {
-            for (const img of toolResult.metadata.images.slice(0, 4)) {
-              images.push({ url: img.url || img.thumb, caption: img.description });
-            }
-          }
-          if (toolResult.metadata?.type === "generated_image" && toolResult.metadata.url) {
-            images.push({ url: toolResult.metadata.url, caption: toolResult.metadata.prompt });
-          }
+// ─── AI usage report ───
+export function formatUsageLine(label: string, totals: AiUsageTotals): string {
+  const tokens = totals.totalTokens.toLocaleString("ru-RU");
+  const failed = totals.failed > 0 ? `, ошибок ${totals.failed}` : "";
+  return `• ${label}: ${totals.requests} запр.${failed}, ${tokens} ток. (вход ${totals.promptTokens.toLocaleString("ru-RU")} / выход ${totals.completionTokens.toLocaleString("ru-RU")})`;
+}
 
-          llmMessages.push({
-            role: "tool",
-            content: toolResult.result,
-            tool_call_id: toolCall.id,
-          });
-        }
-        continue;
-      }
+function usageActorLabel(row: { telegramUserId: number | null; userId: number | null }, names: Map<number, string>): string {
+  if (row.telegramUserId) return names.get(row.telegramUserId) ?? String(row.telegramUserId);
+  return row.userId ? `веб #${row.userId}` : "система";
+}
 
-      finalContent = message.content || "";
-      break;
+// Admins see everyone; other users only their own requests
+async function buildUsageReport(telegramUserId: number | undefined, timeZone: string): Promise<string> {
+  const names = new Map((await listTelegramUsers()).map(u => [u.telegramUserId, u.username ? `@${u.username}` : u.firstName || String(u.telegramUserId)]));
+  const sections: string[] = [];
+  for (const [title, period] of [["📅 Сегодня", "day"], ["🗓 С начала месяца", "month"]] as const) {
+    const since = usagePeriodStart(period, timeZone);
+    const [byUser, byModel] = await Promise.all([getAiUsageByUser(since, telegramUserId), getAiUsageByModel(since, telegramUserId)]);
+    if (byModel.length === 0) {
+      sections.push(`${title}: запросов не было`);
+      continue;
     }
-
-    if (!finalContent && response?.choices?.[0]?.message?.content) {
-      finalContent = response.choices[0].message.content;
+    const lines: string[] = [title];
+    if (telegramUserId === undefined) {
+      lines.push("👥 По пользователям:", ...byUser.map(row => formatUsageLine(usageActorLabel(row, names), row)));
     }
+    lines.push("🤖 По моделям:", ...byModel.map(row => formatUsageLine(`${row.provider ?? "?"} · ${row.model ?? "?"}`, row)));
+    sections.push(lines.join("\n"));
+  }
+  return `📈 Использование AI (часовой пояс: ${timeZone})\n\n${sections.join("\n\n")}`;
+}
 
-    if (!finalContent) {
-      finalContent = toolResults.length > 0
-        ? toolResults.map(r => r.result).join("\n\n")
-        : "Не удалось получить ответ. Попробуйте ещё раз.";
-    }
+// ─── Token budgets ───
+/** "50000" → 50000, "off" → 0 (no limit), "default" → null (personal limits only) */
+export function parseBudgetValue(input: string | undefined): number | null | undefined {
+  const value = (input ?? "").trim().toLowerCase();
+  if (value === "off" || value === "0") return 0;
+  if (value === "default") return null;
+  if (/^\d{1,9}$/.test(value)) return Number(value);
+  return undefined;
+}
 
-    context.push({ role: "assistant", content: finalContent });
+function formatLimit(limit: number | null): string {
+  return limit ? `${formatTokens(limit)} ток./день` : "без лимита";
+}
 
-    return { text: finalContent, images };
-  } catch (error: any) {
-    const errorMsg = `❌ Ошибка AI: ${sanitizeErrorForUser(error)}`;
-    context.push({ role: "assistant", content: errorMsg });
-    return { text: errorMsg };
+async function buildBudgetReport(telegramUserId: number, isAdmin: boolean): Promise<string> {
+  const statuses = await getBudgetStatus({ telegramUserId });
+  const lines = ["💰 Дневные лимиты токенов"];
+  if (isAdmin) {
+    const personal = (await listTelegramUsers()).filter(u => u.dailyTokenLimit !== null);
+    lines.push(
+      "",
+      `🌐 Общий: ${formatLimit(parseTokenLimit(await getSetting(GLOBAL_BUDGET_SETTING)))}`,
+      `👤 На пользователя по умолчанию: ${formatLimit(parseTokenLimit(await getSetting(USER_BUDGET_SETTING)))}`,
+      ...personal.map(u => `   • ${u.telegramUserId}${u.username ? ` (@${u.username})` : ""}: ${formatLimit(u.dailyTokenLimit)}`),
+    );
+  }
+  lines.push("", "Израсходовано сегодня:");
+  if (statuses.length === 0) lines.push("• лимиты не установлены");
+  for (const status of statuses) {
+    const label = status.scope === "global" ? "🌐 Общий" : "👤 Ваш";
+    lines.push(`• ${label}: ${formatTokens(status.used)} из ${formatTokens(status.limit)} (${Math.floor((status.used / status.limit) * 100)}%)`);
   }
+  if (isAdmin) {
+    lines.push("", "Изменить: /budget global <токены|off>, /budget default <токены|off>, /budget <id> <токены|off|default>");
+  }
+  return lines.join("\n");
 }
 
 // ─── Create and configure the Telegram bot ───
 export function createTelegramBot(token: string): Bot {
   const bot = new Bot(token);
 
-  // ─── Access check middleware for all commands ───
-  function checkAccess(ctx: Context): boolean {
-    return isUserAllowed(ctx.from?.id ?? 0);
+  // ─── Access check for all commands: resolves the caller's role, null = no access ───
+  async function checkAccess(ctx: Context): Promise<Role | null> {
+    if (!ctx.from) return null;
+    return getTelegramRole(ctx.from.id);
   }
 
+  // ─── Any command abandons a pending rename or outline edit prompt ───
+  bot.on("message:entities:bot_command", async (ctx, next) => {
+    const text = ctx.msg.text;
+    if (ctx.from && text.startsWith("/") && !/^\/cancel\b/.test(text)) clearPendingReplies(ctx.from.id);
+    await next();
+  });
+
   // ─── /start command ───
   bot.command("start", async (ctx) => {
-    if (!checkAccess(ctx)) {
-      await ctx.reply("⛔ У вас нет доступа к этому боту.");
+    const role = await checkAccess(ctx);
+    if (!role) {
+      await ctx.reply(noAccessMessage(ctx.from!.id));
       return;
     }
-    clearUserContext(ctx.from!.id);
+    await updateTelegramUserProfile(ctx.from!.id, { username: ctx.from!.username, firstName: ctx.from!.first_name });
+    await clearUserContext({ telegramUserId: ctx.from!.id });
 
     const keyboard = new InlineKeyboard()
       .text("📊 Статистика", "cmd_stats").text("📄 Статьи", "cmd_articles").row()
       .text("✍️ Написать статью", "cmd_write").text("🔄 Синхронизация", "cmd_sync").row()
       .text("🖼 Найти изображения", "cmd_images").text("🎨 Сгенерировать картинку", "cmd_genimg").row()
-      .text("⚙️ Настройки", "cmd_settings").text("❓ Помощь", "cmd_help");
+      .text("⚙️ Настройки", "cmd_settings").text("❓ Помощь", "cmd_help").row()
+      .text("🧵 Ветки разговоров", "cmd_threads");
 
     await ctx.reply(
       "🤖 *AI Blog Bot*\n\n" +
@@ -748,19 +392,40 @@ export function createTelegramBot(token: string): Bot {
 
   // ─── /help command (with access check) ───
   bot.command("help", async (ctx) => {
-    if (!checkAccess(ctx)) {
-      await ctx.reply("⛔ У вас нет доступа к этому боту.");
+    const role = await checkAccess(ctx);
+    if (!role) {
+      await ctx.reply(noAccessMessage(ctx.from!.id));
       return;
     }
     await ctx.reply(
       "📖 *Справка по командам*\n\n" +
       "/start \\- Главное меню\n" +
       "/articles \\- Список статей\n" +
+      "/search _запрос_ \\- Поиск по статьям\n" +
       "/stats \\- Статистика блога\n" +
       "/sync \\- Синхронизация с Hugo\n" +
       "/settings \\- Настройки\n" +
       "/new \\- Новый контекст чата\n" +
+      "/cancel \\- Отменить переименование ветки или правку плана\n" +
+      "/threads \\- Ветки разговоров\n" +
+      "/thread _название_ \\- Переключиться на ветку или создать её\n" +
+      "/history _файл_ \\- История ревизий статьи\n" +
+      "/diff _файл_ _ревизия_ \\- Изменения с ревизии\n" +
+      "/rollback _файл_ _ревизия_ \\- Откатить статью\n" +
+      "/schedule _файл_ _YYYY\\-MM\\-DD HH:MM_ \\- Запланировать публикацию\n" +
+      "/pending \\- Изменения, ещё не дошедшие до Hugo\n" +
+      "/usage \\- Расход токенов AI\n" +
+      "/budget \\- Дневные лимиты токенов\n" +
+      "/providers \\- LLM\\-провайдеры и их состояние\n" +
+      "/models \\- Модели Ollama\n" +
+      (role === "admin"
+        ? "/users \\- Пользователи и роли\n" +
+          "/grant _id_ _роль_ \\- Выдать роль\n" +
+          "/revoke _id_ \\- Отозвать доступ\n" +
+          "/audit _фильтры_ \\- Журнал действий\n"
+        : "") +
       "/help \\- Эта справка\n\n" +
+      `Ваша роль: ${ROLE_LABELS[role]}\n\n` +
       "Или просто напишите запрос на естественном языке\\!",
       { parse_mode: "MarkdownV2" }
     );
@@ -768,58 +433,757 @@ export function createTelegramBot(token: string): Bot {
 
   // ─── /articles command ───
   bot.command("articles", async (ctx) => {
-    if (!checkAccess(ctx)) return;
+    if (!await checkAccess(ctx)) return;
     await ctx.reply("⏳ Загружаю список статей...");
-    const result = await processMessage("Покажи список всех статей", ctx.from!.id);
-    for (const part of splitMessage(result.text)) {
+    const result = await processMessage("Покажи список всех статей", { telegramUserId: ctx.from!.id });
+    for (const part of splitMessage(replyText(result))) {
       await ctx.reply(part);
     }
   });
 
   // ─── /stats command ───
   bot.command("stats", async (ctx) => {
-    if (!checkAccess(ctx)) return;
+    if (!await checkAccess(ctx)) return;
     await ctx.reply("⏳ Загружаю статистику...");
-    const result = await processMessage("Покажи статистику блога", ctx.from!.id);
-    await ctx.reply(result.text);
+    const result = await processMessage("Покажи статистику блога", { telegramUserId: ctx.from!.id });
+    await ctx.reply(replyText(result));
   });
 
   // ─── /sync command ───
   bot.command("sync", async (ctx) => {
-    if (!checkAccess(ctx)) return;
+    if (!await checkAccess(ctx)) return;
     await ctx.reply("🔄 Синхронизация с Hugo...");
-    const result = await processMessage("Синхронизируй статьи с Hugo", ctx.from!.id);
-    await ctx.reply(result.text);
+    const result = await processMessage("Синхронизируй статьи с Hugo", { telegramUserId: ctx.from!.id });
+    await ctx.reply(replyText(result));
+    await sendSyncConflictCards(ctx, result.syncConflicts);
   });
 
   // ─── /settings command ───
   bot.command("settings", async (ctx) => {
-    if (!checkAccess(ctx)) return;
-    const result = await processMessage("Покажи текущие настройки", ctx.from!.id);
-    await ctx.reply(result.text);
+    if (!await checkAccess(ctx)) return;
+    const result = await processMessage("Покажи текущие настройки", { telegramUserId: ctx.from!.id });
+    await ctx.reply(replyText(result));
+  });
+
+  // ─── /cancel command (drops a pending rename or outline edit prompt) ───
+  bot.command("cancel", async (ctx) => {
+    if (!await checkAccess(ctx)) return;
+    await ctx.reply(clearPendingReplies(ctx.from!.id) ? "↩️ Отменено." : "Нечего отменять.");
   });
 
   // ─── /new command (clear context, with access check) ───
   bot.command("new", async (ctx) => {
-    if (!checkAccess(ctx)) {
-      await ctx.reply("⛔ У вас нет доступа к этому боту.");
+    if (!await checkAccess(ctx)) {
+      await ctx.reply(noAccessMessage(ctx.from!.id));
       return;
     }
-    clearUserContext(ctx.from!.id);
+    await clearUserContext({ telegramUserId: ctx.from!.id });
     await ctx.reply("🆕 Контекст очищен. Начинаем новый разговор!");
   });
 
+  // ─── Thread list with switch/rename/archive buttons ───
+  async function replyWithThreads(ctx: Context) {
+    const threads = await listConversations({ telegramUserId: ctx.from!.id });
+    if (threads.length === 0) {
+      await ctx.reply("🧵 Веток пока нет. Просто напишите сообщение или создайте ветку: /thread <название>");
+      return;
+    }
+    const keyboard = new InlineKeyboard();
+    for (const thread of threads) {
+      keyboard
+        .text(`${thread.isCurrent ? "✅" : "💬"} ${threadLabel(thread)}`, `thread_switch:${thread.id}`)
+        .text("✏️", `thread_rename:${thread.id}`)
+        .text("🗄", `thread_archive:${thread.id}`).row();
+    }
+    keyboard.text("➕ Новая ветка", "thread_new");
+    await ctx.reply(
+      `🧵 Ветки разговоров (${threads.length}):\n\n✅ — текущая. Нажмите на ветку, чтобы переключиться, ✏️ — переименовать, 🗄 — в архив.`,
+      { reply_markup: keyboard }
+    );
+  }
+
+  // ─── /threads command ───
+  bot.command("threads", async (ctx) => {
+    if (!await checkAccess(ctx)) return;
+    await replyWithThreads(ctx);
+  });
+
+  // ─── /thread <name> command (switch or create) ───
+  bot.command("thread", async (ctx) => {
+    if (!await checkAccess(ctx)) return;
+    const title = normalizeThreadTitle(ctx.match);
+    if (!title) {
+      const current = await getCurrentConversation({ telegramUserId: ctx.from!.id });
+      await ctx.reply(
+        `🧵 Текущая ветка: ${current ? threadLabel(current) : "новая"}\n\nПереключиться: /thread <название>\nВсе ветки: /threads`
+      );
+      return;
+    }
+    const { created } = await openThread(ctx.from!.id, title);
+    await ctx.reply(created ? `🆕 Создана ветка «${title}»` : `🔀 Переключено на ветку «${title}»`);
+  });
+
+  bot.callbackQuery(/^thread_(switch|rename|archive):(\d+)$/, async (ctx) => {
+    await ctx.answerCallbackQuery();
+    if (!await checkAccess(ctx)) {
+      await ctx.reply("⛔ У вас нет доступа.");
+      return;
+    }
+    const action = ctx.match[1];
+    const id = ctx.match[2];
+    const owner = { telegramUserId: ctx.from.id };
+    try {
+      const thread = await getConversationById(owner, Number(id));
+      if (!thread || thread.status !== "active") {
+        await ctx.reply("⚠️ Ветка не найдена.");
+        return;
+      }
+      if (action === "switch") {
+        await setCurrentConversation(owner, thread.id);
+        await ctx.reply(`🔀 Переключено на ветку «${threadLabel(thread)}»`);
+      } else if (action === "rename") {
+        pendingOutlineEdits.delete(owner.telegramUserId);
+        pendingThreadRenames.set(owner.telegramUserId, { threadId: thread.id, expiresAt: Date.now() + PENDING_REPLY_TTL_MS });
+        await ctx.reply(`✏️ Отправьте новое название для ветки «${threadLabel(thread)}»`);
+      } else {
+        await archiveConversation(owner, thread.id);
+        await ctx.reply(`🗄 Ветка «${threadLabel(thread)}» перемещена в архив.`);
+      }
+    } catch (error: any) {
+      console.error(`[TG] Thread ${action} error:`, error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  // ─── Confirmation cards for pending destructive actions ───
+  async function sendConfirmationCards(ctx: Context, confirmations?: Array<{ id: string; summary: string }>) {
+    for (const { id, summary } of confirmations ?? []) {
+      const keyboard = new InlineKeyboard().text("✅ Подтвердить", `confirm:${id}`).text("❌ Отмена", `cancel:${id}`);
+      await ctx.reply(
+        `⚠️ Требуется подтверждение:\n\n${summary}\n\nКнопки действуют ${CONFIRMATION_TTL_MS / 60_000} минут.`,
+        { reply_markup: keyboard }
+      );
+    }
+  }
+
+  // A command's tool call: its confirmation card, or the result when it needs none or was refused
+  async function replyWithToolCall(ctx: Context, result: ToolResult) {
+    if (result.metadata?.type === "confirmation") {
+      await sendConfirmationCards(ctx, [{ id: result.metadata.actionId, summary: result.metadata.summary }]);
+    } else {
+      await ctx.reply(result.result);
+    }
+  }
+
+  // ─── Article outlines from generate_article: write, revise or drop ───
+  async function sendOutlineCards(ctx: Context, outlines?: Array<{ id: string; text: string }>) {
+    for (const { id, text } of outlines ?? []) {
+      const keyboard = new InlineKeyboard()
+        .text("✅ Писать статью", `outline_write:${id}`).row()
+        .text("✏️ Изменить план", `outline_edit:${id}`)
+        .text("❌ Отмена", `outline_cancel:${id}`);
+      await ctx.reply(text.slice(0, TG_MAX_MESSAGE_LENGTH), { reply_markup: keyboard });
+    }
+  }
+
+  bot.callbackQuery(/^outline_(write|edit|cancel):([\w-]+)$/, async (ctx) => {
+    const role = await checkAccess(ctx);
+    if (!role) {
+      await ctx.answerCallbackQuery();
+      await ctx.reply("⛔ У вас нет доступа.");
+      return;
+    }
+    const action = ctx.match[1];
+    const id = ctx.match[2];
+    const found = getOutlineDraft(id, { telegramUserId: ctx.from.id });
+    if ("error" in found) {
+      await ctx.answerCallbackQuery({
+        text: found.error === "forbidden" ? "Это план другого пользователя." : "План устарел. Попросите составить новый.",
+        show_alert: true,
+      });
+      if (found.error !== "forbidden") await ctx.editMessageReplyMarkup().catch(() => {});
+      return;
+    }
+    await ctx.answerCallbackQuery();
+
+    if (action === "edit") {
+      pendingThreadRenames.delete(ctx.from.id);
+      pendingOutlineEdits.set(ctx.from.id, { outlineId: id, expiresAt: Date.now() + PENDING_REPLY_TTL_MS });
+      await ctx.reply("✏️ Напишите, что изменить в плане: добавить или убрать разделы, сменить акцент, тон.");
+      return;
+    }
+    await ctx.editMessageReplyMarkup().catch(() => {});
+    if (action === "cancel") {
+      discardOutlineDraft(id);
+      await ctx.reply("❌ План отменён.");
+      return;
+    }
+
+    const placeholder = await ctx.reply("✍️ Пишу статью по плану...");
+    const progress = createStreamingReply(text => ctx.api.editMessageText(placeholder.chat.id, placeholder.message_id, text));
+    try {
+      const { result } = await runTool("write_article_from_outline", { outline_id: id }, {
+        role, telegramUserId: ctx.from.id, onProgress: text => progress.update(text),
+      });
+      for (const part of await progress.finish(result)) await ctx.reply(part);
+    } catch (error: any) {
+      console.error("[TG] Article generation error:", error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  // ─── Hugo sync conflicts: keep local, keep remote or merge ───
+  async function sendSyncConflictCards(ctx: Context, conflicts?: Array<{ id: number; text: string }>) {
+    for (const { id, text } of conflicts ?? []) {
+      const keyboard = new InlineKeyboard()
+        .text("📝 Оставить локальную", `sync_resolve:local:${id}`)
+        .text("🌐 Взять из Hugo", `sync_resolve:remote:${id}`).row()
+        .text("🔀 Объединить", `sync_resolve:merge:${id}`);
+      await ctx.reply(text.slice(0, TG_MAX_MESSAGE_LENGTH), { reply_markup: keyboard });
+    }
+  }
+
+  // The button press is the confirmation, so the tool runs without another card
+  bot.callbackQuery(/^sync_resolve:(local|remote|merge):(\d+)$/, async (ctx) => {
+    const role = await checkAccess(ctx);
+    if (!role) {
+      await ctx.answerCallbackQuery();
+      await ctx.reply("⛔ У вас нет доступа.");
+      return;
+    }
+    if (!roleAllows(role, "publish")) {
+      await ctx.answerCallbackQuery({ text: "Разрешать конфликты могут редакторы.", show_alert: true });
+      return;
+    }
+    await ctx.answerCallbackQuery();
+    try {
+      const { result } = await runTool("resolve_sync_conflict", {
+        conflict_id: Number(ctx.match[2]), resolution: ctx.match[1],
+      }, { role, telegramUserId: ctx.from.id });
+      // A failed merge leaves the other two buttons useful
+      if (!result.startsWith("❌")) await ctx.editMessageReplyMarkup().catch(() => {});
+      await ctx.reply(result);
+    } catch (error: any) {
+      console.error("[TG] Sync resolve error:", error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  bot.callbackQuery(/^(confirm|cancel):([\w-]+)$/, async (ctx) => {
+    if (!await checkAccess(ctx)) {
+      await ctx.answerCallbackQuery();
+      await ctx.reply("⛔ У вас нет доступа.");
+      return;
+    }
+    const decision = ctx.match[1];
+    const taken = takePendingAction(ctx.match[2], { telegramUserId: ctx.from.id });
+    if ("error" in taken) {
+      const reasons = {
+        not_found: "Действие уже выполнено или отменено.",
+        expired: "Время подтверждения истекло. Повторите запрос.",
+        forbidden: "Подтвердить может только автор запроса.",
+      };
+      await ctx.answerCallbackQuery({ text: reasons[taken.error], show_alert: true });
+      if (taken.error !== "forbidden") await ctx.editMessageReplyMarkup().catch(() => {});
+      return;
+    }
+
+    await ctx.answerCallbackQuery();
+    const { action } = taken;
+    try {
+      const outcome = await completePendingAction(action, decision === "confirm" ? "confirm" : "cancel");
+      await ctx.editMessageText(`${action.summary}\n\n${outcome}`).catch(() => ctx.reply(outcome));
+    } catch (error: any) {
+      console.error(`[TG] Pending action ${action.tool} error:`, error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  // ─── /history, /diff, /rollback — article revisions ───
+  async function replyInParts(ctx: Context, text: string) {
+    for (const part of splitMessage(text)) {
+      await ctx.reply(part);
+    }
+  }
+
+  bot.command("history", async (ctx) => {
+    const role = await checkAccess(ctx);
+    if (!role) return;
+    try {
+      const filename = ctx.match.trim();
+      if (!filename) {
+        await ctx.reply("Использование: /history <файл>");
+        return;
+      }
+      const { result } = await runTool("get_article_history", { filename }, { role, telegramUserId: ctx.from!.id });
+      await replyInParts(ctx, result);
+    } catch (error: any) {
+      console.error("[TG] /history error:", error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  bot.command("diff", async (ctx) => {
+    const role = await checkAccess(ctx);
+    if (!role) return;
+    try {
+      const [filename, revision, compareTo] = ctx.match.trim().split(/\s+/);
+      if (!filename || !/^\d+$/.test(revision ?? "") || (compareTo && !/^\d+$/.test(compareTo))) {
+        await ctx.reply("Использование: /diff <файл> <ревизия> [ревизия для сравнения]");
+        return;
+      }
+      const { result } = await runTool("diff_article", {
+        filename, revision: Number(revision), ...(compareTo ? { compare_to: Number(compareTo) } : {}),
+      }, { role, telegramUserId: ctx.from!.id });
+      await replyInParts(ctx, result);
+    } catch (error: any) {
+      console.error("[TG] /diff error:", error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  bot.command("rollback", async (ctx) => {
+    const role = await checkAccess(ctx);
+    if (!role) return;
+    try {
+      if (!roleAllows(role, "publish")) {
+        await ctx.reply(NO_PUBLISH_PERMISSION);
+        return;
+      }
+      const [filename, revision] = ctx.match.trim().split(/\s+/);
+      if (!filename || !/^\d+$/.test(revision ?? "")) {
+        await ctx.reply("Использование: /rollback <файл> <ревизия>");
+        return;
+      }
+      if (!await getArticleRevision(filename, Number(revision))) {
+        await ctx.reply(`Ревизия ${revision} статьи "${filename}" не найдена. Список ревизий: /history ${filename}`);
+        return;
+      }
+      await replyWithToolCall(ctx,
+        await executeTool("rollback_article", { filename, revision: Number(revision) }, { telegramUserId: ctx.from!.id }, role));
+    } catch (error: any) {
+      console.error("[TG] /rollback error:", error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  // ─── /schedule — scheduled publishing ───
+  bot.command("schedule", async (ctx) => {
+    const role = await checkAccess(ctx);
+    if (!role) return;
+    try {
+      const [filename, ...rest] = ctx.match.trim().split(/\s+/).filter(Boolean);
+      if (!filename) {
+        await replyInParts(ctx, (await runTool("list_scheduled_articles", {}, { role, telegramUserId: ctx.from!.id })).result);
+        return;
+      }
+      if (!roleAllows(role, "publish")) {
+        await ctx.reply(NO_PUBLISH_PERMISSION);
+        return;
+      }
+      const when = rest.join(" ");
+      if (when === "cancel" || when === "отмена") {
+        await ctx.reply((await runTool("schedule_article", { filename, cancel: true }, { role, telegramUserId: ctx.from!.id })).result);
+        return;
+      }
+      const timeZone = await getScheduleTimeZone();
+      const publishAt = parseScheduleTime(when, timeZone);
+      if (!publishAt) {
+        await ctx.reply(`Использование: /schedule <файл> <YYYY-MM-DD HH:MM> (часовой пояс: ${timeZone})\nОтмена: /schedule <файл> cancel\nСписок: /schedule`);
+        return;
+      }
+      // Checked like the model's calls: the card only appears for a draft and a time in the future
+      await replyWithToolCall(ctx,
+        await executeTool("schedule_article", { filename, publish_at: publishAt.toISOString() }, { telegramUserId: ctx.from!.id }, role));
+    } catch (error: any) {
+      console.error("[TG] /schedule error:", error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  // ─── /pending — Hugo writes still in the outbox ───
+  bot.command("pending", async (ctx) => {
+    const role = await checkAccess(ctx);
+    if (!role) return;
+    try {
+      await replyInParts(ctx, (await runTool("list_pending_writes", {}, { role, telegramUserId: ctx.from!.id })).result);
+    } catch (error: any) {
+      console.error("[TG] /pending error:", error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  // ─── /users, /grant, /revoke — user management (admins only) ───
+  async function requireAdmin(ctx: Context): Promise<boolean> {
+    const role = await checkAccess(ctx);
+    if (role === "admin") return true;
+    if (role) await ctx.reply("⛔ Команда доступна только администраторам.");
+    return false;
+  }
+
+  bot.command("users", async (ctx) => {
+    if (!await requireAdmin(ctx)) return;
+    try {
+      const users = await listTelegramUsers();
+      const envAdmins = getEnvAdminIds().filter(id => !users.some(u => u.telegramUserId === id));
+      const lines = [
+        ...envAdmins.map(id => `${formatUserLine({ telegramUserId: id, role: "admin" })} (TELEGRAM_ALLOWED_USERS)`),
+        ...users.map(u => formatUserLine(getEnvAdminIds().includes(u.telegramUserId) ? { ...u, role: "admin" } : u)),
+      ];
+      await replyInParts(ctx,
+        lines.length > 0
+          ? `👥 Пользователи (${lines.length}):\n\n${lines.join("\n")}\n\nВыдать роль: /grant <id> <${ROLES.join("|")}>\nОтозвать: /revoke <id>`
+          : "👥 Пользователей пока нет. Выдать роль: /grant <id> <роль>"
+      );
+    } catch (error: any) {
+      console.error("[TG] /users error:", error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  bot.command("grant", async (ctx) => {
+    if (!await requireAdmin(ctx)) return;
+    try {
+      const [idArg, roleArg] = ctx.match.trim().split(/\s+/);
+      const role = parseRole(roleArg ?? "");
+      if (!/^\d+$/.test(idArg ?? "") || !role) {
+        await ctx.reply(`Использование: /grant <telegram id> <${ROLES.join("|")}>`);
+        return;
+      }
+      const telegramUserId = Number(idArg);
+      if (getEnvAdminIds().includes(telegramUserId)) {
+        await ctx.reply("ℹ️ Пользователь указан в TELEGRAM_ALLOWED_USERS и всегда остаётся администратором.");
+        return;
+      }
+      const existing = await getTelegramUser(telegramUserId);
+      await audited({ telegramUserId: ctx.from!.id }, "grant_role", { telegramUserId, role }, () => upsertTelegramUser({
+        telegramUserId, username: existing?.username, firstName: existing?.firstName, role, grantedBy: ctx.from!.id,
+      }));
+      await ctx.reply(`✅ Пользователю ${telegramUserId} выдана роль ${ROLE_LABELS[role]}`);
+    } catch (error: any) {
+      console.error("[TG] /grant error:", error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  bot.command("revoke", async (ctx) => {
+    if (!await requireAdmin(ctx)) return;
+    try {
+      const idArg = ctx.match.trim();
+      if (!/^\d+$/.test(idArg)) {
+        await ctx.reply("Использование: /revoke <telegram id>");
+        return;
+      }
+      const telegramUserId = Number(idArg);
+      if (telegramUserId === ctx.from!.id) {
+        await ctx.reply("⚠️ Нельзя отозвать доступ у самого себя.");
+        return;
+      }
+      if (getEnvAdminIds().includes(telegramUserId)) {
+        await ctx.reply("ℹ️ Пользователь указан в TELEGRAM_ALLOWED_USERS — уберите его оттуда, чтобы отозвать доступ.");
+        return;
+      }
+      if (!await getTelegramUser(telegramUserId)) {
+        await ctx.reply(`Пользователь ${telegramUserId} не найден. Список: /users`);
+        return;
+      }
+      await audited({ telegramUserId: ctx.from!.id }, "revoke_role", { telegramUserId }, () => deleteTelegramUser(telegramUserId));
+      await ctx.reply(`🚫 Доступ пользователя ${telegramUserId} отозван.`);
+    } catch (error: any) {
+      console.error("[TG] /revoke error:", error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  bot.command("usage", async (ctx) => {
+    const role = await checkAccess(ctx);
+    if (!role) return;
+    try {
+      const report = await buildUsageReport(role === "admin" ? undefined : ctx.from!.id, await getScheduleTimeZone());
+      await replyInParts(ctx, report);
+    } catch (error: any) {
+      console.error("[TG] /usage error:", error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  bot.command("budget", async (ctx) => {
+    const role = await checkAccess(ctx);
+    if (!role) return;
+    try {
+      const [target, valueArg] = ctx.match.trim().split(/\s+/).filter(Boolean);
+      if (!target) {
+        await replyInParts(ctx, await buildBudgetReport(ctx.from!.id, role === "admin"));
+        return;
+      }
+      if (role !== "admin") {
+        await ctx.reply("⛔ Менять лимиты могут только администраторы.");
+        return;
+      }
+      const value = parseBudgetValue(valueArg);
+      const usage = "Использование: /budget global <токены|off>, /budget default <токены|off>, /budget <id> <токены|off|default>";
+      if (value === undefined) {
+        await ctx.reply(usage);
+        return;
+      }
+      const actor = { telegramUserId: ctx.from!.id };
+      if (target === "global" || target === "default") {
+        if (value === null) {
+          await ctx.reply(usage);
+          return;
+        }
+        const key = target === "global" ? GLOBAL_BUDGET_SETTING : USER_BUDGET_SETTING;
+        await audited(actor, "set_budget", { [key]: value }, () => setSetting(key, String(value)));
+        await ctx.reply(`✅ ${target === "global" ? "Общий лимит" : "Лимит на пользователя по умолчанию"}: ${formatLimit(value)}`);
+        return;
+      }
+      if (!/^\d+$/.test(target)) {
+        await ctx.reply(usage);
+        return;
+      }
+      const telegramUserId = Number(target);
+      if (!await getTelegramUser(telegramUserId)) {
+        await ctx.reply(`Пользователь ${telegramUserId} не найден. Сначала выдайте роль: /grant ${telegramUserId} author`);
+        return;
+      }
+      await audited(actor, "set_budget", { telegramUserId, dailyTokenLimit: value },
+        () => setTelegramUserTokenLimit(telegramUserId, value));
+      await ctx.reply(value === null
+        ? `✅ Пользователь ${telegramUserId} использует лимит по умолчанию.`
+        : `✅ Лимит пользователя ${telegramUserId}: ${formatLimit(value)}`);
+    } catch (error: any) {
+      console.error("[TG] /budget error:", error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  bot.command("providers", async (ctx) => {
+    const role = await checkAccess(ctx);
+    if (!role) return;
+    try {
+      const { result } = await runTool("list_llm_providers", {}, { role, telegramUserId: ctx.from!.id });
+      await replyInParts(ctx, result);
+    } catch (error: any) {
+      console.error("[TG] /providers error:", error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  // ─── /models: installed Ollama models, pick the active one, pull new ones ───
+  const activePulls = new Set<string>();
+
+  // Callback data is limited to 64 bytes and model names are not, so buttons carry a short hash of the name
+  function modelButtonId(name: string): string {
+    return createHash("sha256").update(name).digest("hex").slice(0, 16);
+  }
+
+  async function buildModelsMessage(isAdmin: boolean): Promise<{ text: string; keyboard?: InlineKeyboard }> {
+    const provider = await getOllamaProvider();
+    if (!provider?.endpoint) {
+      return { text: "🦙 Ollama не настроен. Попросите ассистента добавить провайдера типа ollama, например: «добавь Ollama http://10.0.0.5:11434»." };
+    }
+    const models = await describeOllamaModels(provider.endpoint);
+    if (models.length === 0) {
+      return { text: `🦙 На ${provider.endpoint} нет установленных моделей.\n\nЗагрузить: /models pull <модель>` };
+    }
+    const lines = models.map(m => formatOllamaModel(m.model, m.details, m.model.name === provider.model));
+    const text = `🦙 Модели Ollama (${provider.name}, ${provider.endpoint}):\n\n${lines.join("\n")}` +
+      (isAdmin ? "\n\nНажмите на модель, чтобы сделать её активной. Загрузить новую: /models pull <модель>" : "");
+    if (!isAdmin) return { text };
+    const keyboard = new InlineKeyboard();
+    for (const m of models) {
+      keyboard.text(`${m.model.name === provider.model ? "✅ " : ""}${m.model.name}`, `model_select:${modelButtonId(m.model.name)}`).row();
+    }
+    return { text, keyboard };
+  }
+
+  async function startModelPull(ctx: Context, name: string) {
+    const provider = await getOllamaProvider();
+    if (!provider?.endpoint) {
+      await ctx.reply("🦙 Ollama не настроен.");
+      return;
+    }
+    if (activePulls.has(name)) {
+      await ctx.reply(`⏳ ${name} уже загружается.`);
+      return;
+    }
+    const placeholder = await ctx.reply(`⬇️ Загрузка ${name}...`);
+    const progress = createStreamingReply(text => ctx.api.editMessageText(placeholder.chat.id, placeholder.message_id, text));
+    const endpoint = provider.endpoint;
+    activePulls.add(name);
+    // Not awaited: a pull can take many minutes and updates are handled one at a time
+    void audited({ telegramUserId: ctx.from!.id }, "pull_model", { model: name },
+      () => pullOllamaModel(endpoint, name, p => progress.update(formatPullProgress(name, p))))
+      .then(
+        () => progress.finish(`✅ Модель ${name} загружена. Выбрать её: /models`),
+        (error: any) => progress.finish(`❌ Не удалось загрузить ${name}: ${sanitizeErrorForUser(error)}`)
+      )
+      .catch((e: any) => console.warn(`[TG] Pull status edit failed: ${e.message}`))
+      .finally(() => activePulls.delete(name));
+  }
+
+  bot.command("models", async (ctx) => {
+    const role = await checkAccess(ctx);
+    if (!role) return;
+    const [subcommand, name] = ctx.match.trim().split(/\s+/).filter(Boolean);
+    try {
+      if (subcommand === "pull") {
+        if (role !== "admin") {
+          await ctx.reply("⛔ Загружать модели могут только администраторы.");
+          return;
+        }
+        if (!name || !OLLAMA_MODEL_NAME.test(name)) {
+          await ctx.reply("Использование: /models pull <модель>, например /models pull llama3.1:8b");
+          return;
+        }
+        await startModelPull(ctx, name);
+        return;
+      }
+      const { text, keyboard } = await buildModelsMessage(role === "admin");
+      await ctx.reply(text, keyboard ? { reply_markup: keyboard } : {});
+    } catch (error: any) {
+      console.error("[TG] /models error:", error);
+      await ctx.reply(`❌ Ollama недоступен: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  bot.callbackQuery(/^model_select:([0-9a-f]{16})$/, async (ctx) => {
+    await ctx.answerCallbackQuery();
+    if (await checkAccess(ctx) !== "admin") {
+      await ctx.reply("⛔ Выбирать модель могут только администраторы.");
+      return;
+    }
+    try {
+      const provider = await getOllamaProvider();
+      const models = provider?.endpoint ? await listOllamaModels(provider.endpoint) : [];
+      const model = models.find(m => modelButtonId(m.name) === ctx.match[1]);
+      if (!provider || !model) {
+        await ctx.reply("⚠️ Эта модель больше не установлена. Откройте /models заново.");
+        return;
+      }
+      await audited({ telegramUserId: ctx.from.id }, "select_model", { provider: provider.id, model: model.name },
+        () => selectProviderModel(provider.id, model.name));
+      const { text, keyboard } = await buildModelsMessage(true);
+      await ctx.editMessageText(text, keyboard ? { reply_markup: keyboard } : {}).catch(() => {});
+      await ctx.reply(`✅ Активная модель ${provider.name}: ${model.name}`);
+    } catch (error: any) {
+      console.error("[TG] Model select error:", error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  bot.command("audit", async (ctx) => {
+    if (!await requireAdmin(ctx)) return;
+    try {
+      const timeZone = await getScheduleTimeZone();
+      const parsed = parseAuditFilter(ctx.match, timeZone);
+      if ("error" in parsed) {
+        await ctx.reply(`${parsed.error}\n\nИспользование: /audit [user:<id>] [tool:<инструмент>] [from:YYYY-MM-DD] [to:YYYY-MM-DD]`);
+        return;
+      }
+      const { items, total } = await getAuditEvents({ ...parsed.filter, limit: AUDIT_PAGE_SIZE });
+      if (items.length === 0) {
+        await ctx.reply("📜 Записей не найдено.");
+        return;
+      }
+      await replyInParts(ctx,
+        `📜 Журнал действий: последние ${items.length} из ${total} (часовой пояс: ${timeZone})\n\n` +
+        items.map(event => formatAuditEvent(event, timeZone)).join("\n\n")
+      );
+    } catch (error: any) {
+      console.error("[TG] /audit error:", error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  // ─── /search: full-text or semantic search with page buttons ───
+  async function buildSearchPage(sessionId: string, search: ArticleSearch, page: number): Promise<{ text: string; keyboard?: InlineKeyboard }> {
+    const offset = page * SEARCH_PAGE_SIZE;
+    const { items, total } = await searchArticles({ ...search, limit: SEARCH_PAGE_SIZE, offset });
+    if (items.length === 0) return { text: `🔎 ${describeSearch(search)}: ничего не найдено.` };
+    const text = `🔎 ${describeSearch(search)}: ${offset + 1}–${offset + items.length} из ${total}\n\n` +
+      items.map((hit, i) => formatSearchHit(hit, offset + i + 1)).join("\n\n");
+    const keyboard = new InlineKeyboard();
+    items.forEach((hit, i) => keyboard.text(`📄 ${offset + i + 1}. ${hit.title.slice(0, 40)}`, `article_open:${hit.id}`).row());
+    if (page > 0) keyboard.text("◀️ Назад", `search_page:${sessionId}:${page - 1}`);
+    if (offset + items.length < total) keyboard.text("Дальше ▶️", `search_page:${sessionId}:${page + 1}`);
+    return { text: text.slice(0, TG_MAX_MESSAGE_LENGTH), keyboard };
+  }
+
+  bot.command("search", async (ctx) => {
+    if (!await checkAccess(ctx)) return;
+    const parsed = parseSearchCommand(ctx.match, await getScheduleTimeZone());
+    if ("error" in parsed || !ctx.match.trim()) {
+      await ctx.reply(
+        `${"error" in parsed ? `${parsed.error}\n\n` : ""}Использование: /search <запрос> [category:<категория>] [status:draft|published] ` +
+        "[from:YYYY-MM-DD] [to:YYYY-MM-DD] [mode:semantic]\n\nФразу можно взять в кавычки, пробелы в категории — через _."
+      );
+      return;
+    }
+    try {
+      const sessionId = nanoid(10);
+      searchSessions.set(sessionId, { telegramUserId: ctx.from!.id, search: parsed.search, expiresAt: Date.now() + SEARCH_SESSION_TTL_MS });
+      const { text, keyboard } = await buildSearchPage(sessionId, parsed.search, 0);
+      await ctx.reply(text, keyboard ? { reply_markup: keyboard } : {});
+    } catch (error: any) {
+      console.error("[TG] /search error:", error);
+      await ctx.reply(`❌ Ошибка поиска: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  bot.callbackQuery(/^search_page:([\w-]+):(\d+)$/, async (ctx) => {
+    await ctx.answerCallbackQuery();
+    if (!await checkAccess(ctx)) {
+      await ctx.reply("⛔ У вас нет доступа.");
+      return;
+    }
+    const sessionId = ctx.match[1];
+    const session = searchSessions.get(sessionId);
+    if (!session || session.telegramUserId !== ctx.from.id || Date.now() > session.expiresAt) {
+      await ctx.reply("⚠️ Поиск устарел. Повторите /search.");
+      return;
+    }
+    try {
+      const { text, keyboard } = await buildSearchPage(sessionId, session.search, Number(ctx.match[2]));
+      await ctx.editMessageText(text, keyboard ? { reply_markup: keyboard } : {}).catch(() => {});
+    } catch (error: any) {
+      console.error("[TG] Search page error:", error);
+      await ctx.reply(`❌ Ошибка поиска: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
+  bot.callbackQuery(/^article_open:(\d+)$/, async (ctx) => {
+    await ctx.answerCallbackQuery();
+    const role = await checkAccess(ctx);
+    if (!role) {
+      await ctx.reply("⛔ У вас нет доступа.");
+      return;
+    }
+    try {
+      const article = await getArticleById(Number(ctx.match[1]));
+      if (!article) {
+        await ctx.reply("⚠️ Статья не найдена.");
+        return;
+      }
+      const { result } = await runTool("get_article", { filename: article.filename }, { role, telegramUserId: ctx.from.id });
+      await replyInParts(ctx, result);
+    } catch (error: any) {
+      console.error("[TG] Article open error:", error);
+      await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+    }
+  });
+
   // ─── Inline keyboard callbacks (with access check) ───
   const callbackHandlers: Record<string, (ctx: Context) => Promise<void>> = {
     cmd_stats: async (ctx) => {
       await ctx.reply("⏳ Загружаю статистику...");
-      const result = await processMessage("Покажи статистику блога", ctx.from!.id);
-      await ctx.reply(result.text);
+      const result = await processMessage("Покажи статистику блога", { telegramUserId: ctx.from!.id });
+      await ctx.reply(replyText(result));
     },
     cmd_articles: async (ctx) => {
       await ctx.reply("⏳ Загружаю статьи...");
-      const result = await processMessage("Покажи список статей", ctx.from!.id);
-      for (const part of splitMessage(result.text)) {
+      const result = await processMessage("Покажи список статей", { telegramUserId: ctx.from!.id });
+      for (const part of splitMessage(replyText(result))) {
         await ctx.reply(part);
       }
     },
@@ -828,8 +1192,9 @@ export function createTelegramBot(token: string): Bot {
     },
     cmd_sync: async (ctx) => {
       await ctx.reply("🔄 Синхронизация...");
-      const result = await processMessage("Синхронизируй статьи с Hugo", ctx.from!.id);
-      await ctx.reply(result.text);
+      const result = await processMessage("Синхронизируй статьи с Hugo", { telegramUserId: ctx.from!.id });
+      await ctx.reply(replyText(result));
+      await sendSyncConflictCards(ctx, result.syncConflicts);
     },
     cmd_images: async (ctx) => {
       await ctx.reply("🔍 Что искать? Напишите запрос для поиска изображений:");
@@ -838,18 +1203,39 @@ export function createTelegramBot(token: string): Bot {
       await ctx.reply("🎨 Опишите изображение, которое нужно сгенерировать:");
     },
     cmd_settings: async (ctx) => {
-      const result = await processMessage("Покажи настройки", ctx.from!.id);
-      await ctx.reply(result.text);
+      const result = await processMessage("Покажи настройки", { telegramUserId: ctx.from!.id });
+      await ctx.reply(replyText(result));
+    },
+    cmd_threads: async (ctx) => {
+      await replyWithThreads(ctx);
+    },
+    thread_new: async (ctx) => {
+      await clearUserContext({ telegramUserId: ctx.from!.id });
+      await ctx.reply("🆕 Начата новая ветка разговора.");
     },
     cmd_help: async (ctx) => {
       await ctx.reply(
         "📖 Справка:\n\n" +
         "/start - Главное меню\n" +
         "/articles - Список статей\n" +
+        "/search <запрос> - Поиск по статьям\n" +
         "/stats - Статистика\n" +
         "/sync - Синхронизация\n" +
         "/settings - Настройки\n" +
-        "/new - Новый контекст\n\n" +
+        "/new - Новый контекст\n" +
+        "/threads - Ветки разговоров\n" +
+        "/thread <название> - Переключить ветку\n" +
+        "/history <файл> - История ревизий\n" +
+        "/diff <файл> <ревизия> - Изменения\n" +
+        "/rollback <файл> <ревизия> - Откат\n" +
+        "/schedule <файл> <YYYY-MM-DD HH:MM> - Запланировать публикацию\n" +
+        "/pending - Изменения, ещё не дошедшие до Hugo\n" +
+        "/usage - Расход токенов AI\n" +
+        "/budget - Дневные лимиты токенов\n" +
+        "/providers - LLM-провайдеры и их состояние\n" +
+        "/models [pull <модель>] - Модели Ollama: выбор и загрузка\n" +
+        "/users, /grant, /revoke - Пользователи и роли (для администраторов)\n" +
+        "/audit [user:<id>] [tool:<имя>] [from:<дата>] [to:<дата>] - Журнал действий (для администраторов)\n\n" +
         "Или просто напишите запрос!"
       );
     },
@@ -859,7 +1245,7 @@ export function createTelegramBot(token: string): Bot {
   for (const [callbackData, handler] of Object.entries(callbackHandlers)) {
     bot.callbackQuery(callbackData, async (ctx) => {
       await ctx.answerCallbackQuery();
-      if (!checkAccess(ctx)) {
+      if (!await checkAccess(ctx)) {
         await ctx.reply("⛔ У вас нет доступа.");
         return;
       }
@@ -874,8 +1260,9 @@ export function createTelegramBot(token: string): Bot {
 
   // ─── Handle all text messages ───
   bot.on("message:text", async (ctx) => {
-    if (!checkAccess(ctx)) {
-      await ctx.reply("⛔ У вас нет доступа к этому боту.");
+    const role = await checkAccess(ctx);
+    if (!role) {
+      await ctx.reply(noAccessMessage(ctx.from!.id));
       return;
     }
 
@@ -888,12 +1275,47 @@ export function createTelegramBot(token: string): Bot {
       return;
     }
 
+    // Reply to a "✏️ rename thread" prompt
+    const renaming = takePendingReply(pendingThreadRenames, ctx.from!.id);
+    const title = renaming ? normalizeThreadTitle(userMessage) : "";
+    if (renaming && title) {
+      try {
+        await renameConversation({ telegramUserId: ctx.from!.id }, renaming.threadId, title);
+        await ctx.reply(`✏️ Ветка переименована в «${title}»`);
+      } catch (error: any) {
+        console.error("[TG] Thread rename error:", error);
+        await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+      }
+      return;
+    }
+
+    // Corrections for an outline after "✏️ Изменить план"
+    const editing = takePendingReply(pendingOutlineEdits, ctx.from!.id);
+    if (editing) {
+      await ctx.replyWithChatAction("typing");
+      try {
+        const revised = await runTool("revise_article_outline", { outline_id: editing.outlineId, feedback: userMessage }, {
+          role, telegramUserId: ctx.from!.id,
+        });
+        if (revised.metadata?.type === "outline") await sendOutlineCards(ctx, [{ id: revised.metadata.outlineId, text: revised.metadata.text }]);
+        else await ctx.reply(revised.result);
+      } catch (error: any) {
+        console.error("[TG] Outline revision error:", error);
+        await ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(error)}`);
+      }
+      return;
+    }
+
     await ctx.replyWithChatAction("typing");
 
     try {
-      const result = await processMessage(userMessage, ctx.from!.id);
+      const placeholder = await ctx.reply("⏳ Думаю...");
+      const streaming = createStreamingReply(text =>
+        ctx.api.editMessageText(placeholder.chat.id, placeholder.message_id, text)
+      );
+      const result = await processMessage(userMessage, { telegramUserId: ctx.from!.id }, text => streaming.update(text));
 
-      // Send images first if any
+      // Send images before the final text if any
       if (result.images && result.images.length > 0) {
         for (const img of result.images.slice(0, 5)) {
           try {
@@ -906,14 +1328,23 @@ export function createTelegramBot(token: string): Bot {
         }
       }
 
-      // Send text response
-      for (const part of splitMessage(result.text)) {
+      // Finish the streamed message; overflow goes out as extra messages
+      let remainingParts: string[];
+      try {
+        remainingParts = await streaming.finish(replyText(result));
+      } catch {
+        remainingParts = splitMessage(replyText(result));
+      }
+      for (const part of remainingParts) {
         try {
           await ctx.reply(part);
         } catch {
           await ctx.reply(part.replace(/[*_`\[\]]/g, ""));
         }
       }
+      await sendConfirmationCards(ctx, result.confirmations);
+      await sendOutlineCards(ctx, result.outlines);
+      await sendSyncConflictCards(ctx, result.syncConflicts);
     } catch (error: any) {
       console.error("[TG] Message processing error:", error);
       await ctx.reply(`❌ Произошла ошибка: ${sanitizeErrorForUser(error)}`);
@@ -922,7 +1353,7 @@ export function createTelegramBot(token: string): Bot {
 
   // ─── Handle photos — download to S3 instead of leaking bot token ───
   bot.on("message:photo", async (ctx) => {
-    if (!checkAccess(ctx)) return;
+    if (!await checkAccess(ctx)) return;
 
     // Rate limiting
     if (isRateLimited(ctx.from!.id)) {
@@ -950,12 +1381,15 @@ export function createTelegramBot(token: string): Bot {
 
       const result = await processMessage(
         `${caption}\n\n[Пользователь прикрепил изображение: ${safeUrl}]`,
-        ctx.from!.id
+        { telegramUserId: ctx.from!.id }
       );
 
-      for (const part of splitMessage(result.text)) {
+      for (const part of splitMessage(replyText(result))) {
         await ctx.reply(part);
       }
+      await sendConfirmationCards(ctx, result.confirmations);
+      await sendOutlineCards(ctx, result.outlines);
+      await sendSyncConflictCards(ctx, result.syncConflicts);
     } catch (error: any) {
       console.error("[TG] Photo processing error:", error);
       await ctx.reply(`❌ Ошибка обработки изображения: ${sanitizeErrorForUser(error)}`);
@@ -974,14 +1408,41 @@ export async function startTelegramBot(): Promise<Bot | null> {
   }
 
   const bot = createTelegramBot(token);
+  // Nobody becomes admin by writing to the bot first; owners come only from the environment
+  if (getEnvAdminIds().length === 0) {
+    console.error("[TG Bot] No admin configured: set TELEGRAM_ALLOWED_USERS to the owners' Telegram IDs. Until then only admins granted earlier can use /grant");
+  }
+
+  // Without this grammy's default handler stops polling on the first error a handler lets through,
+  // such as a DB hiccup in the access check
+  bot.catch(async (err) => {
+    console.error(`[TG Bot] Unhandled error in update ${err.ctx.update.update_id}:`, err.error);
+    await err.ctx.reply(`❌ Ошибка: ${sanitizeErrorForUser(err.error)}`)
+      .catch((e: any) => console.warn(`[TG Bot] Failed to report the error: ${e.message}`));
+  });
 
   // Start context cleanup timer
   startContextCleanup();
 
+  // Budget alerts go to every admin
+  setBudgetAlertHandler(async text => {
+    for (const adminId of await getAdminTelegramIds()) {
+      await bot.api.sendMessage(adminId, text)
+        .catch((e: any) => console.warn(`[Budget] Failed to notify ${adminId}: ${e.message}`));
+    }
+  });
+
+  // Notices from background work, such as Hugo writes delivered late or scheduled publications, reach Telegram users here
+  setTelegramMessenger(async (telegramUserId, text) => {
+    await bot.api.sendMessage(telegramUserId, text);
+  });
+
   // Graceful shutdown handlers
   const shutdown = () => {
     console.log("[TG Bot] Shutting down gracefully...");
     stopContextCleanup();
+    setBudgetAlertHandler(null);
+    setTelegramMessenger(null);
     bot.stop();
   };
 
@@ -0,0 +1,217 @@
+import { z } from "zod";
+import { defineTool } from "./registry";
+import { sanitizeErrorForUser } from "./helpers";
+import { getArticleByFilename, getArticleStats, getStuckOutboxEntries, ownerOfToolCall } from "../db";
+import { createArticle, updateArticle, removeArticle } from "../articles";
+import { pendingWriteNotice, formatOutboxEntry } from "../outbox";
+import { syncArticles, resolveSyncConflict, formatSyncReport, formatSyncConflict, resolutionMessage } from "../hugo-sync";
+import { findRelatedPassages, articleLink } from "../retrieval";
+
+export const filenameArg = z.string().min(1).max(512).describe("Имя файла статьи");
+
+const articleFields = {
+  title: z.string().min(1).max(512),
+  content: z.string().max(50000),
+  description: z.string().max(2000),
+  tags: z.string().max(1000),
+  categories: z.string().max(1000),
+  draft: z.boolean(),
+};
+
+/** Changing an article that is already live needs "publish", like publishing it does */
+export async function publicationState(args: { filename: string }): Promise<{ published: boolean }> {
+  return { published: (await getArticleByFilename(args.filename))?.draft === false };
+}
+
+export const getArticleTool = defineTool({
+  name: "get_article",
+  description: "Получить полное содержимое статьи по имени файла.",
+  input: z.object({ filename: filenameArg }),
+  permission: "read",
+  async handler(args) {
+    const article = await getArticleByFilename(args.filename);
+    if (!article) return { result: `Статья "${args.filename}" не найдена.` };
+    const content = article.content ? article.content.slice(0, 3000) : "(пусто)";
+    return {
+      result: `📄 ${article.title}\n\nФайл: ${article.filename}\nСтатус: ${article.draft ? "Черновик" : "Опубликована"}\nТеги: ${article.tags || "нет"}\nКатегории: ${article.categories || "нет"}\nОписание: ${article.description || "нет"}\n\n---\n\n${content}${article.content && article.content.length > 3000 ? "\n\n...(текст обрезан)" : ""}`,
+      metadata: { type: "article", article },
+    };
+  },
+});
+
+export const findRelatedArticlesTool = defineTool({
+  name: "find_related_articles",
+  description: "Найти статьи блога, близкие по смыслу к запросу или к другой статье (поиск по эмбеддингам). Возвращает самые похожие фрагменты и ссылки для перелинковки.",
+  input: z.object({
+    query: z.string().min(3).max(2000).optional().describe("Тема или вопрос"),
+    filename: filenameArg.optional().describe("Статья, к которой подобрать похожие"),
+    limit: z.number().int().min(1).max(10).optional().describe("Максимальное количество (по умолчанию 5)"),
+  }),
+  permission: "read",
+  async handler(args) {
+    let query = args.query;
+    if (!query && args.filename) {
+      const article = await getArticleByFilename(args.filename);
+      if (!article) return { result: `Статья "${args.filename}" не найдена.` };
+      query = `${article.title}\n\n${(article.content ?? "").slice(0, 2000)}`;
+    }
+    if (!query) return { result: "❌ Укажите запрос или статью." };
+    try {
+      const passages = await findRelatedPassages(query, { limit: args.limit ?? 5, exclude: args.filename });
+      if (passages.length === 0) return { result: "Похожие статьи не найдены." };
+      const list = passages.map((p, i) =>
+        `${i + 1}. ${p.title} (${p.filename}) — ${p.draft ? "черновик" : articleLink(p)}, сходство ${p.score.toFixed(2)}\n   ${p.content.slice(0, 300).replace(/\s+/g, " ")}…`
+      ).join("\n\n");
+      return {
+        result: `🔗 Похожие статьи:\n\n${list}`,
+        metadata: { type: "related_articles", items: passages.map(({ filename, title, hugoUrl, score }) => ({ filename, title, hugoUrl, score })) },
+      };
+    } catch (e: any) {
+      return { result: `❌ Ошибка поиска похожих статей: ${sanitizeErrorForUser(e)}` };
+    }
+  },
+});
+
+export const createArticleTool = defineTool({
+  name: "create_article",
+  description: "Создать новую статью на Hugo-блоге.",
+  input: z.object({
+    title: articleFields.title.describe("Заголовок статьи"),
+    content: articleFields.content.describe("Содержимое в Markdown"),
+    description: articleFields.description.optional().describe("Краткое описание для SEO"),
+    tags: articleFields.tags.optional().describe("Теги через запятую"),
+    categories: articleFields.categories.optional().describe("Категории через запятую"),
+    draft: articleFields.draft.optional().describe("Черновик (true) или публикация (false)"),
+  }),
+  permission: args => (args.draft === true ? "write" : "publish"),
+  confirm: args => (args.draft === true ? undefined : `📢 Создать и опубликовать статью «${args.title}»`),
+  async handler(args, ctx) {
+    const { filename, hugoError, queued } = await createArticle(args, ownerOfToolCall(ctx));
+    if (queued) return { result: `💾 Статья "${args.title}" сохранена как ${filename}. ${pendingWriteNotice(hugoError)}` };
+    if (hugoError) return { result: `⚠️ Статья сохранена локально (${filename}), Hugo её не принял: ${hugoError}. Её отправит следующая синхронизация.` };
+    return { result: `✅ Статья "${args.title}" создана!` };
+  },
+});
+
+export const editArticleTool = defineTool({
+  name: "edit_article",
+  description: "Редактировать существующую статью.",
+  input: z.object({
+    filename: filenameArg,
+    title: articleFields.title.optional().describe("Новый заголовок"),
+    content: articleFields.content.optional().describe("Новое содержимое"),
+    description: articleFields.description.optional().describe("Новое описание"),
+    tags: articleFields.tags.optional().describe("Новые теги"),
+    categories: articleFields.categories.optional().describe("Новые категории"),
+    draft: articleFields.draft.optional().describe("Черновик или публикация"),
+  }),
+  target: publicationState,
+  permission: (args, target) => (args.draft === false || target?.published ? "publish" : "write"),
+  confirm: (args, target) => {
+    const fields = Object.keys(args).filter(k => k !== "filename" && k !== "draft");
+    const changes = fields.length > 0 ? ` с изменениями: ${fields.join(", ")}` : "";
+    if (target?.published) {
+      if (args.draft === true) return `📥 Снять с публикации статью «${args.filename}»${changes}`;
+      return `📢 Изменить опубликованную статью «${args.filename}»${changes}`;
+    }
+    if (args.draft !== false) return undefined;
+    return `📢 Опубликовать статью «${args.filename}»${changes}`;
+  },
+  async handler(args, ctx) {
+    try {
+      const { filename, ...patch } = args;
+      const { queued, hugoError } = await updateArticle(filename, patch, ownerOfToolCall(ctx));
+      if (queued) return { result: `💾 Изменения статьи "${filename}" сохранены. ${pendingWriteNotice(hugoError)}` };
+      return { result: `✅ Статья "${filename}" обновлена!` };
+    } catch (e: any) {
+      return { result: `❌ Ошибка редактирования: ${sanitizeErrorForUser(e)}` };
+    }
+  },
+});
+
+export const deleteArticleTool = defineTool({
+  name: "delete_article",
+  description: "Удалить статью из блога. Необратимое действие.",
+  input: z.object({ filename: filenameArg }),
+  permission: "publish",
+  confirm: args => `🗑 Удалить статью «${args.filename}» из блога и базы`,
+  async handler(args, ctx) {
+    try {
+      const { queued, hugoError } = await removeArticle(args.filename, ownerOfToolCall(ctx));
+      if (queued) return { result: `🗑 Статья "${args.filename}" будет удалена, когда Hugo ответит. ${pendingWriteNotice(hugoError)}` };
+      return { result: `🗑 Статья "${args.filename}" удалена.` };
+    } catch (e: any) {
+      return { result: `❌ Ошибка удаления: ${sanitizeErrorForUser(e)}` };
+    }
+  },
+});
+
+export const listPendingWritesTool = defineTool({
+  name: "list_pending_writes",
+  description: "Показать изменения, которые ещё не дошли до Hugo: ожидающие повторной отправки и брошенные после всех попыток.",
+  input: z.object({}),
+  permission: "read",
+  async handler() {
+    const entries = await getStuckOutboxEntries();
+    if (entries.length === 0) return { result: "📮 Все изменения доставлены в Hugo." };
+    return { result: `📮 Не доставлены в Hugo:\n\n${entries.map(e => formatOutboxEntry(e)).join("\n")}` };
+  },
+});
+
+export const syncArticlesTool = defineTool({
+  name: "sync_articles",
+  description: "Двусторонняя синхронизация с Hugo-блогом: загружает изменения из Hugo, отправляет локальные изменения и черновики, удаляет статьи, удалённые в Hugo. Если статья изменена с обеих сторон, сообщает о конфликте.",
+  input: z.object({}),
+  permission: "publish",
+  async handler(_args, ctx) {
+    try {
+      const report = await syncArticles(ownerOfToolCall(ctx));
+      const conflicts = await Promise.all(report.conflicts.map(async conflict => ({
+        id: conflict.id, text: formatSyncConflict(conflict, await getArticleByFilename(conflict.filename)),
+      })));
+      const hint = conflicts.length > 0
+        ? "\n\nКонфликты разрешаются кнопками под отчётом или через resolve_sync_conflict — спроси пользователя, какую версию оставить."
+        : "";
+      return { result: formatSyncReport(report) + hint, metadata: { type: "sync_report", report, conflicts } };
+    } catch (e: any) {
+      return { result: `❌ Ошибка синхронизации: ${sanitizeErrorForUser(e)}` };
+    }
+  },
+});
+
+const CONFLICT_RESOLUTIONS = ["local", "remote", "merge"] as const;
+
+export const resolveSyncConflictTool = defineTool({
+  name: "resolve_sync_conflict",
+  description: "Разрешить конфликт синхронизации из sync_articles: local — оставить локальную версию и отправить её в Hugo, remote — взять версию из Hugo, merge — объединить изменения обеих сторон (если они не пересекаются).",
+  input: z.object({
+    conflict_id: z.number().int().positive().describe("Номер конфликта из отчёта синхронизации"),
+    resolution: z.enum(CONFLICT_RESOLUTIONS).describe("local, remote или merge"),
+  }),
+  permission: "publish",
+  confirm: args => `🔀 Конфликт синхронизации #${args.conflict_id}: ${
+    { local: "перезаписать Hugo локальной версией", remote: "заменить локальную версию версией из Hugo", merge: "объединить версии" }[args.resolution]
+  }`,
+  async handler(args, ctx) {
+    try {
+      const filename = await resolveSyncConflict(args.conflict_id, args.resolution, ownerOfToolCall(ctx));
+      return { result: resolutionMessage(filename, args.resolution) };
+    } catch (e: any) {
+      return { result: `❌ Конфликт #${args.conflict_id} не разрешён: ${sanitizeErrorForUser(e)}` };
+    }
+  },
+});
+
+export const getStatsTool = defineTool({
+  name: "get_stats",
+  description: "Получить статистику блога.",
+  input: z.object({}),
+  permission: "read",
+  async handler() {
+    const stats = await getArticleStats();
+    return {
+      result: `📊 Статистика блога:\n\n• Всего статей: ${stats.total}\n• Опубликовано: ${stats.published}\n• Черновиков: ${stats.drafts}`,
+      metadata: { type: "stats", stats },
+    };
+  },
+});
@@ -0,0 +1,156 @@
+import { z } from "zod";
+import { defineTool } from "./registry";
+import { filenameArg, publicationState } from "./articles";
+import { sanitizeErrorForUser, splitList } from "./helpers";
+import type { FrontMatter } from "../../drizzle/schema";
+import { getArticleByFilename, listTaxonomyTerms, ownerOfToolCall, setSetting } from "../db";
+import { updateArticle, type ArticlePatch } from "../articles";
+import { isFrontMatterKey } from "../front-matter";
+import { pendingWriteNotice } from "../outbox";
+import {
+  SITE_SCHEMA_SETTING, formatSiteSchema, getSiteSchema, siteSchemaSchema, validateFrontMatter,
+} from "../site-schema";
+
+const keyArg = z.string().min(1).max(128);
+
+// Keys the article keeps in columns, set through the same tool as the rest of its front matter
+function fieldPatch(key: string, value: unknown): ArticlePatch | string {
+  const list = Array.isArray(value) && value.every(item => typeof item === "string") ? value.join(", ") : value;
+  switch (key) {
+    case "title":
+      return typeof value === "string" && value.trim() ? { title: value } : "title: нужна непустая строка";
+    case "description":
+      return typeof value === "string" ? { description: value } : "description: нужна строка";
+    case "tags":
+    case "categories":
+      return typeof list === "string" ? { [key]: list } : `${key}: нужен список строк`;
+    case "draft":
+      return typeof value === "boolean" ? { draft: value } : "draft: нужно true или false";
+    default:
+      return `${key}: этот ключ задаёт Hugo`;
+  }
+}
+
+export const getFrontMatterTool = defineTool({
+  name: "get_front_matter",
+  description: "Показать весь front matter статьи: заголовок, теги, категории, дату, автора, серию, алиасы, вес, params и другие ключи.",
+  input: z.object({ filename: filenameArg }),
+  permission: "read",
+  async handler(args) {
+    const article = await getArticleByFilename(args.filename);
+    if (!article) return { result: `Статья "${args.filename}" не найдена.` };
+    const frontMatter = article.frontMatter ?? {};
+    const lines = [
+      `title: ${JSON.stringify(article.title)}`,
+      `description: ${JSON.stringify(article.description ?? "")}`,
+      `tags: ${JSON.stringify(splitList(article.tags))}`,
+      `categories: ${JSON.stringify(splitList(article.categories))}`,
+      `draft: ${article.draft ? "true" : "false"}`,
+      ...Object.entries(frontMatter).map(([key, value]) => `${key}: ${JSON.stringify(value)}`),
+      article.remoteUpdatedAt ? `lastmod: ${article.remoteUpdatedAt.toISOString()} (задаёт Hugo)` : "",
+    ];
+    const errors = validateFrontMatter(frontMatter, await getSiteSchema());
+    const problems = errors.length > 0 ? `\n\n⚠️ Не соответствует схеме сайта:\n${errors.map(e => `• ${e}`).join("\n")}` : "";
+    return {
+      result: `🧾 Front matter «${article.title}» (${article.filename}):\n\n${lines.filter(Boolean).join("\n")}${problems}`,
+      metadata: { type: "front_matter", filename: article.filename, frontMatter },
+    };
+  },
+});
+
+export const setFrontMatterTool = defineTool({
+  name: "set_front_matter",
+  description: "Изменить ключи front matter статьи: любые ключи Hugo и темы (date, author, series, aliases, weight, params…), а также title, description, tags, categories, draft. Значения — JSON: строки, числа, списки, объекты. Проверяется по схеме сайта.",
+  input: z.object({
+    filename: filenameArg,
+    set: z.record(keyArg, z.unknown()).optional().describe("Ключи и новые значения, например {\"author\": \"Анна\", \"series\": [\"Kubernetes\"], \"weight\": 10}"),
+    unset: z.array(keyArg).max(50).optional().describe("Ключи, которые удалить"),
+  }),
+  target: publicationState,
+  permission: (args, target) => (args.set?.draft === false || target?.published ? "publish" : "write"),
+  confirm: (args, target) => {
+    const keys = [...Object.keys(args.set ?? {}), ...args.unset ?? []].join(", ");
+    if (target?.published) return `📢 Изменить front matter опубликованной статьи «${args.filename}»: ${keys}`;
+    if (args.set?.draft !== false) return undefined;
+    return `📢 Опубликовать статью «${args.filename}» и изменить front matter: ${keys}`;
+  },
+  async handler(args, ctx) {
+    const article = await getArticleByFilename(args.filename);
+    if (!article) return { result: `Статья "${args.filename}" не найдена.` };
+    const set = args.set ?? {};
+    const unset = args.unset ?? [];
+    if (Object.keys(set).length === 0 && unset.length === 0) return { result: "Нет ключей для изменения." };
+
+    const patch: ArticlePatch = {};
+    const errors: string[] = [];
+    const frontMatter: FrontMatter = { ...article.frontMatter ?? {} };
+    const mapKeys = [...Object.keys(set), ...unset].filter(isFrontMatterKey);
+    for (const [key, value] of Object.entries(set)) {
+      if (isFrontMatterKey(key)) {
+        frontMatter[key] = value;
+        continue;
+      }
+      const field = fieldPatch(key, value);
+      if (typeof field === "string") errors.push(field);
+      else Object.assign(patch, field);
+    }
+    for (const key of unset) {
+      if (isFrontMatterKey(key)) delete frontMatter[key];
+      else if (key === "description" || key === "tags" || key === "categories") patch[key] = "";
+      else errors.push(`${key}: этот ключ нельзя удалить`);
+    }
+    if (errors.length > 0) return { result: `❌ ${errors.join("; ")}` };
+    // Only a changed map is checked against the schema, so a title fix works on an article that does not fit it
+    if (mapKeys.length > 0) patch.frontMatter = frontMatter;
+
+    try {
+      const { queued, hugoError } = await updateArticle(args.filename, patch, ownerOfToolCall(ctx));
+      const keys = [...Object.keys(set), ...unset].join(", ");
+      if (queued) return { result: `💾 Front matter статьи "${args.filename}" сохранён (${keys}). ${pendingWriteNotice(hugoError)}` };
+      return { result: `✅ Front matter статьи "${args.filename}" обновлён: ${keys}.` };
+    } catch (e: any) {
+      return { result: `❌ Ошибка изменения front matter: ${sanitizeErrorForUser(e)}` };
+    }
+  },
+});
+
+export const getFrontMatterSchemaTool = defineTool({
+  name: "get_front_matter_schema",
+  description: "Показать схему front matter сайта: какие ключи допустимы, их типы и обязательные ключи.",
+  input: z.object({}),
+  permission: "read",
+  async handler() {
+    return { result: `📐 Схема front matter сайта:\n\n${formatSiteSchema(await getSiteSchema())}` };
+  },
+});
+
+export const setFrontMatterSchemaTool = defineTool({
+  name: "set_front_matter_schema",
+  description: "Задать схему front matter сайта. Типы: string, number, boolean, date, list, object (можно несколько). Схема заменяется целиком; изменения статей проверяются по ней.",
+  input: siteSchemaSchema.extend({
+    keys: siteSchemaSchema.shape.keys.describe("Ключ → правило, например {\"author\": {\"type\": \"string\", \"required\": true}, \"level\": {\"type\": \"string\", \"enum\": [\"beginner\", \"advanced\"]}}"),
+    allowUnknown: z.boolean().optional().describe("Разрешить ключи, которых нет в схеме (по умолчанию да)"),
+  }),
+  permission: "admin",
+  confirm: args => `📐 Заменить схему front matter сайта (ключей: ${Object.keys(args.keys).length})`,
+  async handler(args) {
+    const schema = siteSchemaSchema.parse(args);
+    await setSetting(SITE_SCHEMA_SETTING, JSON.stringify(schema));
+    return { result: `✅ Схема front matter сохранена:\n\n${formatSiteSchema(schema)}` };
+  },
+});
+
+export const listTermsTool = defineTool({
+  name: "list_terms",
+  description: "Список тегов или категорий блога с количеством статей.",
+  input: z.object({
+    taxonomy: z.enum(["tags", "categories"]).describe("tags — теги, categories — категории"),
+  }),
+  permission: "read",
+  async handler(args) {
+    const terms = await listTaxonomyTerms(args.taxonomy);
+    const label = args.taxonomy === "tags" ? "Теги" : "Категории";
+    if (terms.length === 0) return { result: `${label}: пока нет.` };
+    return { result: `🏷 ${label} (${terms.length}):\n\n${terms.map(t => `• ${t.name} — ${t.count}`).join("\n")}` };
+  },
+});
@@ -0,0 +1,123 @@
+import { createHash } from "crypto";
+import {
+  getSetting, upsertArticle, getArticleByFilename, recordArticleRevision, deleteArticleRevision, setArticleSyncState, setArticleTerms,
+  getArticlesWithoutTerms, ownerColumns, type ConversationOwner,
+} from "../db";
+import type { Article, ArticleRevision, FrontMatter, InsertArticle } from "../../drizzle/schema";
+import { stableJson } from "../front-matter";
+
+export const FETCH_TIMEOUT_MS = 30000;
+
+// ─── Fetch with timeout ───
+export async function fetchWithTimeout(url: string, options: RequestInit = {}, timeoutMs = FETCH_TIMEOUT_MS): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...options, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ─── Escape LIKE wildcards ───
+export function escapeLikePattern(input: string): string {
+  return input.replace(/%/g, "\\%").replace(/_/g, "\\_");
+}
+
+// ─── Sanitize error messages before sending to user ───
+export function sanitizeErrorForUser(error: any): string {
+  const msg = error?.message || "Неизвестная ошибка";
+  // Strip sensitive info: connection strings, file paths, stack traces
+  const sanitized = msg
+    .replace(/mysql:\/\/[^\s]+/gi, "[DB_URL]")
+    .replace(/\/home\/[^\s]+/g, "[PATH]")
+    .replace(/at\s+\S+\s+\(\S+:\d+:\d+\)/g, "")
+    .replace(/Bearer\s+\S+/gi, "Bearer [TOKEN]")
+    .slice(0, 200);
+  return sanitized;
+}
+
+// ─── Hugo config helper ───
+export async function getHugoConfig() {
+  const baseUrl = (await getSetting("hugo_base_url") ?? "https://admin.nodkeys.com").replace(/\/+$/, "");
+  const apiKey = await getSetting("hugo_api_key") ?? "";
+  if (!apiKey) throw new Error("Hugo API key не настроен. Используйте /settings для настройки.");
+  return { baseUrl, apiKey };
+}
+
+// ─── Article persistence with revision history ───
+export type RevisionSource = ArticleRevision["source"];
+
+/** Returns the revision that now matches the article */
+export async function saveArticle(article: InsertArticle, source: RevisionSource, owner?: ConversationOwner): Promise<number | null> {
+  await upsertArticle(article);
+  const saved = await getArticleByFilename(article.filename);
+  if (!saved) return null;
+  await saveArticleTerms(saved);
+  return recordArticleRevision({
+    filename: saved.filename, title: saved.title, description: saved.description,
+    content: saved.content, tags: saved.tags, categories: saved.categories,
+    draft: saved.draft, frontMatter: saved.frontMatter, source, ...ownerColumns(owner),
+  });
+}
+
+/** Puts back the article as it was before a change Hugo refused; `rejectedRevision` is the revision that change recorded */
+export async function restoreArticle(article: Article, rejectedRevision: number | null) {
+  await upsertArticle(article);
+  await saveArticleTerms(article);
+  if (rejectedRevision !== null) await deleteArticleRevision(article.filename, rejectedRevision);
+}
+
+/** Comma-separated tags or categories as a list */
+export function splitList(value: string | null | undefined): string[] {
+  return (value ?? "").split(",").map(item => item.trim()).filter(Boolean);
+}
+
+async function saveArticleTerms(article: Pick<Article, "id" | "tags" | "categories">) {
+  await setArticleTerms(article.id, "tags", splitList(article.tags));
+  await setArticleTerms(article.id, "categories", splitList(article.categories));
+}
+
+/** Fills article_terms for articles saved before it existed */
+export async function backfillArticleTerms(): Promise<number> {
+  const pending = await getArticlesWithoutTerms();
+  for (const article of pending) await saveArticleTerms(article);
+  return pending.length;
+}
+
+/** Saves an article Hugo now has in the same state; this version becomes the base of the next sync */
+export async function saveSyncedArticle(
+  article: InsertArticle,
+  source: RevisionSource,
+  owner?: ConversationOwner,
+  remoteUpdatedAt?: Date | null
+) {
+  const revision = await saveArticle(article, source, owner);
+  const saved = await getArticleByFilename(article.filename);
+  if (saved) await setArticleSyncState(saved.filename, { syncedHash: articleSyncHash(saved), syncedRevision: revision, remoteUpdatedAt });
+}
+
+type DiffedArticle = Pick<Article, "title" | "description" | "tags" | "categories" | "draft" | "content"> & {
+  frontMatter?: FrontMatter | null;
+};
+
+// Front matter fields plus body, the text revisions are diffed on. The front matter map comes
+// last and only when there is one, so articles without it hash the same as before it existed
+export function renderArticleForDiff(article: DiffedArticle): string {
+  const frontMatter = article.frontMatter ?? {};
+  return [
+    `title: ${article.title}`,
+    `description: ${article.description ?? ""}`,
+    `tags: ${article.tags ?? ""}`,
+    `categories: ${article.categories ?? ""}`,
+    `draft: ${article.draft ? "true" : "false"}`,
+    ...Object.keys(frontMatter).sort().map(key => `${key}: ${stableJson(frontMatter[key])}`),
+    "---",
+    article.content ?? "",
+  ].join("\n");
+}
+
+/** Sync compares articles by the same fields revisions are diffed on */
+export function articleSyncHash(article: DiffedArticle): string {
+  return createHash("sha256").update(renderArticleForDiff(article)).digest("hex");
+}
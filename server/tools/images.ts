@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { defineTool } from "./registry";
+import { fetchWithTimeout, sanitizeErrorForUser } from "./helpers";
+import { getSetting, ownerOfToolCall } from "../db";
+import { generateImage } from "../_core/imageGeneration";
+import { completeTask, type CallLLMOptions } from "../llm-tasks";
+
+/** Expands a description in any language into an English image prompt; falls back to the description */
+async function writeImagePrompt(description: string, owner: CallLLMOptions["owner"]): Promise<string> {
+  try {
+    return await completeTask("image_prompt", [
+      {
+        role: "system",
+        content: "Write one English prompt for an image generation model from the user's description: subject, composition, " +
+          "lighting, mood, up to 60 words. Reply with the prompt only.",
+      },
+      { role: "user", content: description },
+    ], owner);
+  } catch (e: any) {
+    console.warn(`[Images] Image prompt writing failed, using the description: ${e.message}`);
+    return description;
+  }
+}
+
+export const searchImagesTool = defineTool({
+  name: "search_images",
+  description: "Поиск бесплатных изображений в интернете.",
+  input: z.object({
+    query: z.string().min(1).max(200).describe("Поисковый запрос на английском"),
+    count: z.number().int().min(1).max(20).optional().describe("Количество (по умолчанию 6)"),
+  }),
+  permission: "read",
+  async handler(args) {
+    try {
+      const count = args.count ?? 6;
+      const unsplashKey = await getSetting("unsplash_api_key");
+      const pixabayKey = await getSetting("pixabay_api_key");
+
+      if (unsplashKey) {
+        const res = await fetchWithTimeout(
+          `https://api.unsplash.com/search/photos?query=${encodeURIComponent(args.query)}&per_page=${count}`,
+          { headers: { Authorization: `Client-ID ${unsplashKey}` } }
+        );
+        if (!res.ok) throw new Error("Unsplash API error");
+        const data = await res.json();
+        const images = data.results.map((img: any) => ({
+          url: img.urls.regular, thumb: img.urls.thumb,
+          description: img.description || img.alt_description || args.query,
+          author: img.user.name,
+        }));
+        return {
+          result: `🖼 Найдено ${images.length} изображений по "${args.query}"`,
+          metadata: { type: "images", images },
+        };
+      }
+
+      if (pixabayKey) {
+        const res = await fetchWithTimeout(
+          `https://pixabay.com/api/?key=${encodeURIComponent(pixabayKey)}&q=${encodeURIComponent(args.query)}&per_page=${count}&image_type=photo`
+        );
+        if (!res.ok) throw new Error("Pixabay error");
+        const data = await res.json();
+        const images = data.hits.map((img: any) => ({
+          url: img.largeImageURL, thumb: img.previewURL,
+          description: img.tags, author: img.user,
+        }));
+        return { result: `🖼 Найдено ${images.length} изображений`, metadata: { type: "images", images } };
+      }
+
+      return { result: "⚠️ API-ключи для поиска изображений не настроены. Настройте через /settings или используйте генерацию AI-изображений." };
+    } catch (e: any) {
+      return { result: `❌ Ошибка поиска: ${sanitizeErrorForUser(e)}` };
+    }
+  },
+});
+
+export const generateImageTool = defineTool({
+  name: "generate_image",
+  description: "Сгенерировать AI-изображение по описанию.",
+  input: z.object({
+    prompt: z.string().min(1).max(2000).describe("Описание изображения на любом языке"),
+    style: z.string().max(100).optional().describe("Стиль: realistic, illustration, digital-art"),
+  }),
+  permission: "write",
+  async handler(args, ctx) {
+    try {
+      const prompt = await writeImagePrompt(args.prompt, ownerOfToolCall(ctx));
+      const fullPrompt = args.style ? `${prompt}, ${args.style} style` : prompt;
+      const { url } = await generateImage({ prompt: fullPrompt });
+      return {
+        result: `🎨 Изображение сгенерировано!`,
+        metadata: { type: "generated_image", url, prompt: args.prompt },
+      };
+    } catch (e: any) {
+      return { result: `❌ Ошибка генерации: ${sanitizeErrorForUser(e)}` };
+    }
+  },
+});
@@ -0,0 +1,61 @@
+import { registerTool, type ToolDefinition } from "./registry";
+import {
+  getArticleTool, findRelatedArticlesTool, createArticleTool, editArticleTool,
+  deleteArticleTool, listPendingWritesTool, syncArticlesTool, resolveSyncConflictTool, getStatsTool,
+} from "./articles";
+import { listArticlesTool } from "./search";
+import { getArticleHistoryTool, diffArticleTool, rollbackArticleTool } from "./revisions";
+import {
+  getFrontMatterTool, setFrontMatterTool, getFrontMatterSchemaTool, setFrontMatterSchemaTool, listTermsTool,
+} from "./front-matter";
+import { scheduleArticleTool, listScheduledArticlesTool } from "./schedule";
+import { searchImagesTool, generateImageTool } from "./images";
+import { getSettingsTool, saveSettingsTool } from "./settings";
+import {
+  listLLMProvidersTool, saveLLMProviderTool, removeLLMProviderTool, saveTaskModelTool, listOllamaModelsTool,
+} from "./providers";
+import {
+  suggestSeoTool, translateArticleTool, generateArticleTool, reviseArticleOutlineTool, writeArticleFromOutlineTool,
+} from "./writing";
+
+export * from "./registry";
+
+// To add a tool: define it with defineTool() in a module and list it here
+const TOOLS: ToolDefinition<any>[] = [
+  listArticlesTool,
+  getArticleTool,
+  findRelatedArticlesTool,
+  createArticleTool,
+  generateArticleTool,
+  reviseArticleOutlineTool,
+  writeArticleFromOutlineTool,
+  editArticleTool,
+  deleteArticleTool,
+  getFrontMatterTool,
+  setFrontMatterTool,
+  getFrontMatterSchemaTool,
+  setFrontMatterSchemaTool,
+  listTermsTool,
+  getArticleHistoryTool,
+  diffArticleTool,
+  rollbackArticleTool,
+  scheduleArticleTool,
+  listScheduledArticlesTool,
+  listPendingWritesTool,
+  syncArticlesTool,
+  resolveSyncConflictTool,
+  getStatsTool,
+  suggestSeoTool,
+  translateArticleTool,
+  searchImagesTool,
+  generateImageTool,
+  getSettingsTool,
+  saveSettingsTool,
+  listLLMProvidersTool,
+  saveLLMProviderTool,
+  removeLLMProviderTool,
+  saveTaskModelTool,
+  listOllamaModelsTool,
+];
+
+TOOLS.forEach(registerTool);
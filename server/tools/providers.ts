@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { defineTool } from "./registry";
+import {
+  LLM_PROVIDER_TYPES, PROVIDER_TYPE_LABELS, DEFAULT_PROVIDER_TIMEOUT_MS, llmProviderSchema,
+  getLLMProviders, saveLLMProviders, getCircuitState, isCircuitOpen, recordProviderSuccess,
+  type LLMProviderConfig,
+} from "../llm-router";
+import { getOllamaProvider, describeOllamaModels, formatOllamaModel } from "../ollama";
+import { LLM_TASKS, LLM_TASK_LABELS, getTaskModels, saveTaskModels, type TaskModels } from "../llm-tasks";
+import { sanitizeErrorForUser } from "./helpers";
+
+const providerIdArg = z.string().regex(/^[a-z0-9_-]{1,32}$/).describe("Идентификатор провайдера, например ollama-home");
+
+export function formatProviderChain(providers: LLMProviderConfig[], now = Date.now()): string {
+  if (providers.length === 0) return "🤖 LLM-провайдеры не настроены.";
+  const lines = providers.map((p, i) => {
+    const circuit = getCircuitState(p.id);
+    const status = !p.enabled ? "⏸ выключен"
+      : isCircuitOpen(p.id, now) ? `🔴 пропускается до ${new Date(circuit.openUntil).toISOString().slice(11, 16)} UTC (${circuit.failures} ошибок подряд)`
+      : circuit.failures > 0 ? `🟡 ошибок подряд: ${circuit.failures}`
+      : "🟢 работает";
+    const details = [
+      PROVIDER_TYPE_LABELS[p.type],
+      p.endpoint,
+      p.model ? `модель ${p.model}` : undefined,
+      `таймаут ${Math.round((p.timeoutMs ?? DEFAULT_PROVIDER_TIMEOUT_MS) / 1000)} с`,
+      p.apiKey ? "ключ ✅" : undefined,
+    ].filter(Boolean).join(", ");
+    return `${i + 1}. ${p.name} [${p.id}], приоритет ${p.priority} — ${status}\n   ${details}`;
+  });
+  return `🤖 LLM-провайдеры (по порядку попыток):\n\n${lines.join("\n")}`;
+}
+
+export function formatTaskModels(models: TaskModels): string {
+  const lines = LLM_TASKS.map(task => {
+    const taskModel = models[task];
+    const shown = taskModel ? `${taskModel.model}${taskModel.provider ? ` (${taskModel.provider})` : ""}` : "модель провайдера";
+    return `• ${LLM_TASK_LABELS[task]} [${task}]: ${shown}`;
+  });
+  return `🎯 Модели по задачам:\n${lines.join("\n")}`;
+}
+
+export const listLLMProvidersTool = defineTool({
+  name: "list_llm_providers",
+  description: "Показать цепочку LLM-провайдеров: порядок, модели, таймауты и состояние (работает / пропускается после ошибок).",
+  input: z.object({}),
+  permission: "read",
+  async handler() {
+    return { result: `${formatProviderChain(await getLLMProviders())}\n\n${formatTaskModels(await getTaskModels())}` };
+  },
+});
+
+export const saveLLMProviderTool = defineTool({
+  name: "save_llm_provider",
+  description: "Добавить или изменить LLM-провайдера (Ollama, LM Studio, OpenAI-совместимый URL или встроенный). Меньший приоритет пробуется раньше.",
+  input: z.object({
+    id: providerIdArg,
+    name: z.string().min(1).max(64).optional().describe("Название для отображения"),
+    type: z.enum(LLM_PROVIDER_TYPES).optional().describe("Тип: ollama, lmstudio, openai или builtin"),
+    endpoint: z.url().max(1024).optional().describe("Базовый URL без /v1, например http://10.0.0.5:11434"),
+    model: z.string().min(1).max(256).optional().describe("Модель"),
+    api_key: z.string().min(1).max(512).optional().describe("API-ключ"),
+    timeout_seconds: z.number().int().min(1).max(600).optional().describe("Таймаут запроса в секундах"),
+    priority: z.number().int().min(0).max(1000).optional().describe("Порядок в цепочке: меньше — раньше"),
+    enabled: z.boolean().optional().describe("Включён ли провайдер"),
+  }),
+  permission: "admin",
+  // The API key itself is never echoed
+  confirm: args => {
+    const fields = Object.keys(args).filter(k => k !== "id").map(k => (k === "api_key" ? "API-ключ" : k));
+    return `🤖 Сохранить LLM-провайдера «${args.id}»${fields.length > 0 ? `: ${fields.join(", ")}` : ""}`;
+  },
+  async handler(args) {
+    const providers = await getLLMProviders();
+    const existing = providers.find(p => p.id === args.id);
+    const merged = {
+      ...(existing ?? { id: args.id, name: args.name ?? args.id, priority: (providers.at(-1)?.priority ?? 0) + 10 }),
+      ...(args.name !== undefined ? { name: args.name } : {}),
+      ...(args.type !== undefined ? { type: args.type } : {}),
+      ...(args.endpoint !== undefined ? { endpoint: args.endpoint } : {}),
+      ...(args.model !== undefined ? { model: args.model } : {}),
+      ...(args.api_key !== undefined ? { apiKey: args.api_key } : {}),
+      ...(args.timeout_seconds !== undefined ? { timeoutMs: args.timeout_seconds * 1000 } : {}),
+      ...(args.priority !== undefined ? { priority: args.priority } : {}),
+      ...(args.enabled !== undefined ? { enabled: args.enabled } : {}),
+    };
+    const parsed = llmProviderSchema.safeParse(merged);
+    if (!parsed.success) {
+      return { result: `❌ Провайдер не сохранён: ${parsed.error.issues.map(i => `${i.path.join(".") || "type"}: ${i.message}`).join("; ")}` };
+    }
+    await saveLLMProviders([...providers.filter(p => p.id !== args.id), parsed.data]);
+    // A reconfigured provider gets a fresh chance
+    recordProviderSuccess(args.id);
+    return { result: `✅ Провайдер «${parsed.data.name}» ${existing ? "обновлён" : "добавлен"}.\n\n${formatProviderChain(await getLLMProviders())}` };
+  },
+});
+
+export const removeLLMProviderTool = defineTool({
+  name: "remove_llm_provider",
+  description: "Удалить LLM-провайдера из цепочки.",
+  input: z.object({ id: providerIdArg }),
+  permission: "admin",
+  confirm: args => `🗑 Удалить LLM-провайдера «${args.id}»`,
+  async handler(args) {
+    const providers = await getLLMProviders();
+    if (!providers.some(p => p.id === args.id)) return { result: `❌ Провайдер «${args.id}» не найден.` };
+    const remaining = providers.filter(p => p.id !== args.id);
+    if (!remaining.some(p => p.enabled)) return { result: "❌ Нельзя удалить последний включённый провайдер." };
+    await saveLLMProviders(remaining);
+    return { result: `🗑 Провайдер «${args.id}» удалён.\n\n${formatProviderChain(remaining)}` };
+  },
+});
+
+export const saveTaskModelTool = defineTool({
+  name: "save_task_model",
+  description: "Назначить модель для задачи: chat (диалог и выбор инструментов), article (статьи), seo, translation, image_prompt. Без model — вернуть модель провайдера.",
+  input: z.object({
+    task: z.enum(LLM_TASKS).describe("Задача"),
+    model: z.string().min(1).max(256).optional().describe("Модель; не указывать, чтобы сбросить"),
+    provider: providerIdArg.optional().describe("Провайдер для модели; по умолчанию первый в цепочке"),
+  }),
+  permission: "admin",
+  confirm: args => `🎯 ${LLM_TASK_LABELS[args.task]}: ${args.model ?? "модель провайдера"}`,
+  async handler(args) {
+    if (args.provider && !(await getLLMProviders()).some(p => p.id === args.provider)) {
+      return { result: `❌ Провайдер «${args.provider}» не найден. Список: list_llm_providers` };
+    }
+    const models = await getTaskModels();
+    if (args.model) models[args.task] = { model: args.model, ...(args.provider ? { provider: args.provider } : {}) };
+    else delete models[args.task];
+    await saveTaskModels(models);
+    return { result: `✅ Сохранено.\n\n${formatTaskModels(models)}` };
+  },
+});
+
+export const listOllamaModelsTool = defineTool({
+  name: "list_ollama_models",
+  description: "Показать модели, установленные на сервере Ollama, с размером и длиной контекста. Используй перед выбором модели, чтобы не угадывать название.",
+  input: z.object({}),
+  permission: "read",
+  async handler() {
+    const provider = await getOllamaProvider();
+    if (!provider?.endpoint) return { result: "❌ Ollama не настроен: добавьте провайдера типа ollama через save_llm_provider." };
+    try {
+      const models = await describeOllamaModels(provider.endpoint);
+      if (models.length === 0) return { result: `🦙 На ${provider.endpoint} нет установленных моделей. Загрузить: /models pull <модель>` };
+      return {
+        result: `🦙 Модели Ollama (${provider.name}):\n\n${models.map(m => formatOllamaModel(m.model, m.details, m.model.name === provider.model)).join("\n")}`,
+      };
+    } catch (error: any) {
+      return { result: `❌ Ollama недоступен: ${sanitizeErrorForUser(error)}` };
+    }
+  },
+});
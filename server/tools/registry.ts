@@ -0,0 +1,185 @@
+import { z } from "zod";
+import type { Tool } from "../_core/llm";
+import { roleAllows, type Role } from "../permissions";
+import { audited, outcomeOfResult, recordAuditEvent } from "../audit";
+
+// ─── Tool registry: each tool declares its schema, permission and handler ───
+
+/** Minimum access a call needs: read < write (drafts) < publish < admin */
+export type ToolPermission = "read" | "write" | "publish" | "admin";
+
+export type ToolResult = { result: string; metadata?: any };
+
+/** Who triggered the call: a Telegram user or a logged-in web user (users.id), and their role */
+export interface ToolContext {
+  role: Role;
+  telegramUserId?: number;
+  userId?: number;
+  /** Status updates from long-running tools, shown by the transport while the call runs */
+  onProgress?: (text: string) => void;
+}
+
+type ToolInput = z.ZodObject<z.ZodRawShape>;
+
+export interface ToolDefinition<S extends ToolInput = ToolInput, T = any> {
+  name: string;
+  description: string;
+  input: S;
+  /**
+   * Loads what the call acts on (e.g. the article and whether it is published) before it is authorized;
+   * permission, confirm and handler receive it. A string rejects the call with that message.
+   */
+  target?: (args: z.infer<S>) => Promise<T | string>;
+  /** Static level, or computed from the arguments and target (e.g. publishing vs. saving a draft) */
+  permission: ToolPermission | ((args: z.infer<S>, target?: T) => ToolPermission);
+  /** Returns a summary when this call must be confirmed by the user before it runs */
+  confirm?: (args: z.infer<S>, target?: T) => string | undefined;
+  handler: (args: z.infer<S>, ctx: ToolContext, target?: T) => Promise<ToolResult>;
+}
+
+export function defineTool<S extends ToolInput, T = any>(tool: ToolDefinition<S, T>): ToolDefinition<S, T> {
+  return tool;
+}
+
+const registry = new Map<string, ToolDefinition>();
+let llmToolsCache: Tool[] | null = null;
+
+export function registerTool(tool: ToolDefinition<any, any>) {
+  if (registry.has(tool.name)) throw new Error(`Tool "${tool.name}" is already registered`);
+  registry.set(tool.name, tool);
+  llmToolsCache = null;
+}
+
+export function getTool(name: string): ToolDefinition | undefined {
+  return registry.get(name);
+}
+
+export function listTools(): ToolDefinition[] {
+  return Array.from(registry.values());
+}
+
+/** Function definitions sent to the LLM, with JSON Schema generated from each zod input */
+export function getLLMTools(): Tool[] {
+  if (!llmToolsCache) {
+    llmToolsCache = listTools().map(tool => {
+      const { $schema, ...parameters } = z.toJSONSchema(tool.input, { io: "input" }) as Record<string, unknown>;
+      return {
+        type: "function" as const,
+        function: { name: tool.name, description: tool.description, parameters },
+      };
+    });
+  }
+  return llmToolsCache;
+}
+
+export function resolvePermission(tool: ToolDefinition, args: Record<string, any>, target?: unknown): ToolPermission {
+  return typeof tool.permission === "function" ? tool.permission(args, target) : tool.permission;
+}
+
+/** Machine-readable reason a tool call was rejected, sent back to the LLM as the tool message */
+export interface ToolCallError {
+  error: "unknown_tool" | "invalid_json" | "invalid_arguments" | "forbidden";
+  tool: string;
+  message: string;
+  issues?: Array<{ path: string; code: string; message: string; expected?: unknown; minimum?: unknown; maximum?: unknown }>;
+}
+
+export type PreparedToolCall =
+  | { tool: ToolDefinition; args: Record<string, any> }
+  | { error: ToolCallError };
+
+/** Parses the raw JSON arguments string of an LLM tool call */
+export function parseToolArguments(name: string, json: string | undefined): { args: unknown } | { error: ToolCallError } {
+  if (!json || !json.trim()) return { args: {} };
+  try {
+    return { args: JSON.parse(json) };
+  } catch (e: any) {
+    return { error: { error: "invalid_json", tool: name, message: `Arguments are not valid JSON: ${e.message}` } };
+  }
+}
+
+/** Looks the tool up and validates raw LLM arguments against its schema */
+export function prepareToolCall(name: string, rawArgs: unknown): PreparedToolCall {
+  const tool = registry.get(name);
+  if (!tool) {
+    return { error: { error: "unknown_tool", tool: name, message: `Unknown tool. Available: ${listTools().map(t => t.name).join(", ")}` } };
+  }
+  const parsed = tool.input.safeParse(rawArgs ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => {
+      const { expected, minimum, maximum } = issue as { expected?: unknown; minimum?: unknown; maximum?: unknown };
+      return {
+        path: issue.path.join(".") || "(root)",
+        code: issue.code,
+        message: issue.message,
+        // BigInt limits (e.g. int64 bounds) would break JSON.stringify
+        ...(expected !== undefined ? { expected } : {}),
+        ...(typeof minimum === "number" ? { minimum } : {}),
+        ...(typeof maximum === "number" ? { maximum } : {}),
+      };
+    });
+    return { error: { error: "invalid_arguments", tool: name, message: "Arguments do not match the tool schema", issues } };
+  }
+  return { tool, args: parsed.data };
+}
+
+/** Checks the caller's role against the permission this call needs */
+export function authorizeToolCall(tool: ToolDefinition, args: Record<string, any>, role: Role, target?: unknown): ToolCallError | null {
+  const permission = resolvePermission(tool, args, target);
+  if (roleAllows(role, permission)) return null;
+  return {
+    error: "forbidden",
+    tool: tool.name,
+    message: `This call needs "${permission}" permission; the user's role "${role}" does not have it. Do not retry, tell the user to ask an admin.`,
+  };
+}
+
+/** Tool message for a rejected call: JSON the model can act on, flagged in metadata */
+export function toolCallErrorResult(error: ToolCallError): ToolResult {
+  return { result: JSON.stringify(error), metadata: { type: "tool_error", error } };
+}
+
+/** Records a call that was rejected before its handler ran and returns the tool message */
+export async function rejectToolCall(error: ToolCallError, rawArgs: unknown, ctx: ToolContext): Promise<ToolResult> {
+  await recordAuditEvent({
+    actor: ctx, tool: error.tool, args: rawArgs,
+    outcome: error.error === "forbidden" ? "denied" : "rejected", result: error.message,
+  });
+  return toolCallErrorResult(error);
+}
+
+export type CheckedToolCall =
+  | { tool: ToolDefinition; args: Record<string, any>; target: unknown }
+  | { rejected: ToolResult };
+
+/** Validates the arguments, loads the target and authorizes the call; a rejection is already audited */
+export async function checkToolCall(name: string, rawArgs: unknown, ctx: ToolContext): Promise<CheckedToolCall> {
+  const prepared = prepareToolCall(name, rawArgs);
+  if ("error" in prepared) return { rejected: await rejectToolCall(prepared.error, rawArgs, ctx) };
+  const { tool, args } = prepared;
+  // The arguments alone give the lowest level the call needs, so a caller without it learns nothing about the target
+  const denied = authorizeToolCall(tool, args, ctx.role);
+  if (denied) return { rejected: await rejectToolCall(denied, args, ctx) };
+  if (!tool.target) return { tool, args, target: undefined };
+  const target = await tool.target(args);
+  if (typeof target === "string") {
+    await recordAuditEvent({ actor: ctx, tool: name, args, outcome: "rejected", result: target });
+    return { rejected: { result: target } };
+  }
+  const deniedForTarget = authorizeToolCall(tool, args, ctx.role, target);
+  if (deniedForTarget) return { rejected: await rejectToolCall(deniedForTarget, args, ctx) };
+  return { tool, args, target };
+}
+
+/** Runs the handler of a validated, authorized call and records it in the audit log */
+export function invokeTool(tool: ToolDefinition, args: Record<string, any>, ctx: ToolContext, target?: unknown): Promise<ToolResult> {
+  return audited(ctx, tool.name, args, () => tool.handler(args, ctx, target),
+    ({ result }) => ({ outcome: outcomeOfResult(result), result }));
+}
+
+/** Validates, authorizes and runs a tool without confirmation gating */
+export async function runTool(name: string, rawArgs: unknown, ctx: ToolContext): Promise<ToolResult> {
+  const call = await checkToolCall(name, rawArgs, ctx);
+  if ("rejected" in call) return call.rejected;
+  return invokeTool(call.tool, call.args, ctx, call.target);
+}
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { defineTool } from "./registry";
+import { filenameArg } from "./articles";
+import { sanitizeErrorForUser, renderArticleForDiff, type RevisionSource } from "./helpers";
+import { updateArticle } from "../articles";
+import { pendingWriteNotice } from "../outbox";
+import { getArticleByFilename, getArticleRevisions, getArticleRevision, ownerOfToolCall } from "../db";
+import { unifiedDiff } from "../unified-diff";
+
+const revisionArg = z.number().int().min(1);
+
+export const getArticleHistoryTool = defineTool({
+  name: "get_article_history",
+  description: "Получить историю ревизий статьи.",
+  input: z.object({ filename: filenameArg }),
+  permission: "read",
+  async handler(args) {
+    const revisions = await getArticleRevisions(args.filename);
+    if (revisions.length === 0) return { result: `История статьи "${args.filename}" пуста.` };
+    const sources: Record<RevisionSource, string> = {
+      create: "создание", edit: "правка", sync: "синхронизация", rollback: "откат",
+    };
+    const list = revisions.map(r =>
+      `#${r.revision} — ${r.createdAt.toISOString().slice(0, 16).replace("T", " ")} — ${sources[r.source]} — ${r.title}`
+    ).join("\n");
+    return {
+      result: `🕓 История «${args.filename}» (последние ${revisions.length}):\n\n${list}\n\nСравнить: /diff ${args.filename} <ревизия>`,
+      metadata: { type: "revisions", revisions: revisions.map(r => ({ revision: r.revision, source: r.source, createdAt: r.createdAt })) },
+    };
+  },
+});
+
+export const diffArticleTool = defineTool({
+  name: "diff_article",
+  description: "Показать unified diff между ревизией статьи и текущей версией (или другой ревизией).",
+  input: z.object({
+    filename: filenameArg,
+    revision: revisionArg.describe("Номер ревизии"),
+    compare_to: revisionArg.optional().describe("Номер ревизии для сравнения (по умолчанию текущая версия)"),
+  }),
+  permission: "read",
+  async handler(args) {
+    const base = await getArticleRevision(args.filename, args.revision);
+    if (!base) return { result: `Ревизия ${args.revision} статьи "${args.filename}" не найдена.` };
+    const target = args.compare_to !== undefined
+      ? await getArticleRevision(args.filename, args.compare_to)
+      : await getArticleByFilename(args.filename);
+    if (!target) return { result: `Версия для сравнения статьи "${args.filename}" не найдена.` };
+    const targetLabel = args.compare_to !== undefined ? `${args.filename}@${args.compare_to}` : `${args.filename}@current`;
+    const diff = unifiedDiff(renderArticleForDiff(base), renderArticleForDiff(target), {
+      oldLabel: `${args.filename}@${base.revision}`, newLabel: targetLabel,
+    });
+    return { result: diff ? `🔍 Изменения:\n\n${diff}` : "Версии совпадают, изменений нет." };
+  },
+});
+
+export const rollbackArticleTool = defineTool({
+  name: "rollback_article",
+  description: "Откатить статью к предыдущей ревизии и отправить её в Hugo.",
+  input: z.object({
+    filename: filenameArg,
+    revision: revisionArg.describe("Номер ревизии"),
+  }),
+  permission: "publish",
+  confirm: args => `⏪ Откатить статью «${args.filename}» к ревизии ${args.revision}`,
+  async handler(args, ctx) {
+    try {
+      const revision = await getArticleRevision(args.filename, args.revision);
+      if (!revision) return { result: `Ревизия ${args.revision} статьи "${args.filename}" не найдена.` };
+      // Content fields only; draft/published state is not changed by a rollback
+      const restored = {
+        title: revision.title, description: revision.description ?? "",
+        content: revision.content ?? "", tags: revision.tags ?? "", categories: revision.categories ?? "",
+        // Revisions from before front matter was kept leave the current map as it is
+        frontMatter: revision.frontMatter ?? undefined,
+      };
+      const { queued, hugoError } = await updateArticle(args.filename, restored, ownerOfToolCall(ctx), "rollback");
+      if (queued) {
+        return { result: `⏪ Статья "${args.filename}" откачена к ревизии ${args.revision} локально. ${pendingWriteNotice(hugoError)}` };
+      }
+      return { result: `⏪ Статья "${args.filename}" откачена к ревизии ${args.revision}.` };
+    } catch (e: any) {
+      return { result: `❌ Ошибка отката: ${sanitizeErrorForUser(e)}` };
+    }
+  },
+});
@@ -0,0 +1,181 @@
+import { z } from "zod";
+import { defineTool } from "./registry";
+import { filenameArg } from "./articles";
+import { sanitizeErrorForUser } from "./helpers";
+import { updateArticle } from "../articles";
+import { pendingWriteNotice } from "../outbox";
+import {
+  getSetting, getArticleByFilename, setArticleSchedule, getScheduledArticles, getDueScheduledArticles, ownerFromColumns,
+  ownerOfToolCall, type ConversationOwner,
+} from "../db";
+import { recordAuditEvent, outcomeOfResult } from "../audit";
+import type { Article } from "../../drizzle/schema";
+
+// ─── Schedule times in the configured time zone ───
+function timeZoneOffsetMs(utcMs: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone, hourCycle: "h23", year: "numeric", month: "2-digit", day: "2-digit",
+    hour: "2-digit", minute: "2-digit", second: "2-digit",
+  }).formatToParts(new Date(utcMs));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second")) - utcMs;
+}
+
+// Accepts "YYYY-MM-DD HH:MM" (wall clock in timeZone) or ISO 8601 with an explicit offset
+export function parseScheduleTime(input: string, timeZone = "UTC"): Date | null {
+  const value = input.trim();
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const check = new Date(wallClock);
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day || hour > 23) return null;
+  try {
+    // Offset at the target instant, so DST transitions between now and then are respected
+    const guess = wallClock - timeZoneOffsetMs(wallClock, timeZone);
+    return new Date(wallClock - timeZoneOffsetMs(guess, timeZone));
+  } catch {
+    return null; // unknown time zone
+  }
+}
+
+export function formatScheduleTime(date: Date, timeZone = "UTC"): string {
+  try {
+    return `${date.toLocaleString("sv-SE", { timeZone, year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" })} (${timeZone})`;
+  } catch {
+    return date.toISOString();
+  }
+}
+
+export async function getScheduleTimeZone(): Promise<string> {
+  return await getSetting("timezone") ?? process.env.TZ ?? "UTC";
+}
+
+// ─── Scheduled publishing ───
+/** Who scheduled the publication; it is made and reported in their name */
+export function scheduleOwner(article: Pick<Article, "scheduledBy" | "scheduledByUserId">): ConversationOwner | undefined {
+  return ownerFromColumns(article.scheduledBy, article.scheduledByUserId);
+}
+
+export async function publishScheduledArticle(article: Article): Promise<string> {
+  // Clear the schedule first so a failing article is reported once instead of every minute
+  await setArticleSchedule(article.filename, null);
+  try {
+    const { queued, hugoError } = await updateArticle(article.filename, { draft: false }, scheduleOwner(article));
+    if (queued) return `🗓 Статья «${article.title}» опубликована по расписанию локально. ${pendingWriteNotice(hugoError)}`;
+    return `✅ Статья «${article.title}» опубликована по расписанию.`;
+  } catch (e: any) {
+    return `❌ Не удалось опубликовать по расписанию «${article.title}»: ${sanitizeErrorForUser(e)}`;
+  }
+}
+
+// ─── Background publisher ───
+// Runs in the server process, so drafts go out whether or not the Telegram bot is configured
+const SCHEDULER_INTERVAL_MS = 60_000; // check for due publications every minute
+
+type ScheduleNotifier = (owner: ConversationOwner, text: string) => Promise<void>;
+
+let notifier: ScheduleNotifier | null = null;
+let schedulerInterval: ReturnType<typeof setInterval> | null = null;
+let schedulerBusy = false;
+
+/** The server registers how users learn that their publication went out or failed */
+export function setScheduleNotifier(handler: ScheduleNotifier | null) {
+  notifier = handler;
+}
+
+async function publishDueArticles() {
+  if (schedulerBusy) return;
+  schedulerBusy = true;
+  try {
+    for (const article of await getDueScheduledArticles()) {
+      const startedAt = Date.now();
+      const outcome = await publishScheduledArticle(article);
+      console.log(`[Scheduler] ${article.filename}: ${outcome}`);
+      // Logged as the user who scheduled it
+      const owner = scheduleOwner(article);
+      await recordAuditEvent({
+        actor: owner ?? {}, tool: "publish_scheduled",
+        args: { filename: article.filename }, outcome: outcomeOfResult(outcome), result: outcome, latencyMs: Date.now() - startedAt,
+      });
+      if (owner && notifier) {
+        await notifier(owner, outcome)
+          .catch((e: any) => console.warn(`[Scheduler] Failed to notify ${JSON.stringify(owner)}: ${e.message}`));
+      }
+    }
+  } catch (e: any) {
+    console.warn(`[Scheduler] Failed to check scheduled publications: ${e.message}`);
+  } finally {
+    schedulerBusy = false;
+  }
+}
+
+export function startPublishScheduler() {
+  if (schedulerInterval) return;
+  // Schedules live in the DB, so publications missed while the process was down run right away
+  void publishDueArticles();
+  schedulerInterval = setInterval(() => void publishDueArticles(), SCHEDULER_INTERVAL_MS);
+}
+
+export function stopPublishScheduler() {
+  if (schedulerInterval) {
+    clearInterval(schedulerInterval);
+    schedulerInterval = null;
+  }
+}
+
+export const scheduleArticleTool = defineTool({
+  name: "schedule_article",
+  description: "Запланировать публикацию черновика на дату и время или отменить запланированную публикацию.",
+  input: z.object({
+    filename: filenameArg,
+    publish_at: z.string().max(64).optional().describe("Дата и время публикации: YYYY-MM-DD HH:MM (часовой пояс из настроек) или ISO 8601"),
+    cancel: z.boolean().optional().describe("Отменить запланированную публикацию"),
+  }),
+  // Everything the card states is checked before it is shown: a draft, a readable time, in the future
+  async target(args) {
+    if (args.cancel === true) return undefined;
+    const article = await getArticleByFilename(args.filename);
+    if (!article) return `Статья "${args.filename}" не найдена.`;
+    if (!article.draft) return `Статья "${article.filename}" уже опубликована.`;
+    const timeZone = await getScheduleTimeZone();
+    const publishAt = parseScheduleTime(args.publish_at ?? "", timeZone);
+    if (!publishAt) return `❌ Не удалось разобрать время "${args.publish_at ?? ""}". Формат: YYYY-MM-DD HH:MM`;
+    if (publishAt.getTime() <= Date.now()) return "❌ Время публикации должно быть в будущем.";
+    return { article, publishAt, timeZone };
+  },
+  permission: "publish",
+  confirm: (args, target) => {
+    if (args.cancel === true) return undefined;
+    const when = target ? ` на ${formatScheduleTime(target.publishAt, target.timeZone)}` : "";
+    return `🗓 Запланировать публикацию статьи «${target?.article.title ?? args.filename}»${when}`;
+  },
+  async handler(args, ctx, target) {
+    if (target) {
+      await setArticleSchedule(target.article.filename, target.publishAt, ownerOfToolCall(ctx));
+      return { result: `🗓 Статья "${target.article.filename}" будет опубликована ${formatScheduleTime(target.publishAt, target.timeZone)}.` };
+    }
+    const article = await getArticleByFilename(args.filename);
+    if (!article) return { result: `Статья "${args.filename}" не найдена.` };
+    await setArticleSchedule(article.filename, null);
+    return { result: `🗓 Публикация статьи "${article.filename}" отменена.` };
+  },
+});
+
+export const listScheduledArticlesTool = defineTool({
+  name: "list_scheduled_articles",
+  description: "Показать статьи, запланированные к публикации.",
+  input: z.object({}),
+  permission: "read",
+  async handler() {
+    const scheduled = await getScheduledArticles();
+    if (scheduled.length === 0) return { result: "🗓 Запланированных публикаций нет." };
+    const timeZone = await getScheduleTimeZone();
+    const list = scheduled.map(a => `• ${formatScheduleTime(a.publishAt!, timeZone)} — ${a.title} (${a.filename})`).join("\n");
+    return { result: `🗓 Запланированные публикации:\n\n${list}` };
+  },
+});
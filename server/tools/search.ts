@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { defineTool } from "./registry";
+import { sanitizeErrorForUser } from "./helpers";
+import { getScheduleTimeZone } from "./schedule";
+import {
+  searchArticles, parseSearchDate, describeSearch, formatSearchHit, SEARCH_MODES, type ArticleSearch,
+} from "../search";
+
+const dateArg = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Дата в формате YYYY-MM-DD");
+
+export const listArticlesTool = defineTool({
+  name: "list_articles",
+  description: "Получить список статей блога: полнотекстовый поиск по заголовку, описанию и тексту с ранжированием по релевантности или поиск по смыслу, фильтры по категории, статусу и дате создания.",
+  input: z.object({
+    search: z.string().max(200).optional().describe("Поисковый запрос; фразу можно взять в кавычки"),
+    mode: z.enum(SEARCH_MODES).optional().describe("fulltext — по словам (по умолчанию), semantic — по смыслу"),
+    category: z.string().max(100).optional().describe("Категория"),
+    draft: z.boolean().optional().describe("true — только черновики, false — только опубликованные"),
+    from: dateArg.optional().describe("Созданы не раньше этого дня (YYYY-MM-DD)"),
+    to: dateArg.optional().describe("Созданы не позже этого дня (YYYY-MM-DD)"),
+    limit: z.number().int().min(1).max(50).optional().describe("Максимальное количество (по умолчанию 10)"),
+    offset: z.number().int().min(0).max(10000).optional().describe("Сколько результатов пропустить (для следующих страниц)"),
+  }),
+  permission: "read",
+  async handler(args) {
+    const timeZone = await getScheduleTimeZone();
+    const from = args.from ? parseSearchDate(args.from, "from", timeZone) : undefined;
+    const to = args.to ? parseSearchDate(args.to, "to", timeZone) : undefined;
+    if (from === null || to === null) return { result: `❌ Неверная дата: ${from === null ? args.from : args.to}` };
+    const search: ArticleSearch = {
+      query: args.search, mode: args.mode, category: args.category, draft: args.draft, from, to,
+      limit: args.limit ?? 10, offset: args.offset ?? 0,
+    };
+    try {
+      const { items, total } = await searchArticles(search);
+      if (items.length === 0) return { result: "Статьи не найдены." };
+      const offset = search.offset!;
+      const list = items.map((a, i) => formatSearchHit(a, offset + i + 1)).join("\n");
+      const more = offset + items.length < total ? `\n\nПоказаны ${offset + 1}–${offset + items.length}, следующие: offset ${offset + items.length}` : "";
+      return {
+        result: `Найдено ${total} статей (${describeSearch(search)}):\n\n${list}${more}`,
+        metadata: { type: "articles", items },
+      };
+    } catch (e: any) {
+      return { result: `❌ Ошибка поиска: ${sanitizeErrorForUser(e)}` };
+    }
+  },
+});
@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { defineTool } from "./registry";
+import { getScheduleTimeZone, parseScheduleTime } from "./schedule";
+import { getSetting, setSetting } from "../db";
+import { getEmbeddingConfig, requestArticleIndexRefresh, EMBEDDING_PROVIDER_SETTING, EMBEDDING_MODEL_SETTING } from "../retrieval";
+import { CONTENT_BACKENDS, CONTENT_BACKEND_SETTING, getContentBackendType } from "../content-backend";
+import {
+  GIT_REPO_PATH_SETTING, GIT_CONTENT_DIR_SETTING, GIT_REMOTE_SETTING, GIT_BRANCH_SETTING, DEFAULT_GIT_CONTENT_DIR,
+} from "../git-content";
+
+const SETTING_LABELS = {
+  hugo_base_url: "Hugo URL", hugo_api_key: "Hugo API Key", llm_endpoint: "LLM Endpoint",
+  llm_model: "LLM Model", llm_api_key: "LLM API Key", llm_use_local: "Use Local LLM",
+  timezone: "Timezone", embedding_provider: "Embedding Provider", embedding_model: "Embedding Model",
+  content_backend: "Content Backend", git_repo_path: "Git Repository", git_content_dir: "Git Content Dir",
+  git_remote: "Git Remote", git_branch: "Git Branch",
+} as const;
+
+// Passed to git as arguments: nothing that could read as an option
+const gitRefSchema = z.string().max(256).regex(/^[\w.@:\/~+][\w.@:\/~+-]*$/, "Недопустимое имя");
+
+export const getSettingsTool = defineTool({
+  name: "get_settings",
+  description: "Получить текущие настройки системы.",
+  input: z.object({}),
+  permission: "read",
+  async handler() {
+    const hugoUrl = await getSetting("hugo_base_url") ?? "не настроен";
+    const hugoKey = await getSetting("hugo_api_key");
+    const llmEndpoint = await getSetting("llm_endpoint") ?? "не настроен";
+    const llmModel = await getSetting("llm_model") ?? "не настроена";
+    const useLocal = await getSetting("llm_use_local") ?? "false";
+    const unsplashKey = await getSetting("unsplash_api_key");
+    const pixabayKey = await getSetting("pixabay_api_key");
+    const timeZone = await getScheduleTimeZone();
+    const embeddings = await getEmbeddingConfig();
+    const backend = await getContentBackendType();
+    const storage = backend === "git"
+      ? `git\n• Репозиторий: ${await getSetting(GIT_REPO_PATH_SETTING) ?? "не настроен"}\n• Папка статей: ${await getSetting(GIT_CONTENT_DIR_SETTING) || DEFAULT_GIT_CONTENT_DIR}\n• Remote: ${await getSetting(GIT_REMOTE_SETTING) || "нет (только локальные коммиты)"}`
+      : "Hugo API";
+    return {
+      result: `⚙️ Настройки:\n\n📁 Хранилище статей: ${storage}\n\n🌐 Hugo API:\n• URL: ${hugoUrl}\n• Key: ${hugoKey ? "✅ настроен" : "❌ не настроен"}\n\n🤖 LLM:\n• Endpoint: ${llmEndpoint}\n• Модель: ${llmModel}\n• Локальная: ${useLocal === "true" ? "✅ вкл" : "❌ выкл"}\n\n🖼 Изображения:\n• Unsplash: ${unsplashKey ? "✅" : "❌"}\n• Pixabay: ${pixabayKey ? "✅" : "❌"}\n\n🔗 Эмбеддинги: ${embeddings ? `${embeddings.model} (${embeddings.provider.id})` : "нет провайдера"}\n\n🗓 Часовой пояс расписания: ${timeZone}`,
+    };
+  },
+});
+
+export const saveSettingsTool = defineTool({
+  name: "save_settings",
+  description: "Сохранить настройки подключения.",
+  input: z.object({
+    hugo_base_url: z.url().max(1024).optional().describe("URL Hugo API"),
+    hugo_api_key: z.string().min(1).max(512).optional().describe("API-ключ Hugo"),
+    llm_endpoint: z.url().max(1024).optional().describe("URL LLM API"),
+    llm_model: z.string().min(1).max(256).optional().describe("Название модели"),
+    llm_api_key: z.string().min(1).max(512).optional().describe("API-ключ LLM"),
+    llm_use_local: z.boolean().optional().describe("Использовать локальную модель"),
+    timezone: z.string().max(64)
+      .refine(tz => parseScheduleTime("2000-01-01 00:00", tz) !== null, "Неизвестный часовой пояс")
+      .optional().describe("Часовой пояс для расписания публикаций (IANA, например Europe/Moscow)"),
+    embedding_provider: z.string().regex(/^[a-z0-9_-]{1,32}$/).optional().describe("id провайдера для эмбеддингов (по умолчанию первый в цепочке)"),
+    embedding_model: z.string().min(1).max(256).optional().describe("Модель эмбеддингов, например nomic-embed-text; при смене индекс перестраивается"),
+    content_backend: z.enum(CONTENT_BACKENDS).optional().describe("Где хранятся статьи: rest — Hugo API, git — Markdown-файлы в git-репозитории сайта"),
+    git_repo_path: z.string().min(1).max(1024).optional().describe("Путь к локальному клону репозитория сайта"),
+    git_content_dir: z.string().max(256).regex(/^[\w-][\w.-]*(\/[\w-][\w.-]*)*$/, "Относительный путь внутри репозитория").optional()
+      .describe(`Папка статей внутри репозитория (по умолчанию ${DEFAULT_GIT_CONTENT_DIR})`),
+    git_remote: gitRefSchema.optional().describe("Remote для push после каждого коммита, например origin; без него коммиты остаются локальными"),
+    git_branch: gitRefSchema.optional().describe("Ветка для pull и push (по умолчанию текущая)"),
+  }),
+  permission: "admin",
+  // Never echo secrets back, only which settings change
+  confirm: args => {
+    const keys = Object.keys(args).filter(k => k in SETTING_LABELS).map(k => SETTING_LABELS[k as keyof typeof SETTING_LABELS]);
+    return `⚙️ Изменить настройки: ${keys.join(", ") || "нет данных"}`;
+  },
+  async handler(args) {
+    const saved: string[] = [];
+    if (args.hugo_base_url) { await setSetting("hugo_base_url", args.hugo_base_url); saved.push("Hugo URL"); }
+    if (args.hugo_api_key) { await setSetting("hugo_api_key", args.hugo_api_key); saved.push("Hugo API Key"); }
+    if (args.llm_endpoint) { await setSetting("llm_endpoint", args.llm_endpoint); saved.push("LLM Endpoint"); }
+    if (args.llm_model) { await setSetting("llm_model", args.llm_model); saved.push("LLM Model"); }
+    if (args.llm_api_key) { await setSetting("llm_api_key", args.llm_api_key); saved.push("LLM API Key"); }
+    if (args.llm_use_local !== undefined) { await setSetting("llm_use_local", args.llm_use_local ? "true" : "false"); saved.push("Use Local LLM"); }
+    if (args.timezone) { await setSetting("timezone", args.timezone); saved.push("Timezone"); }
+    if (args.embedding_provider) { await setSetting(EMBEDDING_PROVIDER_SETTING, args.embedding_provider); saved.push("Embedding Provider"); }
+    if (args.embedding_model) { await setSetting(EMBEDDING_MODEL_SETTING, args.embedding_model); saved.push("Embedding Model"); }
+    // Vectors from another model are not comparable, so the index is rebuilt with the new one
+    if (args.embedding_provider || args.embedding_model) requestArticleIndexRefresh();
+    if (args.content_backend) { await setSetting(CONTENT_BACKEND_SETTING, args.content_backend); saved.push("Content Backend"); }
+    if (args.git_repo_path) { await setSetting(GIT_REPO_PATH_SETTING, args.git_repo_path); saved.push("Git Repository"); }
+    if (args.git_content_dir) { await setSetting(GIT_CONTENT_DIR_SETTING, args.git_content_dir); saved.push("Git Content Dir"); }
+    if (args.git_remote) { await setSetting(GIT_REMOTE_SETTING, args.git_remote); saved.push("Git Remote"); }
+    if (args.git_branch) { await setSetting(GIT_BRANCH_SETTING, args.git_branch); saved.push("Git Branch"); }
+    return { result: saved.length > 0 ? `✅ Обновлено: ${saved.join(", ")}` : "Нет данных для сохранения." };
+  },
+});
@@ -0,0 +1,168 @@
+import { z } from "zod";
+import { defineTool, type ToolResult } from "./registry";
+import { filenameArg } from "./articles";
+import { sanitizeErrorForUser } from "./helpers";
+import { getArticleByFilename, ownerOfToolCall } from "../db";
+import { completeTask, parseJsonReply } from "../llm-tasks";
+import {
+  generateOutline, reviseOutline, writeArticle, formatOutline,
+  saveOutlineDraft, getOutlineDraft, discardOutlineDraft, type OutlineDraft,
+} from "../article-generation";
+
+// ─── Writing operations that run their own LLM call with a task-specific model ───
+const MAX_SEO_SOURCE_LENGTH = 6000;
+
+const seoSuggestionSchema = z.object({
+  title: z.string().min(1).max(512),
+  description: z.string().min(1).max(2000),
+  tags: z.array(z.string().min(1).max(100)).max(20),
+});
+
+export const suggestSeoTool = defineTool({
+  name: "suggest_seo",
+  description: "Предложить SEO-заголовок, мета-описание и теги для статьи. Ничего не сохраняет: примени результат через edit_article.",
+  input: z.object({ filename: filenameArg }),
+  permission: "read",
+  async handler(args, ctx) {
+    const article = await getArticleByFilename(args.filename);
+    if (!article) return { result: `Статья "${args.filename}" не найдена.` };
+    try {
+      const reply = await completeTask("seo", [
+        {
+          role: "system",
+          content: "Ты SEO-редактор блога. Ответь только JSON без пояснений: " +
+            '{"title": "заголовок до 60 символов", "description": "мета-описание до 160 символов", "tags": ["3-7 тегов"]}. ' +
+            "Пиши на языке статьи.",
+        },
+        {
+          role: "user",
+          content: `Заголовок: ${article.title}\nТекущее описание: ${article.description || "нет"}\nТекущие теги: ${article.tags || "нет"}\n\n${(article.content ?? "").slice(0, MAX_SEO_SOURCE_LENGTH)}`,
+        },
+      ], ownerOfToolCall(ctx));
+      const seo = seoSuggestionSchema.parse(parseJsonReply(reply));
+      return {
+        result: `🔍 SEO для «${article.title}»:\n\n• Заголовок: ${seo.title}\n• Описание: ${seo.description}\n• Теги: ${seo.tags.join(", ")}`,
+        metadata: { type: "seo", filename: article.filename, ...seo },
+      };
+    } catch (e: any) {
+      return { result: `❌ Не удалось подобрать SEO: ${sanitizeErrorForUser(e)}` };
+    }
+  },
+});
+
+export const translateArticleTool = defineTool({
+  name: "translate_article",
+  description: "Перевести статью на другой язык с сохранением Markdown. Ничего не сохраняет: чтобы опубликовать перевод, создай статью через create_article.",
+  input: z.object({
+    filename: filenameArg,
+    language: z.string().min(2).max(50).describe("Язык перевода, например английский или en"),
+  }),
+  permission: "read",
+  async handler(args, ctx) {
+    const article = await getArticleByFilename(args.filename);
+    if (!article) return { result: `Статья "${args.filename}" не найдена.` };
+    try {
+      const translation = await completeTask("translation", [
+        {
+          role: "system",
+          content: `Переведи статью на язык: ${args.language}. Сохрани Markdown-разметку, ссылки и блоки кода без изменений. ` +
+            "Первой строкой выведи переведённый заголовок с префиксом «# », затем пустую строку и текст. Без комментариев.",
+        },
+        { role: "user", content: `# ${article.title}\n\n${article.content ?? ""}` },
+      ], ownerOfToolCall(ctx));
+      return {
+        result: `🌐 Перевод «${article.title}» (${args.language}):\n\n${translation}`,
+        metadata: { type: "translation", filename: article.filename, language: args.language },
+      };
+    } catch (e: any) {
+      return { result: `❌ Ошибка перевода: ${sanitizeErrorForUser(e)}` };
+    }
+  },
+});
+
+// ─── Article generation: outline → approval → sections (article-generation.ts) ───
+const outlineIdArg = z.string().min(1).max(64).describe("Идентификатор плана из generate_article");
+
+const OUTLINE_ERRORS = {
+  not_found: "❌ План не найден или устарел. Составьте новый через generate_article.",
+  forbidden: "❌ Этот план составлен для другого пользователя.",
+};
+
+function outlineResult(draft: OutlineDraft, intro: string): ToolResult {
+  const text = formatOutline(draft.outline);
+  return {
+    result: `${intro}\n\n${text}\n\n⏳ План (outline_id: ${draft.id}) ждёт решения пользователя. Пользователь видит план — не пересказывай его целиком. ` +
+      "Когда пользователь его утвердит, вызови write_article_from_outline, если попросит изменить — revise_article_outline.",
+    metadata: { type: "outline", outlineId: draft.id, text },
+  };
+}
+
+export const generateArticleTool = defineTool({
+  name: "generate_article",
+  description: "Написать статью с помощью AI: сначала составляет план, который пользователь утверждает или правит, затем пишет разделы по одному и сохраняет черновик. Используй вместо create_article, когда статью нужно написать.",
+  input: z.object({
+    topic: z.string().min(3).max(500).describe("Тема статьи"),
+    instructions: z.string().max(2000).optional().describe("Пожелания: аудитория, тон, объём, что обязательно упомянуть"),
+    sections: z.number().int().min(2).max(12).optional().describe("Количество разделов"),
+  }),
+  permission: "write",
+  async handler(args, ctx) {
+    const owner = ownerOfToolCall(ctx);
+    if (!owner) return { result: "❌ Генерация статей доступна только из чата." };
+    try {
+      const outline = await generateOutline(args.topic, args, owner);
+      return outlineResult(saveOutlineDraft(owner, args.topic, outline, args.instructions), "🗂 План статьи готов:");
+    } catch (e: any) {
+      return { result: `❌ Не удалось составить план: ${sanitizeErrorForUser(e)}` };
+    }
+  },
+});
+
+export const reviseArticleOutlineTool = defineTool({
+  name: "revise_article_outline",
+  description: "Исправить план статьи из generate_article по замечаниям пользователя.",
+  input: z.object({
+    outline_id: outlineIdArg,
+    feedback: z.string().min(1).max(2000).describe("Что изменить в плане"),
+  }),
+  permission: "write",
+  async handler(args, ctx) {
+    const owner = ownerOfToolCall(ctx);
+    const found = owner ? getOutlineDraft(args.outline_id, owner) : { error: "not_found" as const };
+    if ("error" in found) return { result: OUTLINE_ERRORS[found.error] };
+    try {
+      const outline = await reviseOutline(found.draft, args.feedback);
+      const draft = saveOutlineDraft(found.draft.owner, found.draft.topic, outline, found.draft.instructions, found.draft.id);
+      return outlineResult(draft, "🗂 План обновлён:");
+    } catch (e: any) {
+      return { result: `❌ Не удалось исправить план: ${sanitizeErrorForUser(e)}` };
+    }
+  },
+});
+
+export const writeArticleFromOutlineTool = defineTool({
+  name: "write_article_from_outline",
+  description: "Написать статью по утверждённому плану: каждый раздел отдельным запросом, результат сохраняется как черновик.",
+  input: z.object({ outline_id: outlineIdArg }),
+  permission: "write",
+  async handler(args, ctx) {
+    const owner = ownerOfToolCall(ctx);
+    const found = owner ? getOutlineDraft(args.outline_id, owner) : { error: "not_found" as const };
+    if ("error" in found) return { result: OUTLINE_ERRORS[found.error] };
+    // A second tap must not start the same article twice
+    discardOutlineDraft(found.draft.id);
+    const { outline } = found.draft;
+    try {
+      const { filename, content } = await writeArticle(found.draft, (index, total, heading) =>
+        ctx.onProgress?.(`✍️ Пишу статью «${outline.title}»\nРаздел ${index + 1} из ${total}: ${heading}`));
+      return {
+        result: `✅ Статья «${outline.title}» написана и сохранена как черновик: ${filename} (${outline.sections.length} разделов, ${content.length} символов).`,
+        metadata: { type: "generated_article", filename },
+      };
+    } catch (e: any) {
+      // The outline stays available for another attempt
+      saveOutlineDraft(found.draft.owner, found.draft.topic, outline, found.draft.instructions, found.draft.id);
+      return { result: `❌ Не удалось написать статью: ${sanitizeErrorForUser(e)}. План сохранён, можно повторить.` };
+    }
+  },
+});
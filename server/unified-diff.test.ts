@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { unifiedDiff, mergeThreeWay } from "./unified-diff";
+import { renderArticleForDiff } from "./tools/helpers";
+
+describe("unifiedDiff", () => {
+  it("returns empty string for equal texts", () => {
+    expect(unifiedDiff("a\nb", "a\nb")).toBe("");
+  });
+
+  it("renders a single changed line with context", () => {
+    const diff = unifiedDiff("a\nb\nc", "a\nB\nc", { oldLabel: "post.md@1", newLabel: "post.md@current" });
+    expect(diff).toBe([
+      "--- post.md@1",
+      "+++ post.md@current",
+      "@@ -1,3 +1,3 @@",
+      " a",
+      "-b",
+      "+B",
+      " c",
+    ].join("\n"));
+  });
+
+  it("limits context and splits distant changes into hunks", () => {
+    const oldLines = Array.from({ length: 30 }, (_, i) => `line ${i}`);
+    const newLines = [...oldLines];
+    newLines[2] = "changed 2";
+    newLines[25] = "changed 25";
+    const diff = unifiedDiff(oldLines.join("\n"), newLines.join("\n"), { context: 1 });
+    const hunks = diff.split("\n").filter(l => l.startsWith("@@"));
+    expect(hunks).toEqual(["@@ -2,3 +2,3 @@", "@@ -25,3 +25,3 @@"]);
+    expect(diff).not.toContain("line 10");
+  });
+
+  it("handles pure insertions and deletions", () => {
+    expect(unifiedDiff("a\nc", "a\nb\nc")).toContain("\n+b\n");
+    expect(unifiedDiff("a\nb\nc", "a\nc")).toContain("\n-b\n");
+    expect(unifiedDiff("", "new")).toContain("+new");
+  });
+});
+
+describe("mergeThreeWay", () => {
+  const base = "a\nb\nc\nd\ne";
+
+  it("applies changes from both sides when they are apart", () => {
+    expect(mergeThreeWay(base, "A\nb\nc\nd\ne", "a\nb\nc\nd\nE")).toBe("A\nb\nc\nd\nE");
+    expect(mergeThreeWay(base, "a\nb\nc\nd\ne\nf", "a\nc\nd\ne")).toBe("a\nc\nd\ne\nf");
+  });
+
+  it("accepts the same change made on both sides", () => {
+    expect(mergeThreeWay(base, "a\nB\nc\nd\ne", "a\nB\nc\nd\ne")).toBe("a\nB\nc\nd\ne");
+  });
+
+  it("gives up when both sides change the same lines", () => {
+    expect(mergeThreeWay(base, "a\nX\nc\nd\ne", "a\nY\nc\nd\ne")).toBeNull();
+    expect(mergeThreeWay(base, "a\nX\nc\nd\ne", "a\nb\nY\nd\ne")).toBeNull();
+  });
+});
+
+describe("renderArticleForDiff", () => {
+  it("puts front matter fields before the body", () => {
+    const text = renderArticleForDiff({
+      title: "Hello", description: null, tags: "ai, ml", categories: null, draft: true, content: "Body",
+    });
+    expect(text).toBe("title: Hello\ndescription: \ntags: ai, ml\ncategories: \ndraft: true\n---\nBody");
+  });
+
+  it("shows a changed tag as a front matter diff line", () => {
+    const base = { title: "T", description: "", tags: "a", categories: "", draft: false, content: "x" };
+    const diff = unifiedDiff(renderArticleForDiff(base), renderArticleForDiff({ ...base, tags: "a, b" }));
+    expect(diff).toContain("-tags: a\n+tags: a, b");
+  });
+});
@@ -0,0 +1,137 @@
+// ─── Line-based unified diff (LCS) for article revisions ───
+const MAX_DIFF_CELLS = 4_000_000; // bounds the LCS table for very long articles
+
+type DiffLine = { op: " " | "-" | "+"; text: string };
+
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  // Common prefix/suffix never need the LCS table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const middle: DiffLine[] = [];
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_DIFF_CELLS) {
+    // Too large for an exact diff: show the changed block as a replacement
+    midA.forEach(text => middle.push({ op: "-", text }));
+    midB.forEach(text => middle.push({ op: "+", text }));
+  } else {
+    const cols = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) { middle.push({ op: " ", text: midA[i] }); i++; j++; }
+      else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) middle.push({ op: "-", text: midA[i++] });
+      else middle.push({ op: "+", text: midB[j++] });
+    }
+    while (i < midA.length) middle.push({ op: "-", text: midA[i++] });
+    while (j < midB.length) middle.push({ op: "+", text: midB[j++] });
+  }
+
+  return [
+    ...a.slice(0, start).map(text => ({ op: " " as const, text })),
+    ...middle,
+    ...a.slice(endA).map(text => ({ op: " " as const, text })),
+  ];
+}
+
+/** Unified diff of two texts; empty string when they are equal */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  opts: { oldLabel?: string; newLabel?: string; context?: number } = {}
+): string {
+  if (oldText === newText) return "";
+  const context = opts.context ?? 3;
+  const lines = diffLines(oldText.split("\n"), newText.split("\n"));
+
+  // Group changes that are within 2 * context lines of each other into hunks
+  const hunks: Array<[number, number]> = [];
+  lines.forEach((line, idx) => {
+    if (line.op === " ") return;
+    const from = Math.max(0, idx - context);
+    const to = Math.min(lines.length, idx + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && from <= last[1]) last[1] = to;
+    else hunks.push([from, to]);
+  });
+
+  const out = [`--- ${opts.oldLabel ?? "a"}`, `+++ ${opts.newLabel ?? "b"}`];
+  for (const [from, to] of hunks) {
+    // Line numbers of the hunk start in the old and new text
+    let oldLine = 1;
+    let newLine = 1;
+    for (let k = 0; k < from; k++) {
+      if (lines[k].op !== "+") oldLine++;
+      if (lines[k].op !== "-") newLine++;
+    }
+    const body = lines.slice(from, to);
+    const oldCount = body.filter(l => l.op !== "+").length;
+    const newCount = body.filter(l => l.op !== "-").length;
+    out.push(`@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`);
+    for (const line of body) out.push(`${line.op}${line.text}`);
+  }
+  return out.join("\n");
+}
+
+// ─── Three-way merge for sync conflicts ───
+type ChangeHunk = { start: number; end: number; lines: string[] };
+
+// Base lines [start, end) replaced by `lines`; start === end is a pure insertion
+function changeHunks(base: string[], other: string[]): ChangeHunk[] {
+  const hunks: ChangeHunk[] = [];
+  let current: ChangeHunk | null = null;
+  let index = 0;
+  for (const line of diffLines(base, other)) {
+    if (line.op === " ") {
+      current = null;
+      index++;
+      continue;
+    }
+    if (!current) {
+      current = { start: index, end: index, lines: [] };
+      hunks.push(current);
+    }
+    if (line.op === "-") current.end = ++index;
+    else current.lines.push(line.text);
+  }
+  return hunks;
+}
+
+/**
+ * Applies both sides' changes to the base. Changes that overlap or touch count as a conflict
+ * unless they are identical; null then, since there is no safe result.
+ */
+export function mergeThreeWay(base: string, local: string, remote: string): string | null {
+  const baseLines = base.split("\n");
+  const hunks = [...changeHunks(baseLines, local.split("\n")), ...changeHunks(baseLines, remote.split("\n"))]
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+  const out: string[] = [];
+  let position = 0;
+  for (let k = 0; k < hunks.length; k++) {
+    const hunk = hunks[k];
+    const next = hunks[k + 1];
+    // Hunks of one side are separated by unchanged lines, so an overlap is always local vs remote
+    if (next && next.start <= hunk.end) {
+      const identical = next.start === hunk.start && next.end === hunk.end && next.lines.join("\n") === hunk.lines.join("\n");
+      if (!identical) return null;
+      k++;
+    }
+    out.push(...baseLines.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  }
+  out.push(...baseLines.slice(position));
+  return out.join("\n");
+}
@@ -0,0 +1,70 @@
+import type { AiGeneration } from "../drizzle/schema";
+import { createAiGeneration, type ConversationOwner } from "./db";
+import { formatScheduleTime, parseScheduleTime } from "./tools/schedule";
+
+// ─── LLM usage accounting: every round-trip is a row in ai_generations ───
+const MAX_LOGGED_TEXT_LENGTH = 2000;
+
+type LoggedMessage = { role: string; content?: unknown };
+
+function truncate(text: string): string {
+  return text.length > MAX_LOGGED_TEXT_LENGTH ? `${text.slice(0, MAX_LOGGED_TEXT_LENGTH)}…` : text;
+}
+
+function textOf(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) return content.map(part => (typeof part?.text === "string" ? part.text : "")).join("");
+  return "";
+}
+
+/** The latest user message is what the round-trip was about; tool follow-ups reuse it */
+export function promptOf(messages: LoggedMessage[]): string {
+  const lastUser = [...messages].reverse().find(m => m.role === "user");
+  return truncate(textOf(lastUser?.content));
+}
+
+/** Assistant text, or the tools it asked for when it only called tools */
+export function resultOf(response: any): string {
+  const message = response?.choices?.[0]?.message;
+  const text = textOf(message?.content);
+  if (text) return truncate(text);
+  const tools = (message?.tool_calls ?? []).map((c: any) => c.function?.name).filter(Boolean);
+  return tools.length > 0 ? `tool_calls: ${tools.join(", ")}` : "";
+}
+
+// Logging must never fail the request it describes
+export async function recordLLMCall(call: {
+  owner?: ConversationOwner;
+  type?: AiGeneration["type"];
+  /** Provider id from the chain in llm-router.ts */
+  provider: string;
+  model?: string;
+  messages: LoggedMessage[];
+  response?: any;
+  error?: string;
+}) {
+  const usage = call.response?.usage;
+  try {
+    await createAiGeneration({
+      ...(call.owner ?? {}),
+      type: call.type ?? "assistant",
+      prompt: promptOf(call.messages),
+      result: call.error ? truncate(call.error) : resultOf(call.response),
+      provider: call.provider,
+      model: call.response?.model || call.model || null,
+      promptTokens: usage?.prompt_tokens ?? null,
+      completionTokens: usage?.completion_tokens ?? null,
+      tokensUsed: usage?.total_tokens ?? (usage ? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0) : null),
+      status: call.error ? "failed" : "completed",
+    });
+  } catch (e: any) {
+    console.warn(`[Usage] Failed to record LLM call: ${e.message}`);
+  }
+}
+
+/** Start of the current day or month in the schedule time zone */
+export function usagePeriodStart(period: "day" | "month", timeZone = "UTC", now = new Date()): Date {
+  const today = formatScheduleTime(now, timeZone).slice(0, 10);
+  const day = period === "day" ? today : `${today.slice(0, 7)}-01`;
+  return parseScheduleTime(`${day} 00:00`, timeZone) ?? now;
+}